@@ -1,17 +1,31 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { HashRouter, Routes, Route } from 'react-router-dom';
+import { completeEmailLinkSignIn } from './services/authService';
 import Creator from './components/Creator';
+import Dashboard from './components/Dashboard';
 import MenuEditor from './components/MenuEditor';
 import Success from './components/Success';
 import MenuViewer from './components/MenuViewer';
+import Analytics from './components/Analytics';
 
 const App: React.FC = () => {
+  // Finish email-link sign-ins and send the owner back to where they started
+  useEffect(() => {
+    completeEmailLinkSignIn()
+      .then((returnHash) => {
+        if (returnHash) window.location.replace(`${window.location.origin}${window.location.pathname}${returnHash}`);
+      })
+      .catch((e) => console.error("Email link sign-in failed", e));
+  }, []);
+
   return (
     <HashRouter>
       <Routes>
         <Route path="/" element={<Creator />} />
+        <Route path="/dashboard" element={<Dashboard />} />
         <Route path="/editor/:id" element={<MenuEditor />} />
         <Route path="/success/:id" element={<Success />} />
+        <Route path="/analytics/:id" element={<Analytics />} />
         {/* Support both ID and Slug for backward compatibility and pretty URLs */}
         <Route path="/menu/:id" element={<MenuViewer />} />
         <Route path="/m/:slug" element={<MenuViewer />} />
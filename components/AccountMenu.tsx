@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Language } from '../types';
+import { User, Mail, LogOut, Check, X } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { OwnerSession, onOwnerChange, sendEmailSignInLink, signOut } from '../services/authService';
+
+interface AccountMenuProps {
+  language?: Language;
+}
+
+const AccountMenu: React.FC<AccountMenuProps> = ({ language }) => {
+  const [session, setSession] = useState<OwnerSession | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const t = getTranslations(language);
+
+  useEffect(() => onOwnerChange(setSession), []);
+
+  // Local-only mode has no accounts to manage
+  if (!session || session.isLocal) return null;
+
+  const handleSendLink = async () => {
+    if (!email.trim()) return;
+    setIsSending(true);
+    try {
+      await sendEmailSignInLink(email.trim());
+      setLinkSent(true);
+    } catch (e) {
+      console.error(e);
+      alert(t.signInFailed);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 bg-slate-50 px-2 py-1 rounded border border-slate-200 text-xs font-medium text-slate-600 hover:bg-slate-100"
+        title={session.email || t.guestAccount}
+      >
+        <User size={12} /> <span className="hidden sm:inline max-w-[120px] truncate">{session.email || t.guestAccount}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-xl border border-slate-200 p-4 z-50 space-y-3">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="text-sm font-bold text-slate-800">{session.email || t.guestAccount}</p>
+              <p className="text-[11px] text-slate-400">{session.isAnonymous ? t.guestHint : t.signedInHint}</p>
+            </div>
+            <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-slate-600"><X size={14} /></button>
+          </div>
+
+          {session.isAnonymous ? (
+            linkSent ? (
+              <p className="text-xs text-green-700 bg-green-50 rounded-lg p-2 flex items-center gap-1"><Check size={12} /> {t.signInLinkSent}</p>
+            ) : (
+              <div className="flex gap-2">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSendLink()}
+                  placeholder="you@restaurant.com"
+                  className="flex-1 min-w-0 p-2 text-xs border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-brand-500"
+                />
+                <button
+                  onClick={handleSendLink}
+                  disabled={isSending || !email.trim()}
+                  className="bg-slate-900 text-white px-3 rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Mail size={12} /> {t.sendSignInLink}
+                </button>
+              </div>
+            )
+          ) : (
+            <button onClick={() => signOut()} className="w-full text-xs font-bold text-slate-600 border border-slate-200 rounded-lg py-2 hover:bg-slate-50 flex items-center justify-center gap-1">
+              <LogOut size={12} /> {t.signOut}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountMenu;
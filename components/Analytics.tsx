@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { AnalyticsEvent, RestaurantMenu } from '../types';
+import { ArrowLeft, BarChart3, Loader2, Lock, QrCode, ShoppingBag, Users, MessageCircle } from 'lucide-react';
+import { getMenu } from '../services/storageService';
+import { listEvents } from '../services/analyticsService';
+import { canEditMenu, onOwnerChange } from '../services/authService';
+import { getTranslations } from '../utils/translations';
+import { getLocale } from '../utils/price';
+import { getRangeStart, summarizeEvents } from '../utils/analytics';
+import AccountMenu from './AccountMenu';
+
+const RANGES = [7, 30, 90];
+
+const Analytics: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [menu, setMenu] = useState<RestaurantMenu | null>(null);
+  const [ownerId, setOwnerId] = useState<string | null>(null);
+  const [isAuthReady, setIsAuthReady] = useState(false);
+  const [days, setDays] = useState(7);
+  const [events, setEvents] = useState<AnalyticsEvent[] | null>(null);
+
+  useEffect(() => {
+    if (id) getMenu(id).then(setMenu);
+  }, [id]);
+
+  useEffect(() => onOwnerChange((session) => {
+    setOwnerId(session?.uid || null);
+    setIsAuthReady(true);
+  }), []);
+
+  const canView = !!menu && isAuthReady && canEditMenu(menu, ownerId);
+
+  useEffect(() => {
+    if (!menu || !canView) return;
+    setEvents(null);
+    listEvents(menu.id, getRangeStart(days))
+      .then(setEvents)
+      .catch((e) => {
+        console.error(e);
+        setEvents([]);
+      });
+  }, [menu?.id, canView, days]);
+
+  if (!menu || !isAuthReady) return <div className="min-h-screen flex items-center justify-center text-slate-500">Loading...</div>;
+  const t = getTranslations(menu.language);
+  const locale = getLocale(menu.language);
+
+  if (!canView) return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 text-center bg-slate-50">
+      <Lock className="w-16 h-16 text-slate-300 mb-4" />
+      <h1 className="text-2xl font-bold text-slate-800 mb-2">{t.noAnalyticsAccess}</h1>
+      <AccountMenu language={menu.language} />
+    </div>
+  );
+
+  const summary = events && summarizeEvents(events, menu, days);
+  const maxDaily = summary ? Math.max(1, ...summary.daily.map(day => day.scans)) : 1;
+  const maxHour = summary ? Math.max(1, ...summary.hours) : 1;
+  const peakHour = summary && summary.scans > 0 ? summary.hours.indexOf(Math.max(...summary.hours)) : null;
+  const formatDay = (date: string) => new Date(`${date}T12:00:00`).toLocaleDateString(locale, { day: 'numeric', month: 'short' });
+
+  const stats = summary ? [
+    { icon: QrCode, label: t.scansLabel, value: summary.scans.toLocaleString(locale), hint: `${summary.sources.qr} ${t.fromQrCode}` },
+    { icon: Users, label: t.visitorsLabel, value: summary.sessions.toLocaleString(locale), hint: t.visitorsHint },
+    { icon: ShoppingBag, label: t.cartConversion, value: `${Math.round(summary.conversion * 100)}%`, hint: `${summary.cartSessions} ${t.visitorsAddedToCart}` },
+    { icon: MessageCircle, label: t.chatQuestionsLabel, value: summary.chatQuestions.toLocaleString(locale), hint: peakHour !== null ? `${t.peakHour}: ${peakHour}:00` : '' },
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col font-sans">
+      <nav className="flex justify-between items-center py-6 px-6 max-w-5xl mx-auto w-full">
+        <div className="flex items-center gap-2 min-w-0">
+          <Link to="/dashboard" className="text-slate-500 hover:text-slate-900 p-2 -ml-2 rounded-full hover:bg-slate-100 transition-colors">
+            <ArrowLeft size={20} />
+          </Link>
+          <h1 className="font-black text-slate-900 text-xl tracking-tight truncate flex items-center gap-2"><BarChart3 size={20} /> {menu.name}</h1>
+        </div>
+        <div className="flex bg-white border border-slate-200 rounded-lg p-1">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1 rounded-md text-xs font-bold ${days === range ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-800'}`}
+            >
+              {range} {t.daysShort}
+            </button>
+          ))}
+        </div>
+      </nav>
+
+      <main className="flex-1 max-w-5xl mx-auto w-full px-6 pb-20 space-y-6">
+        {!summary ? (
+          <div className="flex justify-center py-20 text-slate-400"><Loader2 className="animate-spin" size={28} /></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stats.map(({ icon: Icon, label, value, hint }) => (
+                <div key={label} className="bg-white rounded-2xl border border-slate-200 shadow-sm p-4">
+                  <p className="text-[11px] font-bold uppercase text-slate-400 flex items-center gap-1.5"><Icon size={12} /> {label}</p>
+                  <p className="text-2xl font-black text-slate-900 mt-1">{value}</p>
+                  <p className="text-[11px] text-slate-400 mt-0.5">{hint}</p>
+                </div>
+              ))}
+            </div>
+
+            <section className="bg-white rounded-2xl border border-slate-200 shadow-sm p-5">
+              <h2 className="font-bold text-slate-800 mb-4">{t.dailyScans}</h2>
+              <div className="flex items-end gap-1 h-40">
+                {summary.daily.map(day => (
+                  <div key={day.date} className="flex-1 h-full flex flex-col justify-end group relative" title={`${formatDay(day.date)}: ${day.scans}`}>
+                    <div className="bg-brand-500 group-hover:bg-brand-600 rounded-t min-h-[2px]" style={{ height: `${(day.scans / maxDaily) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-slate-400 mt-2">
+                <span>{formatDay(summary.daily[0].date)}</span>
+                <span>{formatDay(summary.daily[summary.daily.length - 1].date)}</span>
+              </div>
+            </section>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <section className="bg-white rounded-2xl border border-slate-200 shadow-sm p-5">
+                <h2 className="font-bold text-slate-800 mb-4">{t.topItems}</h2>
+                {summary.topItems.length === 0 ? (
+                  <p className="text-sm text-slate-400 py-6 text-center">{t.noAnalyticsYet}</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-[11px] uppercase text-slate-400">
+                        <th className="text-left font-bold pb-2">{t.itemLabel}</th>
+                        <th className="text-right font-bold pb-2">{t.photoViews}</th>
+                        <th className="text-right font-bold pb-2">{t.cartAdds}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-50">
+                      {summary.topItems.map(item => (
+                        <tr key={item.itemId}>
+                          <td className="py-2 font-medium text-slate-700 truncate max-w-[12rem]">{item.name}</td>
+                          <td className="py-2 text-right text-slate-500">{item.views}</td>
+                          <td className="py-2 text-right font-bold text-slate-800">{item.adds}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              <section className="bg-white rounded-2xl border border-slate-200 shadow-sm p-5">
+                <h2 className="font-bold text-slate-800 mb-4">{t.peakHours}</h2>
+                <div className="flex items-end gap-0.5 h-32">
+                  {summary.hours.map((count, hour) => (
+                    <div key={hour} className="flex-1 h-full flex flex-col justify-end" title={`${hour}:00 · ${count}`}>
+                      <div className={`rounded-t min-h-[2px] ${hour === peakHour ? 'bg-amber-500' : 'bg-slate-300'}`} style={{ height: `${(count / maxHour) * 100}%` }} />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-[10px] text-slate-400 mt-2">
+                  <span>0h</span><span>6h</span><span>12h</span><span>18h</span><span>23h</span>
+                </div>
+              </section>
+            </div>
+
+            {summary.tables.length > 0 && (
+              <section className="bg-white rounded-2xl border border-slate-200 shadow-sm p-5">
+                <h2 className="font-bold text-slate-800 mb-4">{t.opensByTable}</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-[11px] uppercase text-slate-400">
+                      <th className="text-left font-bold pb-2">{t.orderTable}</th>
+                      <th className="text-right font-bold pb-2">{t.scansLabel}</th>
+                      <th className="text-right font-bold pb-2">{t.cartAdds}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {summary.tables.map(table => (
+                      <tr key={table.tableId}>
+                        <td className="py-2 font-medium text-slate-700">{table.name}</td>
+                        <td className="py-2 text-right text-slate-500">{table.opens}</td>
+                        <td className="py-2 text-right font-bold text-slate-800">{table.adds}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Analytics;
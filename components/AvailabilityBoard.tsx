@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Language, RestaurantMenu } from '../types';
+import { Search, Clock, RotateCcw, Loader2 } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { describeSchedule, getZonedTime, isWithinSchedule } from '../utils/availability';
+
+interface AvailabilityBoardProps {
+  menu: RestaurantMenu;
+  language?: Language;
+  onSetSoldOut: (itemIds: string[], soldOut: boolean) => Promise<void>;
+  disabled?: boolean; // Another save is still in flight
+}
+
+// The "86 list": flip items in and out of stock during service
+const AvailabilityBoard: React.FC<AvailabilityBoardProps> = ({ menu, language, onSetSoldOut, disabled }) => {
+  const [search, setSearch] = useState('');
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+  const t = getTranslations(language);
+  const now = getZonedTime(menu.timezone);
+
+  const query = search.trim().toLowerCase();
+  const soldOutIds = menu.categories.flatMap(cat => cat.items.filter(item => item.soldOut).map(item => item.id));
+
+  const run = async (itemIds: string[], soldOut: boolean) => {
+    setPendingIds(prev => [...prev, ...itemIds]);
+    try {
+      await onSetSoldOut(itemIds, soldOut);
+    } finally {
+      setPendingIds(prev => prev.filter(id => !itemIds.includes(id)));
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4 animate-in fade-in duration-300 pb-20">
+      <div className="bg-white rounded-xl border border-slate-200 p-4 flex flex-col sm:flex-row gap-3 sm:items-center">
+        <div className="relative flex-1">
+          <Search size={14} className="absolute left-3 top-3 text-slate-400" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t.searchItems}
+            className="w-full pl-9 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-brand-500"
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-bold text-red-600">{soldOutIds.length} {t.soldOutCount}</span>
+          <button
+            onClick={() => run(soldOutIds, false)}
+            disabled={disabled || soldOutIds.length === 0 || pendingIds.length > 0}
+            className="text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-3 py-2 hover:bg-slate-50 flex items-center gap-1 disabled:opacity-40"
+          >
+            <RotateCcw size={12} /> {t.restockAll}
+          </button>
+        </div>
+      </div>
+      <p className="text-[11px] text-slate-400 px-1">{t.availabilityLiveHint}</p>
+
+      {menu.categories.map(cat => {
+        const items = cat.items.filter(item => !query || item.name.toLowerCase().includes(query));
+        if (items.length === 0) return null;
+        const categoryOpen = isWithinSchedule(cat.schedule, now);
+        return (
+          <section key={cat.id} className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+            <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex justify-between items-center">
+              <h3 className="font-bold text-sm text-slate-700">{cat.title}</h3>
+              {cat.schedule && cat.schedule.length > 0 && (
+                <span className={`text-[10px] font-bold flex items-center gap-1 ${categoryOpen ? 'text-green-600' : 'text-slate-400'}`}>
+                  <Clock size={10} /> {describeSchedule(cat.schedule, language)}
+                </span>
+              )}
+            </div>
+            <ul className="divide-y divide-slate-50">
+              {items.map(item => {
+                const isPending = pendingIds.includes(item.id);
+                const scheduled = isWithinSchedule(item.schedule, now);
+                return (
+                  <li key={item.id} className="px-4 py-2.5 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className={`text-sm font-medium truncate ${item.soldOut ? 'text-slate-400 line-through' : 'text-slate-800'}`}>{item.name}</p>
+                      {item.schedule && item.schedule.length > 0 && (
+                        <p className={`text-[10px] flex items-center gap-1 ${scheduled ? 'text-green-600' : 'text-slate-400'}`}>
+                          <Clock size={10} /> {describeSchedule(item.schedule, language)}
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => run([item.id], !item.soldOut)}
+                      disabled={disabled || pendingIds.length > 0}
+                      className={`flex-shrink-0 w-28 text-xs font-bold py-1.5 rounded-full border flex items-center justify-center gap-1 transition-colors ${item.soldOut
+                        ? 'bg-red-50 text-red-600 border-red-200 hover:bg-red-100'
+                        : 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100'}`}
+                    >
+                      {isPending && <Loader2 size={10} className="animate-spin" />}
+                      {item.soldOut ? t.soldOut : t.inStock}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AvailabilityBoard;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Language, RestaurantMenu } from '../types';
+import { Percent, X, ArrowRight } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { formatPrice, toMinorUnits } from '../utils/price';
+import { PRICE_ROUNDINGS, PriceAdjustment, PriceRounding, previewPriceAdjustment } from '../utils/bulkPricing';
+
+interface BulkPriceDialogProps {
+  menu: RestaurantMenu;
+  language?: Language;
+  onApply: (itemIds: string[], adjustment: PriceAdjustment) => void;
+  onClose: () => void;
+}
+
+const BulkPriceDialog: React.FC<BulkPriceDialogProps> = ({ menu, language, onApply, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => menu.categories.flatMap(cat => cat.items.map(item => item.id)));
+  const [kind, setKind] = useState<PriceAdjustment['kind']>('percent');
+  const [valueText, setValueText] = useState('');
+  const [rounding, setRounding] = useState<PriceRounding>('none');
+  const t = getTranslations(language);
+
+  const parsed = parseFloat(valueText.replace(',', '.'));
+  const adjustment: PriceAdjustment | null = isNaN(parsed) || parsed === 0 && rounding === 'none'
+    ? null
+    : { kind, value: kind === 'percent' ? parsed : toMinorUnits(parsed, menu.currency), rounding };
+  const changes = adjustment ? previewPriceAdjustment(menu, selectedIds, adjustment) : [];
+  const changedCount = changes.filter(change => change.before.amount !== change.after.amount || change.before.maxAmount !== change.after.maxAmount).length;
+
+  const toggleItems = (itemIds: string[], selected: boolean) => {
+    setSelectedIds(prev => selected ? [...new Set([...prev, ...itemIds])] : prev.filter(id => !itemIds.includes(id)));
+  };
+
+  const roundingLabel = (option: PriceRounding) =>
+    option === 'none' ? t.noRounding : `${t.roundTo} ,${option}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white w-full max-w-4xl rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2"><Percent size={18} /> {t.bulkPriceChange}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 p-1 rounded hover:bg-slate-200"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          {/* Which items */}
+          <div className="md:w-64 border-b md:border-b-0 md:border-r border-slate-100 overflow-y-auto max-h-48 md:max-h-none p-3 space-y-3">
+            {menu.categories.map(cat => {
+              const itemIds = cat.items.map(item => item.id);
+              const allSelected = itemIds.length > 0 && itemIds.every(id => selectedIds.includes(id));
+              return (
+                <div key={cat.id}>
+                  <label className="flex items-center gap-2 text-sm font-bold text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={allSelected} onChange={() => toggleItems(itemIds, !allSelected)} className="accent-brand-600" />
+                    {cat.title}
+                  </label>
+                  <div className="ml-5 mt-1 space-y-0.5">
+                    {cat.items.map(item => (
+                      <label key={item.id} className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+                        <input type="checkbox" checked={selectedIds.includes(item.id)} onChange={(e) => toggleItems([item.id], e.target.checked)} className="accent-brand-600" />
+                        <span className="truncate">{item.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* How to change them */}
+          <div className="flex-1 flex flex-col min-h-0">
+            <div className="p-4 border-b border-slate-100 flex flex-wrap items-center gap-2 text-sm">
+              <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+                {(['percent', 'fixed'] as PriceAdjustment['kind'][]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setKind(option)}
+                    className={`px-3 py-2 font-bold text-xs ${kind === option ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+                  >
+                    {option === 'percent' ? '%' : menu.currency}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={valueText}
+                onChange={(e) => setValueText(e.target.value)}
+                placeholder={kind === 'percent' ? t.percentPlaceholder : t.amountPlaceholder}
+                className="w-32 p-2 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-brand-500"
+              />
+              <select value={rounding} onChange={(e) => setRounding(e.target.value as PriceRounding)} className="p-2 border border-slate-200 rounded-lg bg-white">
+                {PRICE_ROUNDINGS.map(option => <option key={option} value={option}>{roundingLabel(option)}</option>)}
+              </select>
+              <p className="w-full text-[11px] text-slate-400">{t.bulkPriceHint}</p>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {changes.length === 0 ? (
+                <p className="text-center text-slate-400 text-sm py-12">{t.bulkPriceEmpty}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-slate-50">
+                    {changes.map(({ item, categoryTitle, before, after }) => (
+                      <tr key={item.id}>
+                        <td className="px-4 py-2">
+                          <p className="font-medium text-slate-700">{item.name}</p>
+                          <p className="text-[11px] text-slate-400">{categoryTitle}</p>
+                        </td>
+                        <td className="px-2 py-2 text-right text-slate-400 whitespace-nowrap">{formatPrice(before, menu.currency, language)}</td>
+                        <td className="px-1 text-slate-300"><ArrowRight size={12} /></td>
+                        <td className={`px-4 py-2 text-right font-bold whitespace-nowrap ${after.amount > before.amount ? 'text-red-600' : after.amount < before.amount ? 'text-green-600' : 'text-slate-700'}`}>
+                          {formatPrice(after, menu.currency, language)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end">
+          <button
+            onClick={() => adjustment && onApply(selectedIds, adjustment)}
+            disabled={!adjustment || changedCount === 0}
+            className="px-5 py-2.5 rounded-xl text-sm font-bold text-white bg-slate-900 hover:bg-slate-800 disabled:opacity-40"
+          >
+            {t.updatePrices} ({changedCount})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkPriceDialog;
@@ -1,34 +1,114 @@
 import React, { useState, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { generateMenuFromAI, generateSlug } from '../services/geminiService';
+import { useNavigate, Link } from 'react-router-dom';
+import { extractMenuPage, generateMenuFromAI, generateSlug } from '../services/geminiService';
 import { saveMenu, isSlugAvailable } from '../services/storageService';
-import { RestaurantMenu, Language } from '../types';
-import { Sparkles, ListPlus, Globe, Camera, X, Store, ArrowRight, ChefHat } from 'lucide-react';
-import { translations } from '../utils/translations';
+import { getCurrentOwnerId } from '../services/authService';
+import { RestaurantMenu, Language, CurrencyCode } from '../types';
+import { Sparkles, ListPlus, Globe, Camera, X, Store, ArrowRight, ChefHat, LayoutDashboard, Plus, Loader2, FileUp } from 'lucide-react';
+import { getNextUILanguage, getTranslations } from '../utils/translations';
+import AccountMenu from './AccountMenu';
+import { getDeviceTimezone } from '../utils/availability';
+import { getDefaultCurrency } from '../utils/price';
+import { MenuPage, ReviewCategory, cropPage, fromReviewCategories, loadMenuPages, mergeReviewCategories } from '../utils/menuImport';
+import { createTheme } from '../utils/theme';
+import ImportReview from './ImportReview';
+import MenuDataDialog from './MenuDataDialog';
+import { ImportResult } from '../utils/menuTransfer';
+
+// Extracted content waiting for the owner's review
+interface ImportState {
+  slug: string;
+  categories: ReviewCategory[];
+  failedPageIds: string[];
+  currency: CurrencyCode;
+  primaryColor?: string;
+}
 
 const Creator: React.FC = () => {
   const navigate = useNavigate();
   const [establishmentName, setEstablishmentName] = useState('');
   const [businessType, setBusinessType] = useState('');
   const [extraInfo, setExtraInfo] = useState('');
-  const [menuImage, setMenuImage] = useState<string | null>(null);
+  const [pages, setPages] = useState<MenuPage[]>([]);
+  const [isLoadingPages, setIsLoadingPages] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null); // Pages read so far
+  const [review, setReview] = useState<ImportState | null>(null);
+  const [showFileImport, setShowFileImport] = useState(false);
   const [language, setLanguage] = useState<Language>('pt');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const t = translations[language];
+  const t = getTranslations(language);
+
+  // Photos and PDFs become page images right away so they can be previewed and cropped later
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = "";
+    if (files.length === 0) return;
+    setIsLoadingPages(true);
+    try {
+      const loaded = await loadMenuPages(files);
+      setPages(prev => [...prev, ...loaded]);
+    } catch (err) {
+      console.error(err);
+      alert(t.pagesLoadFailed);
+    } finally {
+      setIsLoadingPages(false);
+    }
+  };
+
+  // Each page is read on its own, then categories continuing across pages are merged
+  const extractPages = async (slug: string) => {
+    const results: ReviewCategory[][] = [];
+    const failedPageIds: string[] = [];
+    let currency: CurrencyCode | undefined;
+    let primaryColor: string | undefined;
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        if (ev.target?.result) {
-          setMenuImage(ev.target.result as string);
+    setProgress({ done: 0, total: pages.length });
+    for (const page of pages) {
+      try {
+        const extracted = await extractMenuPage(page, { establishmentName, businessType, language, currency });
+        currency = currency || extracted.currency;
+        primaryColor = primaryColor || extracted.primaryColor;
+        for (const category of extracted.categories) {
+          for (const entry of category.items) {
+            if (entry.box) entry.crop = await cropPage(page, entry.box);
+          }
         }
-      };
-      reader.readAsDataURL(file);
+        results.push(extracted.categories);
+      } catch (err) {
+        console.error(err);
+        failedPageIds.push(page.id);
+      }
+      setProgress(prev => prev && { ...prev, done: prev.done + 1 });
     }
+    setProgress(null);
+
+    setReview({
+      slug,
+      categories: mergeReviewCategories(results),
+      failedPageIds,
+      currency: currency || getDefaultCurrency(language),
+      primaryColor
+    });
+  };
+
+  const createMenu = async (slug: string, content: Omit<RestaurantMenu, 'id' | 'createdAt' | 'slug'>) => {
+    const ownerId = await getCurrentOwnerId();
+    const newMenu: RestaurantMenu = {
+      id: crypto.randomUUID(), 
+      slug: slug,
+      ownerId,
+      createdAt: Date.now(),
+      whatsapp: '',
+      language: language,
+      timezone: getDeviceTimezone(),
+      published: null, // Not public until the owner publishes from the editor
+      ...content
+    };
+
+    await saveMenu(newMenu);
+    navigate(`/editor/${newMenu.id}`);
   };
 
   const handleCreate = async () => {
@@ -43,24 +123,15 @@ const Creator: React.FC = () => {
           slug = `${slug}-${Math.floor(Math.random() * 1000)}`;
       }
 
-      // 2. Generate Content via AI
-      const aiData = await generateMenuFromAI(establishmentName, businessType, extraInfo, language, menuImage || undefined);
-
-      // 3. Create Object
-      const newMenu: RestaurantMenu = {
-        id: crypto.randomUUID(), 
-        slug: slug,
-        createdAt: Date.now(),
-        whatsapp: '',
-        language: language,
-        ...aiData
-      };
-
-      // 4. Save to DB
-      await saveMenu(newMenu);
-      
-      // 5. Redirect
-      navigate(`/editor/${newMenu.id}`);
+      // 2. Scanned menus go through the review step before anything is saved
+      if (pages.length > 0) {
+        await extractPages(slug);
+        return;
+      }
+
+      // 3. Generate Content via AI, then save and open the editor
+      const aiData = await generateMenuFromAI(establishmentName, businessType, extraInfo, language);
+      await createMenu(slug, aiData);
     } catch (e) {
       console.error(e);
       alert("Something went wrong creating your menu. Please try again.");
@@ -69,8 +140,51 @@ const Creator: React.FC = () => {
     }
   };
 
+  const handleConfirmImport = async () => {
+    if (!review) return;
+    setIsGenerating(true);
+    try {
+      await createMenu(review.slug, {
+        name: establishmentName,
+        businessType,
+        theme: createTheme(review.primaryColor),
+        currency: review.currency,
+        categories: fromReviewCategories(review.categories)
+      });
+    } catch (e) {
+      console.error(e);
+      alert("Something went wrong creating your menu. Please try again.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // Backups bring the whole menu; spreadsheets only bring items, so the form fills in the rest
+  const handleFileImport = async (result: ImportResult) => {
+    const name = result.backup?.name || establishmentName.trim() || t.untitledMenu;
+    try {
+      let slug = await generateSlug(name);
+      if (!(await isSlugAvailable(slug))) slug = `${slug}-${Math.floor(Math.random() * 1000)}`;
+      if (result.backup) {
+        const { createdAt, ...content } = result.backup;
+        await createMenu(slug, content);
+      } else {
+        await createMenu(slug, {
+          name,
+          ...(businessType.trim() && { businessType: businessType.trim() }),
+          theme: createTheme(),
+          currency: getDefaultCurrency(language),
+          categories: result.categories
+        });
+      }
+    } catch (e) {
+      console.error(e);
+      alert(t.importFailed);
+    }
+  };
+
   const toggleLanguage = () => {
-    setLanguage(prev => prev === 'en' ? 'pt' : 'en');
+    setLanguage(prev => getNextUILanguage(prev));
   };
 
   return (
@@ -80,137 +194,184 @@ const Creator: React.FC = () => {
         <div className="flex items-center gap-2 text-slate-900 font-black text-xl tracking-tight">
            <div className="bg-brand-600 text-white p-1.5 rounded-lg"><ChefHat size={20} /></div> FlashMenu
         </div>
-        <button 
-          onClick={toggleLanguage}
-          className="flex items-center gap-2 bg-white px-3 py-1.5 rounded-full shadow-sm text-sm font-bold text-slate-600 border border-slate-200 hover:bg-slate-100 transition-colors"
-        >
-          <Globe size={14} /> {language === 'en' ? 'EN' : 'PT'}
-        </button>
+        <div className="flex items-center gap-2">
+          <Link to="/dashboard" className="flex items-center gap-1 text-sm font-bold text-slate-600 hover:text-slate-900 px-2">
+            <LayoutDashboard size={14} /> <span className="hidden sm:inline">{t.myMenus}</span>
+          </Link>
+          <AccountMenu language={language} />
+          <button 
+            onClick={toggleLanguage}
+            className="flex items-center gap-2 bg-white px-3 py-1.5 rounded-full shadow-sm text-sm font-bold text-slate-600 border border-slate-200 hover:bg-slate-100 transition-colors"
+          >
+            <Globe size={14} /> {language.toUpperCase()}
+          </button>
+        </div>
       </nav>
 
       {/* Hero Section */}
       <main className="flex-1 flex flex-col items-center justify-center p-6 pb-20">
-        
-        <div className="max-w-2xl w-full text-center space-y-6 mb-10">
-          <div className="inline-flex items-center gap-2 bg-brand-50 text-brand-700 px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wide border border-brand-100 animate-in fade-in slide-in-from-bottom-4 duration-700">
-             <Sparkles size={14} /> AI Powered Menu Creator
-          </div>
-          <h1 className="text-4xl md:text-6xl font-black text-slate-900 tracking-tight leading-[1.1] animate-in fade-in slide-in-from-bottom-5 duration-700 delay-100">
-            {t.createTitle}
-          </h1>
-          <p className="text-lg md:text-xl text-slate-500 leading-relaxed max-w-lg mx-auto animate-in fade-in slide-in-from-bottom-6 duration-700 delay-200">
-            {t.createSubtitle}
-          </p>
-        </div>
+        {review ? (
+          <ImportReview
+            categories={review.categories}
+            pages={pages}
+            failedPageIds={review.failedPageIds}
+            currency={review.currency}
+            language={language}
+            isSaving={isGenerating}
+            onChange={(categories) => setReview({ ...review, categories })}
+            onBack={() => setReview(null)}
+            onConfirm={handleConfirmImport}
+          />
+        ) : (
+          <>
+            <div className="max-w-2xl w-full text-center space-y-6 mb-10">
+              <div className="inline-flex items-center gap-2 bg-brand-50 text-brand-700 px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wide border border-brand-100 animate-in fade-in slide-in-from-bottom-4 duration-700">
+                 <Sparkles size={14} /> AI Powered Menu Creator
+              </div>
+              <h1 className="text-4xl md:text-6xl font-black text-slate-900 tracking-tight leading-[1.1] animate-in fade-in slide-in-from-bottom-5 duration-700 delay-100">
+                {t.createTitle}
+              </h1>
+              <p className="text-lg md:text-xl text-slate-500 leading-relaxed max-w-lg mx-auto animate-in fade-in slide-in-from-bottom-6 duration-700 delay-200">
+                {t.createSubtitle}
+              </p>
+            </div>
 
-        {/* Card Form */}
-        <div className="w-full max-w-lg bg-white p-2 rounded-3xl shadow-2xl shadow-slate-200/50 border border-slate-100 animate-in fade-in zoom-in-95 duration-500 delay-300">
+            {/* Card Form */}
+            <div className="w-full max-w-lg bg-white p-2 rounded-3xl shadow-2xl shadow-slate-200/50 border border-slate-100 animate-in fade-in zoom-in-95 duration-500 delay-300">
           
-          <div className="p-6 space-y-6">
-            {/* Step 1: Name */}
-            <div className="relative group">
-                <label className="text-xs font-bold text-slate-400 uppercase ml-1 mb-1 block">{t.estName}</label>
-                <div className="flex items-center bg-slate-50 rounded-xl border-2 border-transparent focus-within:border-brand-500 focus-within:bg-white transition-all">
-                    <input
-                        type="text"
-                        value={establishmentName}
-                        onChange={(e) => setEstablishmentName(e.target.value)}
-                        placeholder={t.estPlaceholder}
-                        className="w-full p-4 bg-transparent outline-none text-slate-900 font-semibold placeholder:font-normal placeholder:text-slate-400"
-                        disabled={isGenerating}
-                    />
+              <div className="p-6 space-y-6">
+                {/* Step 1: Name */}
+                <div className="relative group">
+                    <label className="text-xs font-bold text-slate-400 uppercase ml-1 mb-1 block">{t.estName}</label>
+                    <div className="flex items-center bg-slate-50 rounded-xl border-2 border-transparent focus-within:border-brand-500 focus-within:bg-white transition-all">
+                        <input
+                            type="text"
+                            value={establishmentName}
+                            onChange={(e) => setEstablishmentName(e.target.value)}
+                            placeholder={t.estPlaceholder}
+                            className="w-full p-4 bg-transparent outline-none text-slate-900 font-semibold placeholder:font-normal placeholder:text-slate-400"
+                            disabled={isGenerating}
+                        />
+                    </div>
                 </div>
-            </div>
 
-            {/* Step 2: Type */}
-            <div className="relative group">
-                <label className="text-xs font-bold text-slate-400 uppercase ml-1 mb-1 block flex items-center gap-1"><Store size={12}/> {language === 'pt' ? 'Tipo' : 'Type'}</label>
-                <div className="flex items-center bg-slate-50 rounded-xl border-2 border-transparent focus-within:border-brand-500 focus-within:bg-white transition-all">
-                    <input
+                {/* Step 2: Type */}
+                <div className="relative group">
+                    <label className="text-xs font-bold text-slate-400 uppercase ml-1 mb-1 block flex items-center gap-1"><Store size={12}/> {t.businessTypeLabel}</label>
+                    <div className="flex items-center bg-slate-50 rounded-xl border-2 border-transparent focus-within:border-brand-500 focus-within:bg-white transition-all">
+                        <input
+                            type="text"
+                            value={businessType}
+                            onChange={(e) => setBusinessType(e.target.value)}
+                            placeholder={t.businessTypePlaceholder}
+                            className="w-full p-4 bg-transparent outline-none text-slate-900 font-semibold placeholder:font-normal placeholder:text-slate-400"
+                            disabled={isGenerating}
+                        />
+                    </div>
+                </div>
+
+                {/* Extra Info (Collapse if empty initially to save space? keeping open for now) */}
+                <div>
+                     <label className="text-xs font-bold text-slate-400 uppercase ml-1 mb-1 block flex items-center gap-1"><ListPlus size={12}/> {t.extraInfo}</label>
+                     <input
                         type="text"
-                        value={businessType}
-                        onChange={(e) => setBusinessType(e.target.value)}
-                        placeholder={language === 'pt' ? 'ex: Hamburgueria, Sushi Bar' : 'e.g. Burger Joint'}
-                        className="w-full p-4 bg-transparent outline-none text-slate-900 font-semibold placeholder:font-normal placeholder:text-slate-400"
+                        value={extraInfo}
+                        onChange={(e) => setExtraInfo(e.target.value)}
+                        placeholder={t.extraPlaceholder}
+                        className="w-full p-3 bg-slate-50 border border-slate-100 rounded-xl outline-none text-slate-700 text-sm focus:border-brand-300 focus:bg-white transition-all"
                         disabled={isGenerating}
+                        onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
                     />
                 </div>
-            </div>
-
-            {/* Extra Info (Collapse if empty initially to save space? keeping open for now) */}
-            <div>
-                 <label className="text-xs font-bold text-slate-400 uppercase ml-1 mb-1 block flex items-center gap-1"><ListPlus size={12}/> {t.extraInfo}</label>
-                 <input
-                    type="text"
-                    value={extraInfo}
-                    onChange={(e) => setExtraInfo(e.target.value)}
-                    placeholder={t.extraPlaceholder}
-                    className="w-full p-3 bg-slate-50 border border-slate-100 rounded-xl outline-none text-slate-700 text-sm focus:border-brand-300 focus:bg-white transition-all"
-                    disabled={isGenerating}
-                    onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
-                />
-            </div>
             
-            {/* Camera / Upload */}
-            <div>
-                 <label className="text-xs font-bold text-slate-400 uppercase ml-1 mb-1 block">{t.scanMenu} <span className="text-[10px] bg-brand-100 text-brand-700 px-1 rounded ml-1">BETA</span></label>
-                {!menuImage ? (
-                    <button 
-                        onClick={() => fileInputRef.current?.click()}
-                        className="w-full flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed border-slate-200 text-slate-400 hover:bg-slate-50 hover:border-brand-400 hover:text-brand-600 transition-all group"
-                    >
-                        <Camera size={20} className="group-hover:scale-110 transition-transform" />
-                        <span className="text-sm font-medium">{t.scanHint}</span>
-                    </button>
-                ) : (
-                    <div className="relative rounded-xl overflow-hidden border border-slate-200 bg-slate-50 flex items-center gap-3 p-2 pr-4">
-                        <img src={menuImage} alt="Preview" className="w-14 h-14 object-cover rounded-lg shadow-sm" />
-                        <div className="flex-1 min-w-0">
-                            <p className="text-sm font-bold text-slate-700 truncate">Menu Photo Uploaded</p>
-                            <p className="text-xs text-slate-400">AI will analyze this</p>
-                        </div>
+                {/* Camera / Upload */}
+                <div>
+                     <label className="text-xs font-bold text-slate-400 uppercase ml-1 mb-1 block">{t.scanMenu} <span className="text-[10px] bg-brand-100 text-brand-700 px-1 rounded ml-1">BETA</span></label>
+                    {pages.length === 0 ? (
                         <button 
-                            onClick={() => {
-                                setMenuImage(null);
-                                if (fileInputRef.current) fileInputRef.current.value = "";
-                            }}
-                            className="p-2 hover:bg-red-50 rounded-full text-slate-400 hover:text-red-500 transition-colors"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={isLoadingPages || isGenerating}
+                            className="w-full flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed border-slate-200 text-slate-400 hover:bg-slate-50 hover:border-brand-400 hover:text-brand-600 transition-all group"
                         >
-                            <X size={18} />
+                            {isLoadingPages ? <Loader2 size={20} className="animate-spin" /> : <Camera size={20} className="group-hover:scale-110 transition-transform" />}
+                            <span className="text-sm font-medium">{isLoadingPages ? t.loadingPages : t.scanHint}</span>
                         </button>
-                    </div>
-                )}
-                <input type="file" ref={fileInputRef} className="hidden" accept="image/*" capture="environment" onChange={handleImageUpload} />
+                    ) : (
+                        <div className="rounded-xl border border-slate-200 bg-slate-50 p-2">
+                            <div className="flex gap-2 overflow-x-auto pb-1">
+                                {pages.map(page => (
+                                    <div key={page.id} className="relative flex-shrink-0 group/page" title={page.label}>
+                                        <img src={page.image} alt={page.label} className="w-14 h-20 object-cover rounded-lg shadow-sm bg-white" />
+                                        <button 
+                                            onClick={() => setPages(prev => prev.filter(p => p.id !== page.id))}
+                                            disabled={isGenerating}
+                                            className="absolute -top-1 -right-1 bg-white rounded-full p-0.5 shadow text-slate-400 hover:text-red-500 opacity-0 group-hover/page:opacity-100 transition-opacity"
+                                        >
+                                            <X size={12} />
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={() => fileInputRef.current?.click()}
+                                    disabled={isLoadingPages || isGenerating}
+                                    className="w-14 h-20 flex-shrink-0 rounded-lg border-2 border-dashed border-slate-200 text-slate-400 hover:border-brand-400 hover:text-brand-600 flex items-center justify-center"
+                                    title={t.addMorePages}
+                                >
+                                    {isLoadingPages ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />}
+                                </button>
+                            </div>
+                            <p className="text-xs text-slate-400 mt-1 px-1">{pages.length} {t.menuPagesSelected}</p>
+                        </div>
+                    )}
+                    <input type="file" ref={fileInputRef} className="hidden" accept="image/*,application/pdf" multiple onChange={handleFilesSelected} />
+                    <button
+                        onClick={() => setShowFileImport(true)}
+                        disabled={isGenerating}
+                        className="mt-2 ml-1 text-xs font-bold text-slate-400 hover:text-brand-600 flex items-center gap-1"
+                    >
+                        <FileUp size={12} /> {t.importFromFile}
+                    </button>
+                </div>
+              </div>
+
+              <div className="p-2 bg-slate-50 rounded-b-3xl border-t border-slate-100">
+                <button
+                    onClick={handleCreate}
+                    disabled={!establishmentName.trim() || !businessType.trim() || isGenerating}
+                    className={`
+                        w-full py-4 rounded-2xl font-bold text-lg text-white shadow-xl 
+                        flex items-center justify-center gap-3 transition-all duration-300
+                        ${!establishmentName.trim() || !businessType.trim() || isGenerating 
+                        ? 'bg-slate-300 cursor-not-allowed shadow-none grayscale' 
+                        : 'bg-slate-900 hover:bg-slate-800 hover:shadow-2xl hover:-translate-y-1'}
+                    `}
+                >
+                    {isGenerating ? (
+                        <>
+                        <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                        <span className="animate-pulse">{progress ? `${t.readingPages} ${Math.min(progress.done + 1, progress.total)}/${progress.total}` : t.building}</span>
+                        </>
+                    ) : (
+                        <>
+                        {t.createBtn} <ArrowRight size={20} />
+                        </>
+                    )}
+                </button>
+              </div>
             </div>
-          </div>
-
-          <div className="p-2 bg-slate-50 rounded-b-3xl border-t border-slate-100">
-            <button
-                onClick={handleCreate}
-                disabled={!establishmentName.trim() || !businessType.trim() || isGenerating}
-                className={`
-                    w-full py-4 rounded-2xl font-bold text-lg text-white shadow-xl 
-                    flex items-center justify-center gap-3 transition-all duration-300
-                    ${!establishmentName.trim() || !businessType.trim() || isGenerating 
-                    ? 'bg-slate-300 cursor-not-allowed shadow-none grayscale' 
-                    : 'bg-slate-900 hover:bg-slate-800 hover:shadow-2xl hover:-translate-y-1'}
-                `}
-            >
-                {isGenerating ? (
-                    <>
-                    <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    <span className="animate-pulse">{t.building}</span>
-                    </>
-                ) : (
-                    <>
-                    {t.createBtn} <ArrowRight size={20} />
-                    </>
-                )}
-            </button>
-          </div>
-        </div>
+          </>
+        )}
       </main>
       
+      {showFileImport && (
+        <MenuDataDialog
+          currency={getDefaultCurrency(language)}
+          language={language}
+          onImport={handleFileImport}
+          onClose={() => setShowFileImport(false)}
+        />
+      )}
+
       <footer className="py-6 text-center text-slate-400 text-xs">
         &copy; {new Date().getFullYear()} {t.footer}
       </footer>
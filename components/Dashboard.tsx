@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { RestaurantMenu, Language } from '../types';
+import { ChefHat, Globe, Plus, Edit, QrCode, ExternalLink, Copy, Trash2, Loader2, UtensilsCrossed, BarChart3 } from 'lucide-react';
+import { getNextUILanguage, getTranslations } from '../utils/translations';
+import { getLocale } from '../utils/price';
+import { hasUnpublishedChanges } from '../utils/publishing';
+import { getThemePalette } from '../utils/theme';
+import { listMenus, deleteMenu, duplicateMenu, MenuPermissionError } from '../services/storageService';
+import AccountMenu from './AccountMenu';
+
+const Dashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const [language, setLanguage] = useState<Language>('pt');
+  const [menus, setMenus] = useState<RestaurantMenu[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const t = getTranslations(language);
+
+  const loadMenus = () => {
+    listMenus()
+      .then(setMenus)
+      .catch((e) => {
+        console.error(e);
+        setMenus([]);
+      });
+  };
+
+  useEffect(loadMenus, []);
+
+  const toggleLanguage = () => {
+    setLanguage(prev => getNextUILanguage(prev));
+  };
+
+  const formatUpdatedAt = (menu: RestaurantMenu) =>
+    new Date(menu.updatedAt || menu.createdAt).toLocaleString(getLocale(language), { dateStyle: 'medium', timeStyle: 'short' });
+
+  const countItems = (menu: RestaurantMenu) =>
+    menu.categories.reduce((sum, cat) => sum + cat.items.length, 0);
+
+  const handleDuplicate = async (menu: RestaurantMenu) => {
+    setBusyId(menu.id);
+    try {
+      await duplicateMenu(menu);
+      loadMenus();
+    } catch (e) {
+      console.error(e);
+      alert(t.duplicateFailed);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (menu: RestaurantMenu) => {
+    if (!window.confirm(`${t.confirmDeleteMenu} "${menu.name}"?`)) return;
+    setBusyId(menu.id);
+    try {
+      await deleteMenu(menu);
+      setMenus(prev => (prev || []).filter(m => m.id !== menu.id));
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof MenuPermissionError ? t.noEditAccessHint : t.deleteFailed);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col font-sans">
+      {/* Navbar */}
+      <nav className="flex justify-between items-center py-6 px-6 max-w-5xl mx-auto w-full">
+        <Link to="/" className="flex items-center gap-2 text-slate-900 font-black text-xl tracking-tight">
+           <div className="bg-brand-600 text-white p-1.5 rounded-lg"><ChefHat size={20} /></div> FlashMenu
+        </Link>
+        <div className="flex items-center gap-2">
+          <AccountMenu language={language} />
+          <button
+            onClick={toggleLanguage}
+            className="flex items-center gap-2 bg-white px-3 py-1.5 rounded-full shadow-sm text-sm font-bold text-slate-600 border border-slate-200 hover:bg-slate-100 transition-colors"
+          >
+            <Globe size={14} /> {language.toUpperCase()}
+          </button>
+        </div>
+      </nav>
+
+      <main className="flex-1 max-w-5xl mx-auto w-full px-6 pb-20">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl md:text-3xl font-black text-slate-900 tracking-tight">{t.myMenus}</h1>
+          <button
+            onClick={() => navigate('/')}
+            className="bg-brand-600 hover:bg-brand-700 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 shadow-sm"
+          >
+            <Plus size={16} /> {t.newMenu}
+          </button>
+        </div>
+
+        {menus === null ? (
+          <div className="flex justify-center py-20 text-slate-400"><Loader2 className="animate-spin" size={28} /></div>
+        ) : menus.length === 0 ? (
+          <div className="bg-white border border-dashed border-slate-300 rounded-2xl p-12 text-center space-y-3">
+            <UtensilsCrossed size={32} className="mx-auto text-slate-300" />
+            <p className="text-slate-500">{t.noMenusYet}</p>
+            <button onClick={() => navigate('/')} className="text-brand-600 font-bold text-sm hover:underline">{t.newMenu}</button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {menus.map(menu => {
+              const publicPath = menu.slug ? `/m/${menu.slug}` : `/menu/${menu.id}`;
+              const isBusy = busyId === menu.id;
+              return (
+                <div key={menu.id} className={`bg-white rounded-2xl border border-slate-200 shadow-sm p-5 flex flex-col gap-4 ${isBusy ? 'opacity-60 pointer-events-none' : ''}`}>
+                  <div className="flex items-start gap-3">
+                    {menu.logo ? (
+                      <img src={menu.logo} alt="" className="w-12 h-12 rounded-lg object-cover border border-slate-100" />
+                    ) : (
+                      <div className="w-12 h-12 rounded-lg flex items-center justify-center text-white font-black text-lg" style={{ backgroundColor: getThemePalette(menu.theme, false).headerFrom }}>
+                        {menu.name.charAt(0).toUpperCase()}
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h2 className="font-bold text-slate-900 truncate">{menu.name}</h2>
+                        {hasUnpublishedChanges(menu) && (
+                          <span className="flex-shrink-0 bg-amber-50 text-amber-700 border border-amber-200 px-2 py-0.5 rounded-full text-[10px] font-bold">
+                            {menu.published ? t.unpublishedChanges : t.notPublishedYet}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-400 font-mono truncate">/{menu.slug || menu.id}</p>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+                    <span>{menu.categories.length} {t.categoriesCount}</span>
+                    <span>{countItems(menu)} {t.itemsCount}</span>
+                    <span>{t.lastUpdated}: {formatUpdatedAt(menu)}</span>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 border-t border-slate-100 pt-4">
+                    <Link to={`/editor/${menu.id}`} className="flex items-center gap-1 bg-slate-900 text-white px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-slate-800">
+                      <Edit size={12} /> {t.editMenu}
+                    </Link>
+                    <Link to={`/success/${menu.id}`} className="flex items-center gap-1 border border-slate-200 text-slate-600 px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-slate-50">
+                      <QrCode size={12} /> {t.qrCode}
+                    </Link>
+                    <Link to={publicPath} className="flex items-center gap-1 border border-slate-200 text-slate-600 px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-slate-50">
+                      <ExternalLink size={12} /> {t.openPublicMenu}
+                    </Link>
+                    <Link to={`/analytics/${menu.id}`} className="flex items-center gap-1 border border-slate-200 text-slate-600 px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-slate-50">
+                      <BarChart3 size={12} /> {t.analytics}
+                    </Link>
+                    <div className="flex-1" />
+                    <button onClick={() => handleDuplicate(menu)} title={t.duplicateMenu} className="text-slate-400 hover:text-slate-700 p-1.5 rounded-lg hover:bg-slate-100">
+                      {isBusy ? <Loader2 size={14} className="animate-spin" /> : <Copy size={14} />}
+                    </button>
+                    <button onClick={() => handleDelete(menu)} title={t.deleteMenu} className="text-slate-400 hover:text-red-500 p-1.5 rounded-lg hover:bg-red-50">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Dashboard;
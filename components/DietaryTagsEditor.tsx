@@ -0,0 +1,60 @@
+import React from 'react';
+import { Allergen, DietaryTag, Language, MenuItem } from '../types';
+import { getTranslations } from '../utils/translations';
+import { ALLERGENS, ALLERGEN_IDS, DIETARY_TAGS, DIETARY_TAG_IDS, SPICE_LEVELS, spiceIcons } from '../utils/dietary';
+
+interface DietaryTagsEditorProps {
+  item: MenuItem;
+  language?: Language;
+  onChange: <K extends 'dietary' | 'allergens' | 'spiceLevel'>(field: K, value: MenuItem[K]) => void;
+}
+
+const DietaryTagsEditor: React.FC<DietaryTagsEditorProps> = ({ item, language, onChange }) => {
+  const t = getTranslations(language);
+  const dietary = item.dietary || [];
+  const allergens = item.allergens || [];
+
+  const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const chipClass = (active: boolean) =>
+    `px-2 py-1 rounded-full text-[11px] font-medium border transition-colors ${active ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`;
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 space-y-3">
+      <div>
+        <p className="text-[10px] font-bold uppercase text-slate-400 mb-1.5">{t.dietaryLabel}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {DIETARY_TAG_IDS.map((tag: DietaryTag) => (
+            <button key={tag} onClick={() => onChange('dietary', toggle(dietary, tag))} className={chipClass(dietary.includes(tag))}>
+              {DIETARY_TAGS[tag].icon} {t[DIETARY_TAGS[tag].labelKey]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[10px] font-bold uppercase text-slate-400 mb-1.5">{t.spiceLevelLabel}</p>
+        <div className="flex gap-1.5">
+          {SPICE_LEVELS.map(level => (
+            <button key={level} onClick={() => onChange('spiceLevel', level)} className={chipClass((item.spiceLevel || 0) === level)}>
+              {level === 0 ? t.notSpicy : spiceIcons(level)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[10px] font-bold uppercase text-slate-400 mb-1.5">{t.containsAllergens}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {ALLERGEN_IDS.map((allergen: Allergen) => (
+            <button key={allergen} onClick={() => onChange('allergens', toggle(allergens, allergen))} className={chipClass(allergens.includes(allergen))}>
+              {ALLERGENS[allergen].icon} {t[ALLERGENS[allergen].labelKey]}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DietaryTagsEditor;
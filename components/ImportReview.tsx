@@ -0,0 +1,135 @@
+import React from 'react';
+import { CurrencyCode, Language, MenuItem } from '../types';
+import { AlertTriangle, ArrowLeft, ArrowRight, FileWarning, Trash2 } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { MenuPage, ReviewCategory, countLowConfidence } from '../utils/menuImport';
+import PriceInput from './PriceInput';
+
+interface ImportReviewProps {
+  categories: ReviewCategory[];
+  pages: MenuPage[];
+  failedPageIds: string[];
+  currency: CurrencyCode;
+  language?: Language;
+  isSaving: boolean;
+  onChange: (categories: ReviewCategory[]) => void;
+  onBack: () => void;
+  onConfirm: () => void;
+}
+
+// Lets the owner check every extracted item against its spot on the original menu before anything is saved
+const ImportReview: React.FC<ImportReviewProps> = ({ categories, pages, failedPageIds, currency, language, isSaving, onChange, onBack, onConfirm }) => {
+  const t = getTranslations(language);
+  const itemCount = categories.reduce((sum, cat) => sum + cat.items.length, 0);
+  const lowConfidenceCount = countLowConfidence(categories);
+  const failedPages = pages.filter(page => failedPageIds.includes(page.id));
+
+  const updateCategory = (catId: string, update: (cat: ReviewCategory) => ReviewCategory) => {
+    onChange(categories.map(cat => cat.id === catId ? update(cat) : cat));
+  };
+
+  // Editing the price counts as checking it
+  const updateItem = <K extends keyof MenuItem>(catId: string, itemId: string, field: K, value: MenuItem[K]) => {
+    updateCategory(catId, cat => ({
+      ...cat,
+      items: cat.items.map(entry => entry.item.id === itemId
+        ? { ...entry, item: { ...entry.item, [field]: value }, lowConfidence: field === 'price' ? false : entry.lowConfidence }
+        : entry)
+    }));
+  };
+
+  const removeItem = (catId: string, itemId: string) => {
+    updateCategory(catId, cat => ({ ...cat, items: cat.items.filter(entry => entry.item.id !== itemId) }));
+  };
+
+  const pageLabel = (pageId: string) => pages.find(page => page.id === pageId)?.label || '';
+
+  return (
+    <div className="w-full max-w-3xl space-y-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-2xl border border-slate-200 p-5 flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex-1">
+          <h2 className="font-black text-xl text-slate-900">{t.reviewImport}</h2>
+          <p className="text-sm text-slate-500">{t.reviewImportHint}</p>
+          <p className="text-xs font-bold text-slate-400 mt-1">
+            {itemCount} {t.itemsFound} · {pages.length} {t.pagesLabel}
+            {lowConfidenceCount > 0 && <span className="text-amber-600"> · {lowConfidenceCount} {t.pricesToCheck}</span>}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onBack} disabled={isSaving} className="px-4 py-2.5 rounded-xl text-sm font-bold text-slate-600 border border-slate-200 hover:bg-slate-50 flex items-center gap-1 disabled:opacity-50">
+            <ArrowLeft size={16} /> {t.backToForm}
+          </button>
+          <button onClick={onConfirm} disabled={isSaving || itemCount === 0} className="px-4 py-2.5 rounded-xl text-sm font-bold text-white bg-slate-900 hover:bg-slate-800 flex items-center gap-1 disabled:opacity-50">
+            {isSaving ? t.building : <>{t.confirmImport} <ArrowRight size={16} /></>}
+          </button>
+        </div>
+      </div>
+
+      {failedPages.length > 0 && (
+        <div className="bg-red-50 border border-red-100 text-red-700 rounded-xl p-3 text-xs space-y-1">
+          {failedPages.map(page => (
+            <p key={page.id} className="flex items-center gap-2"><FileWarning size={14} /> {t.pageReadFailed}: {page.label}</p>
+          ))}
+        </div>
+      )}
+
+      {itemCount === 0 && <p className="text-center text-sm text-slate-400 py-10">{t.noItemsExtracted}</p>}
+
+      {categories.filter(cat => cat.items.length > 0).map(cat => (
+        <section key={cat.id} className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+          <div className="px-4 py-3 bg-slate-50 border-b border-slate-100">
+            <input
+              value={cat.title}
+              onChange={(e) => updateCategory(cat.id, c => ({ ...c, title: e.target.value }))}
+              className="font-bold text-slate-800 bg-transparent outline-none w-full focus:border-b-2 focus:border-brand-500"
+            />
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {cat.items.map(entry => (
+              <li key={entry.item.id} className={`p-3 flex flex-col sm:flex-row gap-3 ${entry.lowConfidence ? 'bg-amber-50/50' : ''}`}>
+                <div className="sm:w-48 flex-shrink-0">
+                  {entry.crop ? (
+                    <img src={entry.crop} alt="" className="w-full max-h-24 object-contain rounded border border-slate-200 bg-white" />
+                  ) : (
+                    <div className="w-full h-16 rounded border border-dashed border-slate-200 bg-slate-50" />
+                  )}
+                  <p className="text-[10px] text-slate-400 mt-1 truncate">{pageLabel(entry.pageId)}</p>
+                </div>
+                <div className="flex-1 space-y-1.5 min-w-0">
+                  <div className="flex gap-2">
+                    <input
+                      value={entry.item.name}
+                      onChange={(e) => updateItem(cat.id, entry.item.id, 'name', e.target.value)}
+                      className="font-medium text-slate-800 w-full bg-transparent border-b border-transparent focus:border-brand-500 outline-none"
+                    />
+                    <PriceInput
+                      price={entry.item.price}
+                      currency={currency}
+                      language={language}
+                      onChange={(price) => updateItem(cat.id, entry.item.id, 'price', price)}
+                      className={`font-bold text-sm w-24 text-right bg-transparent border-b outline-none focus:border-brand-500 ${entry.lowConfidence ? 'text-amber-700 border-amber-300' : 'text-slate-600 border-transparent'}`}
+                    />
+                  </div>
+                  <input
+                    value={entry.item.description}
+                    onChange={(e) => updateItem(cat.id, entry.item.id, 'description', e.target.value)}
+                    placeholder={t.descPlaceholder}
+                    className="text-xs text-slate-500 w-full bg-transparent border-b border-transparent focus:border-brand-500 outline-none placeholder-slate-300"
+                  />
+                  {entry.lowConfidence && (
+                    <p className="text-[10px] font-bold uppercase text-amber-600 flex items-center gap-1"><AlertTriangle size={10} /> {t.checkPrice}</p>
+                  )}
+                </div>
+                <button onClick={() => removeItem(cat.id, entry.item.id)} className="self-start text-slate-300 hover:text-red-400 p-1 rounded hover:bg-red-50">
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default ImportReview;
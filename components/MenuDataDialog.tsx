@@ -0,0 +1,174 @@
+import React, { useRef, useState } from 'react';
+import { CurrencyCode, Language, RestaurantMenu } from '../types';
+import { ArrowDownUp, X, Download, Upload, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { TranslationKey, getTranslations } from '../utils/translations';
+import {
+  ImportErrorReason, ImportMode, ImportResult,
+  exportMenuCsv, exportMenuJson, exportMenuXlsx, parseMenuFile
+} from '../utils/menuTransfer';
+
+interface MenuDataDialogProps {
+  menu?: RestaurantMenu; // Missing when importing into a brand new menu
+  currency: CurrencyCode; // Spreadsheet prices are read in this currency
+  language?: Language;
+  onImport: (result: ImportResult, mode: ImportMode) => Promise<void>;
+  onClose: () => void;
+}
+
+const ERROR_LABELS: Record<ImportErrorReason, TranslationKey> = {
+  invalidFile: 'importErrorInvalidFile',
+  unsupportedVersion: 'importErrorUnsupportedVersion',
+  missingColumns: 'importErrorMissingColumns',
+  missingCategory: 'importErrorMissingCategory',
+  missingName: 'importErrorMissingName',
+  invalidPrice: 'importErrorInvalidPrice',
+  unknownDietary: 'importErrorUnknownDietary',
+  unknownAllergen: 'importErrorUnknownAllergen',
+  invalidSpiceLevel: 'importErrorInvalidSpiceLevel',
+};
+
+const MenuDataDialog: React.FC<MenuDataDialogProps> = ({ menu, currency, language, onImport, onClose }) => {
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [busy, setBusy] = useState<'export' | 'parse' | 'import' | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const t = getTranslations(language);
+
+  const itemsReady = result ? result.categories.reduce((sum, cat) => sum + cat.items.length, 0) : 0;
+  const currencyMismatch = !!menu && !!result?.backup && result.backup.currency !== currency;
+
+  const runExport = async (exporter: (menu: RestaurantMenu) => void | Promise<void>) => {
+    if (!menu) return;
+    setBusy('export');
+    try {
+      await exporter(menu);
+    } catch (e) {
+      console.error(e);
+      alert(t.exportFailed);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] as File | undefined;
+    e.target.value = '';
+    if (!file) return;
+    setBusy('parse');
+    try {
+      setFileName(file.name);
+      setResult(await parseMenuFile(file, currency));
+    } catch (err) {
+      console.error(err);
+      setResult({ categories: [], errors: [{ reason: 'invalidFile' }], rowCount: 0 });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!result) return;
+    setBusy('import');
+    try {
+      await onImport(result, mode);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2"><ArrowDownUp size={18} /> {menu ? t.importExport : t.importFromFile}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 p-1 rounded hover:bg-slate-200"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {menu && (
+            <section className="space-y-2">
+              <h4 className="text-[11px] font-bold uppercase text-slate-400">{t.exportLabel}</h4>
+              <div className="grid grid-cols-3 gap-2">
+                {([['JSON', exportMenuJson], ['CSV', exportMenuCsv], ['XLSX', exportMenuXlsx]] as const).map(([label, exporter]) => (
+                  <button
+                    key={label}
+                    onClick={() => runExport(exporter)}
+                    disabled={busy !== null}
+                    className="py-2.5 rounded-xl border border-slate-200 text-sm font-bold text-slate-700 hover:bg-slate-50 flex items-center justify-center gap-1.5 disabled:opacity-50"
+                  >
+                    {busy === 'export' ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} {label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-slate-400">{t.exportHint}</p>
+            </section>
+          )}
+
+          <section className="space-y-3">
+            <h4 className="text-[11px] font-bold uppercase text-slate-400">{t.importLabel}</h4>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy !== null}
+              className="w-full flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed border-slate-200 text-slate-400 hover:bg-slate-50 hover:border-brand-400 hover:text-brand-600 transition-all text-sm font-medium disabled:opacity-50"
+            >
+              {busy === 'parse' ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+              {fileName || t.chooseImportFile}
+            </button>
+            <input type="file" ref={fileInputRef} className="hidden" accept=".json,.csv,.xlsx,.xls" onChange={handleFile} />
+            <p className="text-[11px] text-slate-400">{t.importHint}</p>
+
+            {result && (
+              <div className="space-y-3">
+                <p className={`text-sm font-bold flex items-center gap-2 ${itemsReady > 0 ? 'text-green-700' : 'text-slate-500'}`}>
+                  <CheckCircle2 size={16} /> {itemsReady} {t.itemsReadyToImport}
+                  {result.rowCount > itemsReady && <span className="text-amber-600 font-medium">· {result.rowCount - itemsReady} {t.rowsSkipped}</span>}
+                </p>
+
+                {(result.errors.length > 0 || currencyMismatch) && (
+                  <ul className="bg-amber-50 border border-amber-100 rounded-xl p-3 space-y-1 text-xs text-amber-800 max-h-40 overflow-y-auto">
+                    {currencyMismatch && (
+                      <li className="flex gap-2"><AlertTriangle size={12} className="flex-shrink-0 mt-0.5" /> {t.importErrorCurrencyMismatch} ({result.backup?.currency} → {currency})</li>
+                    )}
+                    {result.errors.map((error, idx) => (
+                      <li key={idx} className="flex gap-2">
+                        <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+                        <span>
+                          {error.line !== undefined && <strong>{t.lineLabel} {error.line}: </strong>}
+                          {t[ERROR_LABELS[error.reason]]}{error.value && ` "${error.value}"`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {menu && (
+                  <div className="space-y-1.5">
+                    {(['merge', 'replace'] as ImportMode[]).map(option => (
+                      <label key={option} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input type="radio" checked={mode === option} onChange={() => setMode(option)} className="accent-brand-600" />
+                        {option === 'merge' ? t.importMerge : t.importReplace}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </section>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end">
+          <button
+            onClick={handleImport}
+            disabled={!result || itemsReady === 0 || currencyMismatch || busy !== null}
+            className="px-5 py-2.5 rounded-xl text-sm font-bold text-white bg-slate-900 hover:bg-slate-800 flex items-center gap-2 disabled:opacity-40"
+          >
+            {busy === 'import' && <Loader2 size={14} className="animate-spin" />} {t.applyImport}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MenuDataDialog;
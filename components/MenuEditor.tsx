@@ -1,11 +1,36 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { RestaurantMenu, MenuCategory, MenuItem, Language } from '../types';
-import { getMenu, saveMenu } from '../services/storageService';
-import { generateMenuItemImage, generateItemDescription } from '../services/geminiService';
-import { ArrowLeft, Plus, Trash2, Save, GripVertical, Image as ImageIcon, X, Check, Sparkles, Globe, Eye, Edit, Upload, Wand2, Star, Settings, List, ChevronDown, ChevronUp, LayoutGrid, Phone, Store, Link as LinkIcon } from 'lucide-react';
-import { translations } from '../utils/translations';
+import { RestaurantMenu, MenuCategory, MenuItem, Language, CurrencyCode, MenuVersion, MenuTheme, MenuLayout } from '../types';
+import { getMenu, saveMenu, saveMenuVersion, restoreVersion, MenuPermissionError, MenuConflictError, SaveOptions } from '../services/storageService';
+import { canEditMenu, onOwnerChange } from '../services/authService';
+import { generateMenuItemImage, generateItemDescription, translateMenu } from '../services/geminiService';
+import { uploadMenuImage } from '../services/imageStorage';
+import { ArrowLeft, Plus, Trash2, Save, GripVertical, Image as ImageIcon, X, Check, Sparkles, Globe, Eye, Edit, Upload, Wand2, Star, Settings, List, ChevronDown, ChevronUp, LayoutGrid, Phone, Store, Link as LinkIcon, SlidersHorizontal, Lock, History, Rocket, Clock, Ban, Tag, ArrowDownUp, Percent, Undo2, Redo2, CloudOff, CloudUpload, CheckCircle2, Rows3, AlignCenter } from 'lucide-react';
+import { getNextUILanguage, getTranslations } from '../utils/translations';
+import { CURRENCIES, parsePrice } from '../utils/price';
+import { createId } from '../utils/ids';
+import { EditOptions, EditUpdate, useEditHistory } from '../utils/editHistory';
 import MenuViewer from './MenuViewer'; // Import the viewer for Preview
+import PriceInput from './PriceInput';
+import OptionGroupsEditor from './OptionGroupsEditor';
+import AccountMenu from './AccountMenu';
+import VersionHistory from './VersionHistory';
+import MenuDataDialog from './MenuDataDialog';
+import BulkPriceDialog from './BulkPriceDialog';
+import SaveConflictDialog from './SaveConflictDialog';
+import { publishMenu, hasUnpublishedChanges, rebaseDraft } from '../utils/publishing';
+import { mergeMenus } from '../utils/menuMerge';
+import { ImportMode, ImportResult, applyImportedCategories } from '../utils/menuTransfer';
+import { PriceAdjustment, applyPriceAdjustment } from '../utils/bulkPricing';
+import { describeSchedule, getDeviceTimezone, setItemsSoldOut } from '../utils/availability';
+import { COMMON_LOCALES, applyMenuTranslation, getLanguageName, getMenuLocales, getTranslationCoverage, removeMenuLocale } from '../utils/localization';
+import ScheduleEditor from './ScheduleEditor';
+import DietaryTagsEditor from './DietaryTagsEditor';
+import AvailabilityBoard from './AvailabilityBoard';
+import TranslationFields from './TranslationFields';
+import TablesEditor from './TablesEditor';
+import ThemeEditor from './ThemeEditor';
+import { MENU_LAYOUTS, MENU_LAYOUT_IDS, getMenuLayout } from '../utils/menuLayouts';
 import {
   DndContext, 
   closestCenter,
@@ -24,25 +49,35 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 
-const THEME_COLORS = [
-  { value: 'orange', label: 'Orange', bg: 'bg-orange-500' },
-  { value: 'red', label: 'Red', bg: 'bg-red-600' },
-  { value: 'slate', label: 'Slate', bg: 'bg-slate-800' },
-  { value: 'emerald', label: 'Emerald', bg: 'bg-emerald-600' },
-  { value: 'blue', label: 'Blue', bg: 'bg-blue-600' },
-];
+const AUTOSAVE_DELAY = 1500;
+const AUTOSAVE_RETRY_DELAY = 15000;
+// Autosaves skip the version history; the latest one is recorded once editing pauses, at least this often
+// during long sessions, and when the editor closes
+const VERSION_IDLE_DELAY = 60000;
+const VERSION_INTERVAL = 10 * 60000;
+
+const LAYOUT_ICONS: Record<MenuLayout, React.ReactNode> = {
+  list: <List size={14} />,
+  grid: <LayoutGrid size={14} />,
+  compact: <Rows3 size={14} />,
+  centered: <AlignCenter size={14} />,
+};
+
+// Free-text fields: each keystroke updates the menu, so a typing run is undone as one step
+const TYPED_FIELDS: (keyof MenuItem)[] = ['name', 'description', 'price', 'i18n'];
 
 // --- Sortable Item Component ---
 interface SortableItemProps {
   id: string;
   item: MenuItem;
-  catIndex: number;
-  itemIndex: number;
+  currency: CurrencyCode;
+  language?: Language;
+  translationLocales: Language[];
   onDelete: () => void;
-  onUpdate: (field: keyof MenuItem, value: string) => void;
+  onUpdate: <K extends keyof MenuItem>(field: K, value: MenuItem[K]) => void;
 }
 
-const SortableItem: React.FC<SortableItemProps> = ({ id, item, catIndex, itemIndex, onDelete, onUpdate }) => {
+const SortableItem: React.FC<SortableItemProps> = ({ id, item, currency, language, translationLocales, onDelete, onUpdate }) => {
   const {
     attributes,
     listeners,
@@ -51,6 +86,15 @@ const SortableItem: React.FC<SortableItemProps> = ({ id, item, catIndex, itemInd
     transition,
     isDragging
   } = useSortable({ id: id });
+  const [showOptions, setShowOptions] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [showTags, setShowTags] = useState(false);
+  const [showTranslations, setShowTranslations] = useState(false);
+  const t = getTranslations(language);
+  const optionGroups = item.optionGroups || [];
+  const schedule = item.schedule || [];
+  const tagCount = (item.dietary || []).length + (item.allergens || []).length + (item.spiceLevel ? 1 : 0);
+  const translatedCount = translationLocales.filter(locale => item.i18n?.[locale]?.name).length;
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -85,11 +129,12 @@ const SortableItem: React.FC<SortableItemProps> = ({ id, item, catIndex, itemInd
               className="font-medium text-slate-800 w-full bg-transparent border-b border-transparent focus:border-brand-500 outline-none placeholder-slate-300"
               placeholder="Item Name"
             />
-            <input 
-              type="text"
-              value={item.price}
-              onChange={(e) => onUpdate('price', e.target.value)}
-              className="font-bold text-slate-600 text-sm w-20 text-right bg-transparent border-b border-transparent focus:border-brand-500 outline-none placeholder-slate-300"
+            <PriceInput 
+              price={item.price}
+              currency={currency}
+              language={language}
+              onChange={(price) => onUpdate('price', price)}
+              className="font-bold text-slate-600 text-sm w-24 text-right bg-transparent border-b border-transparent focus:border-brand-500 outline-none placeholder-slate-300"
               placeholder="Price"
             />
         </div>
@@ -100,6 +145,61 @@ const SortableItem: React.FC<SortableItemProps> = ({ id, item, catIndex, itemInd
           className="text-xs text-slate-500 w-full bg-transparent border-b border-transparent focus:border-brand-500 outline-none placeholder-slate-300"
           placeholder="Description (optional)"
         />
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowOptions(!showOptions)}
+            className={`text-[10px] font-bold uppercase tracking-wide flex items-center gap-1 px-1.5 py-0.5 rounded transition-colors ${optionGroups.length > 0 ? 'text-brand-600 bg-brand-50' : 'text-slate-400 hover:text-slate-600'}`}
+          >
+            <SlidersHorizontal size={10} /> {t.options}{optionGroups.length > 0 && ` (${optionGroups.length})`}
+          </button>
+          <button
+            onClick={() => setShowSchedule(!showSchedule)}
+            className={`text-[10px] font-bold uppercase tracking-wide flex items-center gap-1 px-1.5 py-0.5 rounded transition-colors ${schedule.length > 0 ? 'text-brand-600 bg-brand-50' : 'text-slate-400 hover:text-slate-600'}`}
+          >
+            <Clock size={10} /> {schedule.length > 0 ? describeSchedule(schedule, language) : t.schedule}
+          </button>
+          <button
+            onClick={() => setShowTags(!showTags)}
+            className={`text-[10px] font-bold uppercase tracking-wide flex items-center gap-1 px-1.5 py-0.5 rounded transition-colors ${tagCount > 0 ? 'text-brand-600 bg-brand-50' : 'text-slate-400 hover:text-slate-600'}`}
+          >
+            <Tag size={10} /> {t.tags}{tagCount > 0 && ` (${tagCount})`}
+          </button>
+          {translationLocales.length > 0 && (
+            <button
+              onClick={() => setShowTranslations(!showTranslations)}
+              className={`text-[10px] font-bold uppercase tracking-wide flex items-center gap-1 px-1.5 py-0.5 rounded transition-colors ${translatedCount === translationLocales.length ? 'text-brand-600 bg-brand-50' : 'text-slate-400 hover:text-slate-600'}`}
+            >
+              <Globe size={10} /> {t.translationsLabel} ({translatedCount}/{translationLocales.length})
+            </button>
+          )}
+          {item.soldOut && <span className="text-[10px] font-bold uppercase text-red-500 bg-red-50 px-1.5 py-0.5 rounded">{t.soldOut}</span>}
+        </div>
+        {showTranslations && translationLocales.length > 0 && (
+          <TranslationFields
+            locales={translationLocales}
+            fields={[
+              { key: 'name', placeholder: item.name, className: 'text-sm font-medium text-slate-800' },
+              { key: 'description', placeholder: item.description || t.descPlaceholder }
+            ]}
+            values={item.i18n}
+            language={language}
+            onChange={(i18n) => onUpdate('i18n', i18n)}
+          />
+        )}
+        {showTags && (
+          <DietaryTagsEditor item={item} language={language} onChange={onUpdate} />
+        )}
+        {showSchedule && (
+          <ScheduleEditor schedule={schedule} language={language} onChange={(next) => onUpdate('schedule', next)} />
+        )}
+        {showOptions && (
+          <OptionGroupsEditor
+            groups={optionGroups}
+            currency={currency}
+            language={language}
+            onChange={(groups) => onUpdate('optionGroups', groups)}
+          />
+        )}
       </div>
       
       <button onClick={onDelete} className="ml-2 mt-1 text-slate-300 hover:text-red-400 p-1 rounded hover:bg-red-50">
@@ -109,26 +209,48 @@ const SortableItem: React.FC<SortableItemProps> = ({ id, item, catIndex, itemInd
   );
 };
 
+// Draft for the "Add Product" form; the price stays as typed until the item is added
+type NewItemState = Partial<Omit<MenuItem, 'price'>> & { price?: string };
+
 // --- Main Editor Component ---
 const MenuEditor: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [menu, setMenu] = useState<RestaurantMenu | null>(null);
+  const { value: menu, set: setMenuState, reset: resetMenu, replace: replaceMenu, undo, redo, canUndo, canRedo } = useEditHistory<RestaurantMenu | null>(null);
+  const [savedMenu, setSavedMenu] = useState<RestaurantMenu | null>(null); // Last copy read from or written to storage
+  const [isPersisting, setIsPersisting] = useState(false);
+  const [saveError, setSaveError] = useState(false);
+  const [conflict, setConflict] = useState<RestaurantMenu | null>(null); // What another editor saved over our base
   const [isSaving, setIsSaving] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [ownerId, setOwnerId] = useState<string | null>(null);
+  const [isAuthReady, setIsAuthReady] = useState(false);
   
   // UI View States
   const [mobileView, setMobileView] = useState<'edit' | 'preview'>('edit'); // Mobile: Edit vs Preview
-  const [editorSection, setEditorSection] = useState<'content' | 'settings'>('content'); // Desktop/Edit: Content vs Settings
-  const [collapsedCategories, setCollapsedCategories] = useState<Record<number, boolean>>({});
+  const [editorSection, setEditorSection] = useState<'content' | 'settings' | 'availability'>('content'); // Desktop/Edit: Content vs Settings vs 86 list
+  const [collapsedCategories, setCollapsedCategories] = useState<Record<string, boolean>>({}); // Key: category id
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDataDialog, setShowDataDialog] = useState(false);
+  const [showBulkPrice, setShowBulkPrice] = useState(false);
+  const [toast, setToast] = useState<{ message: string; after: RestaurantMenu; shownAt: number } | null>(null); // Offers "Undo" until the next edit
+  const [openSchedules, setOpenSchedules] = useState<Record<string, boolean>>({}); // Key: category id
+  const [openTranslations, setOpenTranslations] = useState<Record<string, boolean>>({}); // Key: category id
+  const [translatingLocale, setTranslatingLocale] = useState<string | null>(null);
+  const [uiLanguage, setUiLanguage] = useState<Language | null>(null);
 
-  const fileInputRefs = useRef<Record<number, HTMLInputElement | null>>({});
+  const fileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
   const logoInputRef = useRef<HTMLInputElement>(null);
+  const unversionedRef = useRef<RestaurantMenu | null>(null); // Last save not yet in the version history
+  const lastVersionAtRef = useRef(Date.now());
+  const persistingRef = useRef(false); // Set before the re-render that disables the save buttons
   
   // State for new additions
   const [newCategoryName, setNewCategoryName] = useState('');
-  const [newItemStates, setNewItemStates] = useState<Record<number, Partial<MenuItem>>>({});
-  const [generatingImages, setGeneratingImages] = useState<Record<number, boolean>>({});
-  const [generatingDesc, setGeneratingDesc] = useState<Record<number, boolean>>({});
+  // Keyed by category id
+  const [newItemStates, setNewItemStates] = useState<Record<string, NewItemState>>({});
+  const [generatingImages, setGeneratingImages] = useState<Record<string, boolean>>({});
+  const [generatingDesc, setGeneratingDesc] = useState<Record<string, boolean>>({});
 
   // DnD Sensors
   const sensors = useSensors(
@@ -141,67 +263,289 @@ const MenuEditor: React.FC = () => {
   useEffect(() => {
     if (id) {
       getMenu(id).then((data) => {
-        if (data) setMenu(data);
+        if (!data) return;
+        resetMenu(data);
+        setSavedMenu(data);
       });
     }
-  }, [id]);
+  }, [id, resetMenu]);
+
+  // Writes the draft on top of the last stored copy. Returns null when someone else saved first.
+  // Only one save runs at a time: a second one would rebase on the same revision and conflict with the first.
+  const persistDraft = async (draft: RestaurantMenu, options: SaveOptions = {}, prepare = (m: RestaurantMenu) => m) => {
+    if (!savedMenu || persistingRef.current) return null;
+    persistingRef.current = true;
+    setIsPersisting(true);
+    try {
+      const saved = await saveMenu(prepare(rebaseDraft(draft, savedMenu)), options);
+      if (options.recordVersion === false) {
+        unversionedRef.current = saved;
+      } else {
+        unversionedRef.current = null;
+        lastVersionAtRef.current = Date.now();
+      }
+      setSavedMenu(saved);
+      setSaveError(false);
+      // Edits made while saving stay in place and go out with the next autosave
+      replaceMenu((current: RestaurantMenu | null) => current === draft ? saved : current);
+      // The saved copy is the same undo step, so an open "Undo" toast stays up
+      setToast(current => current?.after === draft ? { ...current, after: saved } : current);
+      return saved;
+    } catch (e) {
+      if (!(e instanceof MenuConflictError)) throw e;
+      setConflict(e.remote);
+      return null;
+    } finally {
+      persistingRef.current = false;
+      setIsPersisting(false);
+    }
+  };
+
+  // --- Autosave ---
+  useEffect(() => {
+    if (!menu || !savedMenu || menu === savedMenu || conflict || isPersisting) return;
+    const timer = setTimeout(() => {
+      persistDraft(menu, { recordVersion: Date.now() - lastVersionAtRef.current >= VERSION_INTERVAL }).catch(e => {
+        console.error(e);
+        setSaveError(true);
+      });
+    }, saveError ? AUTOSAVE_RETRY_DELAY : AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [menu, savedMenu, conflict, isPersisting, saveError]);
 
-  if (!menu) return <div className="min-h-screen flex items-center justify-center text-slate-500">Loading...</div>;
-  const t = translations[menu.language || 'pt'];
+  const recordPendingVersion = () => {
+    const pending = unversionedRef.current;
+    if (!pending) return;
+    unversionedRef.current = null;
+    lastVersionAtRef.current = Date.now();
+    saveMenuVersion(pending).catch(e => console.error(e));
+  };
+
+  useEffect(() => {
+    if (!menu || menu !== savedMenu) return;
+    const timer = setTimeout(recordPendingVersion, VERSION_IDLE_DELAY);
+    return () => clearTimeout(timer);
+  }, [menu, savedMenu]);
 
+  // Closing or reloading the tab never unmounts the editor, so the page hiding flushes too
+  useEffect(() => {
+    const flushOnHide = () => {
+      if (document.visibilityState === 'hidden') recordPendingVersion();
+    };
+    document.addEventListener('visibilitychange', flushOnHide);
+    window.addEventListener('pagehide', recordPendingVersion);
+    return () => {
+      document.removeEventListener('visibilitychange', flushOnHide);
+      window.removeEventListener('pagehide', recordPendingVersion);
+      recordPendingVersion();
+    };
+  }, []);
+
+  const hasUnsavedChanges = !!menu && menu !== savedMenu;
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [hasUnsavedChanges]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), 6000);
+    return () => clearTimeout(timer);
+  }, [toast?.shownAt]);
+
+  useEffect(() => onOwnerChange((session) => {
+    setOwnerId(session?.uid || null);
+    setIsAuthReady(true);
+  }), []);
+
+  if (!menu || !savedMenu || !isAuthReady) return <div className="min-h-screen flex items-center justify-center text-slate-500">Loading...</div>;
+  // The editor's own language; defaults to the menu's content language
+  const editorLanguage = uiLanguage || menu.language || 'pt';
+  const t = getTranslations(editorLanguage);
+
+  if (!canEditMenu(menu, ownerId)) return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 text-center bg-slate-50">
+      <Lock className="w-16 h-16 text-slate-300 mb-4" />
+      <h1 className="text-2xl font-bold text-slate-800 mb-2">{t.noEditAccess}</h1>
+      <p className="text-slate-500 mb-6 max-w-sm">{t.noEditAccessHint}</p>
+      <div className="flex items-center gap-3">
+        <AccountMenu language={editorLanguage} />
+        <button onClick={() => navigate('/')} className="px-6 py-3 bg-brand-600 text-white rounded-lg font-medium">{t.createAnother}</button>
+      </div>
+    </div>
+  );
+
+  // Every draft edit goes through here so it can be undone
+  const setMenu = (update: EditUpdate<RestaurantMenu>, options?: EditOptions) => {
+    setMenuState((current: RestaurantMenu | null) => current && (typeof update === 'function' ? update(current) : update), options);
+  };
+
+  const showUndoToast = (message: string, after: RestaurantMenu) => setToast({ message, after, shownAt: Date.now() });
+
+  // An explicit save also records a version in the history
   const handleSave = async () => {
     if (menu) {
       setIsSaving(true);
-      await saveMenu(menu);
-      setIsSaving(false);
-      navigate(`/success/${menu.id}`);
+      try {
+        if (await persistDraft(menu)) navigate(`/success/${menu.id}`);
+      } catch (e) {
+        console.error(e);
+        alert(e instanceof MenuPermissionError ? t.noEditAccessHint : "Could not save your menu. Please try again.");
+      } finally {
+        setIsSaving(false);
+      }
+    }
+  };
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      await persistDraft(menu, {}, publishMenu);
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof MenuPermissionError ? t.noEditAccessHint : t.publishFailed);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const isDraftDirty = hasUnpublishedChanges(rebaseDraft(menu, savedMenu));
+  const saveStatus = conflict ? 'conflict' : isPersisting ? 'saving' : saveError ? 'error' : hasUnsavedChanges ? 'unsaved' : 'saved';
+  const translationLocales = getMenuLocales(menu).slice(1);
+
+  // Sold-out flips go live right away instead of waiting for the next publish
+  const handleSetSoldOut = async (itemIds: string[], soldOut: boolean) => {
+    try {
+      await persistDraft(menu, { recordVersion: false }, draft => setItemsSoldOut(draft, itemIds, soldOut));
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof MenuPermissionError ? t.noEditAccessHint : "Could not save your menu. Please try again.");
+    }
+  };
+
+  const handleRestoreVersion = async (version: MenuVersion) => {
+    if (persistingRef.current) return;
+    persistingRef.current = true;
+    setIsPersisting(true);
+    try {
+      const restored = await restoreVersion(version, rebaseDraft(menu, savedMenu));
+      setSavedMenu(restored);
+      setMenu(restored);
+      setShowHistory(false);
+    } catch (e) {
+      if (e instanceof MenuConflictError) {
+        setConflict(e.remote);
+        setShowHistory(false);
+        return;
+      }
+      console.error(e);
+      alert(e instanceof MenuPermissionError ? t.noEditAccessHint : t.restoreFailed);
+    } finally {
+      persistingRef.current = false;
+      setIsPersisting(false);
     }
   };
 
+  // Imports only change the draft; the owner reviews and saves as usual
+  const handleImport = async (result: ImportResult, mode: ImportMode) => {
+    setMenu(applyImportedCategories(menu, result.categories, mode));
+    setShowDataDialog(false);
+  };
+
+  // The whole adjustment lands in a single update so it can be undone in one step
+  const handleBulkPrice = (itemIds: string[], adjustment: PriceAdjustment) => {
+    if (!menu) return;
+    const updated = applyPriceAdjustment(menu, itemIds, adjustment);
+    setMenu(updated);
+    showUndoToast(`${itemIds.length} ${t.pricesUpdated}`, updated);
+    setShowBulkPrice(false);
+  };
+
+  // Merging keeps both sides' edits as one undoable step; overwriting saves our draft over theirs
+  const resolveConflict = (resolution: 'merge' | 'overwrite') => {
+    if (!conflict) return;
+    if (resolution === 'merge') setMenu(mergeMenus(savedMenu, menu, conflict));
+    setSavedMenu(conflict);
+    setConflict(null);
+  };
+
   const updateEstablishment = (field: keyof RestaurantMenu, value: string) => {
     if (!menu) return;
-    setMenu({ ...menu, [field]: value });
+    setMenu({ ...menu, [field]: value }, { coalesceKey: `menu:${field}` });
   };
   
   const toggleLanguage = () => {
-    if (!menu) return;
-    const newLang = menu.language === 'en' ? 'pt' : 'en';
-    setMenu({...menu, language: newLang});
+    setUiLanguage(getNextUILanguage(editorLanguage));
   };
 
-  const updateCategoryTitle = (index: number, newTitle: string) => {
-    if (!menu) return;
-    const newCats = [...menu.categories];
-    newCats[index].title = newTitle;
-    setMenu({ ...menu, categories: newCats });
+  const addLocale = (locale: Language) => {
+    if (!locale || getMenuLocales(menu).includes(locale)) return;
+    setMenu({ ...menu, locales: [...(menu.locales || []), locale] });
   };
 
-  const toggleCategoryHighlight = (index: number) => {
+  const removeLocale = (locale: Language) => {
+    if (!window.confirm(t.confirmRemoveLanguage)) return;
+    setMenu(removeMenuLocale(menu, locale));
+  };
+
+  // Translates the whole menu in one request; edits made meanwhile are kept
+  const handleTranslate = async (locale: Language) => {
+    setTranslatingLocale(locale);
+    try {
+      const translation = await translateMenu(menu, locale);
+      setMenu(current => applyMenuTranslation(current, locale, translation));
+    } catch (e) {
+      console.error(e);
+      alert(t.translateFailed);
+    } finally {
+      setTranslatingLocale(null);
+    }
+  };
+
+  const updateCategory = (catId: string, update: (cat: MenuCategory) => MenuCategory, options?: EditOptions) => {
     if (!menu) return;
-    const newCats = [...menu.categories];
-    newCats[index].highlight = !newCats[index].highlight;
-    setMenu({ ...menu, categories: newCats });
+    setMenu({ ...menu, categories: menu.categories.map(cat => cat.id === catId ? update(cat) : cat) }, options);
   };
 
-  const toggleCategoryCollapse = (index: number) => {
+  const updateCategoryTitle = (catId: string, newTitle: string) => {
+    updateCategory(catId, cat => ({ ...cat, title: newTitle }), { coalesceKey: `${catId}:title` });
+  };
+
+  const toggleCategoryHighlight = (catId: string) => {
+    updateCategory(catId, cat => ({ ...cat, highlight: !cat.highlight }));
+  };
+
+  const toggleCategoryCollapse = (catId: string) => {
     setCollapsedCategories(prev => ({
         ...prev,
-        [index]: !prev[index]
+        [catId]: !prev[catId]
     }));
   };
 
-  const updateItem = (catIndex: number, itemIndex: number, field: keyof MenuItem, value: string) => {
-      if (!menu) return;
-      const newCats = [...menu.categories];
-      newCats[catIndex].items[itemIndex] = { 
-          ...newCats[catIndex].items[itemIndex], 
-          [field]: value 
-      };
-      setMenu({ ...menu, categories: newCats });
+  const updateItem = <K extends keyof MenuItem>(catId: string, itemId: string, field: K, value: MenuItem[K]) => {
+      updateCategory(catId, cat => ({
+          ...cat,
+          items: cat.items.map(item => item.id === itemId ? { ...item, [field]: value } : item)
+      }), TYPED_FIELDS.includes(field) ? { coalesceKey: `${itemId}:${String(field)}` } : undefined);
   };
 
   // --- Image & Helpers ---
-  const resizeImage = (file: File): Promise<string> => {
+  const resizeImage = (file: File, maxSize = 500): Promise<Blob> => {
     return new Promise((resolve) => {
       const reader = new FileReader();
       reader.onload = (e) => {
@@ -210,8 +554,8 @@ const MenuEditor: React.FC = () => {
           const canvas = document.createElement('canvas');
           let width = img.width;
           let height = img.height;
-          const MAX_WIDTH = 500;
-          const MAX_HEIGHT = 500;
+          const MAX_WIDTH = maxSize;
+          const MAX_HEIGHT = maxSize;
 
           if (width > height) {
             if (width > MAX_WIDTH) { height *= MAX_WIDTH / width; width = MAX_WIDTH; }
@@ -225,9 +569,9 @@ const MenuEditor: React.FC = () => {
             ctx.fillStyle = '#FFFFFF';
             ctx.fillRect(0, 0, width, height);
             ctx.drawImage(img, 0, 0, width, height);
-            resolve(canvas.toDataURL('image/jpeg', 0.7));
+            canvas.toBlob((blob) => resolve(blob || file), 'image/jpeg', 0.7);
           } else {
-            resolve(e.target?.result as string);
+            resolve(file);
           }
         };
         img.src = e.target?.result as string;
@@ -239,113 +583,139 @@ const MenuEditor: React.FC = () => {
   const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file && menu) {
-          const resized = await resizeImage(file);
-          setMenu({ ...menu, logo: resized });
+          try {
+              const logo = await uploadMenuImage(menu.id, await resizeImage(file));
+              setMenu({ ...menu, logo });
+          } catch (err) {
+              console.error(err);
+              alert(t.imageUploadFailed);
+          }
       }
   };
 
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>, catIndex: number) => {
+  const handleCoverUpload = async (file: File) => {
+      if (!menu) return;
+      try {
+          const coverImage = await uploadMenuImage(menu.id, await resizeImage(file, 1600));
+          setMenu(current => ({ ...current, theme: { ...current.theme, coverImage } }));
+      } catch (err) {
+          console.error(err);
+          alert(t.imageUploadFailed);
+      }
+  };
+
+  const updateTheme = (theme: MenuTheme, options?: EditOptions) => {
+    if (!menu) return;
+    setMenu({ ...menu, theme }, options);
+  };
+
+  const updateLayout = (layout: MenuLayout) => {
+    if (!menu) return;
+    setMenu({ ...menu, layout });
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>, catId: string) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const resizedImage = await resizeImage(file);
-      handleNewItemChange(catIndex, 'image', resizedImage);
+    if (file && menu) {
+      try {
+        const imageUrl = await uploadMenuImage(menu.id, await resizeImage(file));
+        handleNewItemChange(catId, 'image', imageUrl);
+      } catch (err) {
+        console.error(err);
+        alert(t.imageUploadFailed);
+      }
     }
   };
 
-  const handleGenerateAIImage = async (catIndex: number) => {
-    const itemData = newItemStates[catIndex];
-    if (!itemData?.name) return;
-    setGeneratingImages(prev => ({ ...prev, [catIndex]: true }));
+  const handleGenerateAIImage = async (catId: string) => {
+    const itemData = newItemStates[catId];
+    if (!itemData?.name || !menu) return;
+    setGeneratingImages(prev => ({ ...prev, [catId]: true }));
     try {
-      const imageUrl = await generateMenuItemImage(itemData.name, itemData.description || '');
-      if (imageUrl) handleNewItemChange(catIndex, 'image', imageUrl);
+      const generated = await generateMenuItemImage(itemData.name, itemData.description || '');
+      if (generated) handleNewItemChange(catId, 'image', await uploadMenuImage(menu.id, generated));
       else alert("Could not generate image. Please try again.");
     } catch (e) {
       console.error(e);
       alert("Error generating image.");
     } finally {
-      setGeneratingImages(prev => ({ ...prev, [catIndex]: false }));
+      setGeneratingImages(prev => ({ ...prev, [catId]: false }));
     }
   };
 
-  const handleGenerateDescription = async (catIndex: number) => {
-    const itemData = newItemStates[catIndex];
+  const handleGenerateDescription = async (catId: string) => {
+    const itemData = newItemStates[catId];
     if (!itemData?.name || !menu) return;
-    setGeneratingDesc(prev => ({ ...prev, [catIndex]: true }));
+    setGeneratingDesc(prev => ({ ...prev, [catId]: true }));
     try {
         const desc = await generateItemDescription(itemData.name, menu.businessType || 'Restaurant', menu.language || 'pt');
-        if (desc) handleNewItemChange(catIndex, 'description', desc);
+        if (desc) handleNewItemChange(catId, 'description', desc);
     } catch (e) {
         console.error(e);
     } finally {
-        setGeneratingDesc(prev => ({ ...prev, [catIndex]: false }));
+        setGeneratingDesc(prev => ({ ...prev, [catId]: false }));
     }
   };
 
   // --- CRUD Logic ---
   const addCategory = () => {
     if (!menu || !newCategoryName.trim()) return;
-    const newCategory: MenuCategory = { title: newCategoryName, items: [] };
+    const newCategory: MenuCategory = { id: createId(), title: newCategoryName, items: [] };
     setMenu({ ...menu, categories: [...menu.categories, newCategory] });
     setNewCategoryName('');
   };
   
   const addSpecialsCategory = () => {
       if (!menu) return;
-      const newCategory: MenuCategory = { title: "⭐ Specials", items: [], highlight: true };
+      const newCategory: MenuCategory = { id: createId(), title: "⭐ Specials", items: [], highlight: true };
       setMenu({ ...menu, categories: [newCategory, ...menu.categories] });
   };
 
-  const deleteCategory = (index: number) => {
+  const deleteCategory = (catId: string) => {
     if (!menu) return;
-    const newCats = [...menu.categories];
-    newCats.splice(index, 1);
-    setMenu({ ...menu, categories: newCats });
+    const category = menu.categories.find(cat => cat.id === catId);
+    const updated = { ...menu, categories: menu.categories.filter(cat => cat.id !== catId) };
+    setMenu(updated);
+    showUndoToast(`"${category?.title || ''}" ${t.categoryDeleted}`, updated);
   };
 
-  const handleNewItemChange = (catIndex: number, field: keyof MenuItem, value: string) => {
+  const handleNewItemChange = (catId: string, field: keyof NewItemState, value: string) => {
     setNewItemStates(prev => ({
       ...prev,
-      [catIndex]: { ...prev[catIndex], [field]: value }
+      [catId]: { ...prev[catId], [field]: value }
     }));
   };
 
-  const addItem = (catIndex: number) => {
+  const addItem = (catId: string) => {
     if (!menu) return;
-    const itemData = newItemStates[catIndex];
-    if (!itemData?.name || !itemData?.price) return;
+    const itemData = newItemStates[catId];
+    const price = itemData?.price ? parsePrice(itemData.price, menu.currency) : null;
+    if (!itemData?.name || !price) return;
     const newItem: MenuItem = {
+      id: createId(),
       name: itemData.name,
-      price: itemData.price,
+      price,
       description: itemData.description || '',
       image: itemData.image
     };
-    const newCats = [...menu.categories];
-    newCats[catIndex].items.push(newItem);
-    setMenu({ ...menu, categories: newCats });
-    setNewItemStates(prev => ({ ...prev, [catIndex]: {} }));
-    if (fileInputRefs.current[catIndex]) fileInputRefs.current[catIndex]!.value = "";
+    updateCategory(catId, cat => ({ ...cat, items: [...cat.items, newItem] }));
+    setNewItemStates(prev => ({ ...prev, [catId]: {} }));
+    if (fileInputRefs.current[catId]) fileInputRefs.current[catId]!.value = "";
   };
 
-  const deleteItem = (catIndex: number, itemIndex: number) => {
-    if (!menu) return;
-    const newCats = [...menu.categories];
-    newCats[catIndex].items.splice(itemIndex, 1);
-    setMenu({ ...menu, categories: newCats });
+  const deleteItem = (catId: string, itemId: string) => {
+    updateCategory(catId, cat => ({ ...cat, items: cat.items.filter(item => item.id !== itemId) }));
   };
 
-  const handleDragEnd = (event: DragEndEvent, catIndex: number) => {
+  const handleDragEnd = (event: DragEndEvent, catId: string) => {
     const { active, over } = event;
     if (!menu || !over || active.id === over.id) return;
-    const category = menu.categories[catIndex];
-    const oldIndex = category.items.findIndex((_, idx) => `${catIndex}-${idx}` === active.id);
-    const newIndex = category.items.findIndex((_, idx) => `${catIndex}-${idx}` === over.id);
-    if (oldIndex !== -1 && newIndex !== -1) {
-       const newItems = arrayMove(category.items, oldIndex, newIndex);
-       const newCategories = [...menu.categories];
-       newCategories[catIndex] = { ...category, items: newItems };
-       setMenu({ ...menu, categories: newCategories });
-    }
+    updateCategory(catId, category => {
+       const oldIndex = category.items.findIndex(item => item.id === active.id);
+       const newIndex = category.items.findIndex(item => item.id === over.id);
+       if (oldIndex === -1 || newIndex === -1) return category;
+       return { ...category, items: arrayMove(category.items, oldIndex, newIndex) };
+    });
   };
 
   return (
@@ -353,10 +723,24 @@ const MenuEditor: React.FC = () => {
       {/* 1. Main Navbar */}
       <nav className="bg-white border-b border-slate-200 z-30 px-4 py-3 flex justify-between items-center shadow-sm flex-shrink-0">
         <div className="flex items-center gap-2">
-            <button onClick={() => navigate('/')} className="text-slate-500 hover:text-slate-900 p-2 -ml-2 rounded-full hover:bg-slate-100 transition-colors">
+            <button onClick={() => navigate('/dashboard')} className="text-slate-500 hover:text-slate-900 p-2 -ml-2 rounded-full hover:bg-slate-100 transition-colors">
                 <ArrowLeft size={20} />
             </button>
             <span className="font-bold text-slate-800 text-lg">{t.editTitle}</span>
+            <span
+                className={`hidden sm:inline-flex items-center gap-1 text-[11px] font-medium ${saveStatus === 'error' || saveStatus === 'conflict' ? 'text-red-600' : 'text-slate-400'}`}
+                title={saveStatus === 'error' ? t.autosaveFailed : undefined}
+            >
+                {saveStatus === 'saved' && <><CheckCircle2 size={12} /> {t.allChangesSaved}</>}
+                {saveStatus === 'unsaved' && <><CloudUpload size={12} /> {t.unsavedChanges}</>}
+                {saveStatus === 'saving' && <><CloudUpload size={12} className="animate-pulse" /> {t.savingChanges}</>}
+                {(saveStatus === 'error' || saveStatus === 'conflict') && <><CloudOff size={12} /> {saveStatus === 'error' ? t.autosaveFailed : t.saveConflict}</>}
+            </span>
+            {isDraftDirty && (
+                <span className="hidden md:inline-flex items-center gap-1 bg-amber-50 text-amber-700 border border-amber-200 px-2 py-0.5 rounded-full text-[11px] font-bold">
+                    {menu.published ? t.unpublishedChanges : t.notPublishedYet}
+                </span>
+            )}
         </div>
         
         {/* Mobile View Switcher */}
@@ -380,20 +764,70 @@ const MenuEditor: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-2">
+            <AccountMenu language={editorLanguage} />
+            <div className="flex items-center">
+                <button
+                    onClick={undo}
+                    disabled={!canUndo}
+                    title={`${t.undo} (Ctrl+Z)`}
+                    className="p-1.5 rounded-l border border-slate-200 bg-slate-50 text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                >
+                    <Undo2 size={12} />
+                </button>
+                <button
+                    onClick={redo}
+                    disabled={!canRedo}
+                    title={`${t.redo} (Ctrl+Shift+Z)`}
+                    className="p-1.5 rounded-r border border-l-0 border-slate-200 bg-slate-50 text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                >
+                    <Redo2 size={12} />
+                </button>
+            </div>
+            <button
+                onClick={() => setShowHistory(true)}
+                title={t.versionHistory}
+                className="flex items-center gap-1 bg-slate-50 px-2 py-1 rounded border border-slate-200 text-xs font-medium text-slate-600 hover:bg-slate-100"
+            >
+                <History size={12} /> <span className="hidden md:inline">{t.versionHistory}</span>
+            </button>
+            <button
+                onClick={() => setShowDataDialog(true)}
+                title={t.importExport}
+                className="flex items-center gap-1 bg-slate-50 px-2 py-1 rounded border border-slate-200 text-xs font-medium text-slate-600 hover:bg-slate-100"
+            >
+                <ArrowDownUp size={12} /> <span className="hidden lg:inline">{t.importExport}</span>
+            </button>
+            <button
+                onClick={() => setShowBulkPrice(true)}
+                title={t.bulkPriceChange}
+                className="flex items-center gap-1 bg-slate-50 px-2 py-1 rounded border border-slate-200 text-xs font-medium text-slate-600 hover:bg-slate-100"
+            >
+                <Percent size={12} /> <span className="hidden lg:inline">{t.bulkPriceChange}</span>
+            </button>
             <button 
                 onClick={toggleLanguage}
                 className="hidden sm:flex items-center gap-1 bg-slate-50 px-2 py-1 rounded border border-slate-200 text-xs font-medium text-slate-600 hover:bg-slate-100"
             >
-                <Globe size={12} /> {menu.language === 'en' ? 'EN' : 'PT'}
+                <Globe size={12} /> {editorLanguage.toUpperCase()}
             </button>
             <button 
                 onClick={handleSave} 
-                disabled={isSaving}
+                disabled={isSaving || isPersisting}
                 className="bg-brand-600 hover:bg-brand-700 text-white px-4 py-2 rounded-lg font-bold text-sm shadow-md shadow-brand-500/20 disabled:opacity-50 flex items-center gap-2"
             >
                 {isSaving ? <span className="animate-spin">⏳</span> : <Save size={16} />}
                 <span className="hidden sm:inline">{t.save}</span>
             </button>
+            <button
+                onClick={handlePublish}
+                disabled={isPublishing || isSaving || isPersisting || !isDraftDirty}
+                title={isDraftDirty ? t.unpublishedChanges : t.publishedUpToDate}
+                className="relative bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg font-bold text-sm shadow-md disabled:opacity-50 flex items-center gap-2"
+            >
+                {isPublishing ? <span className="animate-spin">⏳</span> : <Rocket size={16} />}
+                <span className="hidden sm:inline">{isDraftDirty ? t.publish : t.published}</span>
+                {isDraftDirty && <span className="absolute -top-1 -right-1 w-3 h-3 bg-amber-400 rounded-full border-2 border-white"></span>}
+            </button>
         </div>
       </nav>
 
@@ -418,6 +852,12 @@ const MenuEditor: React.FC = () => {
                     >
                         <Settings size={18} /> Settings
                     </button>
+                    <button
+                        onClick={() => setEditorSection('availability')}
+                        className={`px-6 py-3 font-bold text-sm flex items-center gap-2 border-b-2 transition-colors ${editorSection === 'availability' ? 'border-brand-600 text-brand-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+                    >
+                        <Ban size={18} /> {t.eightySixList}
+                    </button>
                 </div>
             </div>
 
@@ -505,41 +945,127 @@ const MenuEditor: React.FC = () => {
                                 </div>
                             </div>
 
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">{t.tablesLabel}</label>
+                                <TablesEditor tables={menu.tables || []} language={editorLanguage} onChange={(tables) => setMenu({ ...menu, tables })} />
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">{t.currency}</label>
+                                <select
+                                    value={menu.currency}
+                                    onChange={(e) => updateEstablishment('currency', e.target.value)}
+                                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-brand-500 outline-none transition-all font-medium"
+                                >
+                                    {(Object.keys(CURRENCIES) as CurrencyCode[]).map(code => (
+                                        <option key={code} value={code}>{CURRENCIES[code].label}</option>
+                                    ))}
+                                </select>
+                                <p className="text-[10px] text-slate-400 mt-1.5 ml-1">{t.currencyHint}</p>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">{t.timezone}</label>
+                                <select
+                                    value={menu.timezone || getDeviceTimezone()}
+                                    onChange={(e) => updateEstablishment('timezone', e.target.value)}
+                                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-brand-500 outline-none transition-all font-medium"
+                                >
+                                    {Array.from(new Set([menu.timezone || getDeviceTimezone(), ...Intl.supportedValuesOf('timeZone')])).map(zone => (
+                                        <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                                    ))}
+                                </select>
+                                <p className="text-[10px] text-slate-400 mt-1.5 ml-1">{t.timezoneHint}</p>
+                            </div>
+
                             <div>
                                 <label className="block text-xs font-bold text-slate-500 uppercase mb-3">{t.theme}</label>
-                                <div className="flex gap-4 flex-wrap">
-                                {THEME_COLORS.map((color) => (
-                                    <button
-                                    key={color.value}
-                                    onClick={() => updateEstablishment('themeColor', color.value)}
-                                    className={`w-12 h-12 rounded-full ${color.bg} ${
-                                        menu.themeColor === color.value 
-                                        ? 'ring-4 ring-offset-2 ring-slate-200 scale-110 shadow-lg' 
-                                        : 'hover:scale-105 opacity-80 hover:opacity-100'
-                                    } transition-all flex items-center justify-center`}
-                                    title={color.label}
-                                    >
-                                        {menu.themeColor === color.value && <Check size={20} className="text-white drop-shadow-md" />}
-                                    </button>
-                                ))}
-                                </div>
+                                <ThemeEditor menu={menu} language={editorLanguage} onChange={updateTheme} onCoverUpload={handleCoverUpload} />
                             </div>
                         </section>
+
+                        <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-5">
+                            <h2 className="font-bold text-slate-800 text-lg flex items-center gap-2">
+                                <Globe size={20} className="text-brand-500"/> {t.languages}
+                            </h2>
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">{t.menuLanguage}</label>
+                                <select
+                                    value={menu.language || 'pt'}
+                                    onChange={(e) => updateEstablishment('language', e.target.value)}
+                                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-brand-500 outline-none transition-all font-medium"
+                                >
+                                    {Array.from(new Set([menu.language || 'pt', ...COMMON_LOCALES]))
+                                        .filter(code => !translationLocales.includes(code))
+                                        .map(code => <option key={code} value={code}>{getLanguageName(code, editorLanguage)}</option>)}
+                                </select>
+                                <p className="text-[10px] text-slate-400 mt-1.5 ml-1">{t.languagesHint}</p>
+                            </div>
+
+                            {translationLocales.length > 0 && (
+                                <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                                    {translationLocales.map(locale => {
+                                        const coverage = getTranslationCoverage(menu, locale);
+                                        return (
+                                            <li key={locale} className="p-3 flex items-center gap-3">
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-sm font-bold text-slate-700">{getLanguageName(locale, editorLanguage)}</p>
+                                                    <p className="text-[11px] text-slate-400">{coverage.translated}/{coverage.total} {t.itemsTranslated}</p>
+                                                </div>
+                                                <button
+                                                    onClick={() => handleTranslate(locale)}
+                                                    disabled={translatingLocale !== null}
+                                                    className="text-xs font-bold text-brand-600 hover:bg-brand-50 px-3 py-2 rounded-lg flex items-center gap-1 disabled:opacity-50"
+                                                >
+                                                    <Sparkles size={12} className={translatingLocale === locale ? 'animate-pulse' : ''} />
+                                                    {translatingLocale === locale ? t.translating : t.autoTranslate}
+                                                </button>
+                                                <button
+                                                    onClick={() => removeLocale(locale)}
+                                                    disabled={translatingLocale !== null}
+                                                    title={t.removeLanguage}
+                                                    className="text-slate-300 hover:text-red-500 p-2 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                                                >
+                                                    <Trash2 size={14} />
+                                                </button>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            )}
+
+                            <select
+                                value=""
+                                onChange={(e) => addLocale(e.target.value)}
+                                className="w-full p-3 bg-white border border-dashed border-slate-300 rounded-xl text-sm font-bold text-slate-500 outline-none focus:ring-2 focus:ring-brand-500"
+                            >
+                                <option value="">{t.addLanguage}</option>
+                                {COMMON_LOCALES.filter(code => !getMenuLocales(menu).includes(code)).map(code => (
+                                    <option key={code} value={code}>{getLanguageName(code, editorLanguage)}</option>
+                                ))}
+                            </select>
+                        </section>
                     </div>
                 )}
 
+                {/* Mode: 86 LIST */}
+                {editorSection === 'availability' && (
+                    <AvailabilityBoard menu={menu} language={editorLanguage} onSetSoldOut={handleSetSoldOut} disabled={isPersisting} />
+                )}
+
                 {/* Mode: CONTENT */}
                 {editorSection === 'content' && (
                     <div className="max-w-2xl mx-auto space-y-6 animate-in fade-in slide-in-from-right-4 duration-300 pb-20">
-                        {menu.categories.map((cat, catIndex) => {
-                            const isCollapsed = collapsedCategories[catIndex];
+                        {menu.categories.map((cat) => {
+                            const isCollapsed = collapsedCategories[cat.id];
                             return (
-                                <section key={catIndex} className={`bg-white rounded-xl shadow-sm border transition-all duration-200 ${cat.highlight ? 'border-amber-300 ring-2 ring-amber-100' : 'border-slate-200 hover:border-slate-300'}`}>
+                                <section key={cat.id} className={`bg-white rounded-xl shadow-sm border transition-all duration-200 ${cat.highlight ? 'border-amber-300 ring-2 ring-amber-100' : 'border-slate-200 hover:border-slate-300'}`}>
                                     
                                     {/* Category Header (Accordion Toggle) */}
                                     <div className={`p-4 flex items-center justify-between gap-3 ${cat.highlight ? 'bg-amber-50/50' : 'bg-white'} ${!isCollapsed ? 'border-b border-slate-100' : 'rounded-xl'}`}>
                                         <button 
-                                            onClick={() => toggleCategoryCollapse(catIndex)}
+                                            onClick={() => toggleCategoryCollapse(cat.id)}
                                             className="flex items-center justify-center p-1 text-slate-400 hover:text-slate-600 rounded-md hover:bg-slate-100 transition-colors"
                                         >
                                             {isCollapsed ? <ChevronDown size={20} /> : <ChevronUp size={20} />}
@@ -549,7 +1075,7 @@ const MenuEditor: React.FC = () => {
                                             {cat.highlight && <Star size={16} className="text-amber-500 fill-amber-500 flex-shrink-0" />}
                                             <input 
                                                 value={cat.title}
-                                                onChange={(e) => updateCategoryTitle(catIndex, e.target.value)}
+                                                onChange={(e) => updateCategoryTitle(cat.id, e.target.value)}
                                                 onClick={(e) => e.stopPropagation()}
                                                 className="font-bold text-lg text-slate-800 bg-transparent outline-none focus:border-b-2 focus:border-brand-500 w-full placeholder-slate-300"
                                                 placeholder="Category Name"
@@ -557,15 +1083,31 @@ const MenuEditor: React.FC = () => {
                                         </div>
 
                                         <div className="flex items-center gap-1">
+                                            {translationLocales.length > 0 && (
+                                                <button
+                                                    onClick={() => setOpenTranslations(prev => ({ ...prev, [cat.id]: !prev[cat.id] }))}
+                                                    className={`p-2 rounded-lg transition-colors ${openTranslations[cat.id] ? 'text-brand-600 bg-brand-50' : 'text-slate-300 hover:text-slate-500 hover:bg-slate-50'}`}
+                                                    title={t.translationsLabel}
+                                                >
+                                                    <Globe size={18} />
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => setOpenSchedules(prev => ({ ...prev, [cat.id]: !prev[cat.id] }))}
+                                                className={`p-2 rounded-lg transition-colors ${cat.schedule && cat.schedule.length > 0 ? 'text-brand-600 bg-brand-50' : 'text-slate-300 hover:text-slate-500 hover:bg-slate-50'}`}
+                                                title={cat.schedule && cat.schedule.length > 0 ? describeSchedule(cat.schedule, editorLanguage) : t.schedule}
+                                            >
+                                                <Clock size={18} />
+                                            </button>
                                             <button
-                                                onClick={() => toggleCategoryHighlight(catIndex)}
+                                                onClick={() => toggleCategoryHighlight(cat.id)}
                                                 className={`p-2 rounded-lg transition-colors ${cat.highlight ? 'text-amber-500 bg-amber-100' : 'text-slate-300 hover:text-amber-400 hover:bg-slate-50'}`}
                                                 title={cat.highlight ? "Remove Highlight" : "Highlight as Special"}
                                             >
                                                 <Star size={18} fill={cat.highlight ? "currentColor" : "none"} />
                                             </button>
                                             <button 
-                                                onClick={() => deleteCategory(catIndex)} 
+                                                onClick={() => deleteCategory(cat.id)} 
                                                 className="text-slate-300 hover:text-red-500 p-2 rounded-lg hover:bg-red-50 transition-colors"
                                             >
                                                 <Trash2 size={18} />
@@ -573,16 +1115,39 @@ const MenuEditor: React.FC = () => {
                                         </div>
                                     </div>
 
+                                    {openTranslations[cat.id] && translationLocales.length > 0 && (
+                                        <div className="px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+                                            <TranslationFields
+                                                locales={translationLocales}
+                                                fields={[{ key: 'title', placeholder: cat.title, className: 'text-sm font-bold text-slate-800' }]}
+                                                values={cat.i18n}
+                                                language={editorLanguage}
+                                                onChange={(i18n) => updateCategory(cat.id, c => ({ ...c, i18n }), { coalesceKey: `${cat.id}:i18n` })}
+                                            />
+                                        </div>
+                                    )}
+
+                                    {openSchedules[cat.id] && (
+                                        <div className="px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+                                            <p className="text-[10px] font-bold uppercase text-slate-400 mb-2">{t.categorySchedule}</p>
+                                            <ScheduleEditor
+                                                schedule={cat.schedule || []}
+                                                language={editorLanguage}
+                                                onChange={(schedule) => updateCategory(cat.id, c => ({ ...c, schedule }))}
+                                            />
+                                        </div>
+                                    )}
+
                                     {/* Category Body (Items) */}
                                     {!isCollapsed && (
                                         <div className="animate-in slide-in-from-top-2 duration-200">
                                             <DndContext 
                                                 sensors={sensors} 
                                                 collisionDetection={closestCenter}
-                                                onDragEnd={(event) => handleDragEnd(event, catIndex)}
+                                                onDragEnd={(event) => handleDragEnd(event, cat.id)}
                                             >
                                                 <SortableContext 
-                                                items={cat.items.map((_, idx) => `${catIndex}-${idx}`)}
+                                                items={cat.items.map(item => item.id)}
                                                 strategy={verticalListSortingStrategy}
                                                 >
                                                 <div className="">
@@ -591,15 +1156,16 @@ const MenuEditor: React.FC = () => {
                                                             No items yet. Add one below!
                                                         </div>
                                                     )}
-                                                    {cat.items.map((item, itemIdx) => (
+                                                    {cat.items.map((item) => (
                                                     <SortableItem 
-                                                        key={`${catIndex}-${itemIdx}`}
-                                                        id={`${catIndex}-${itemIdx}`}
+                                                        key={item.id}
+                                                        id={item.id}
                                                         item={item}
-                                                        catIndex={catIndex}
-                                                        itemIndex={itemIdx}
-                                                        onDelete={() => deleteItem(catIndex, itemIdx)}
-                                                        onUpdate={(field, val) => updateItem(catIndex, itemIdx, field, val)}
+                                                        currency={menu.currency}
+                                                        language={editorLanguage}
+                                                        translationLocales={translationLocales}
+                                                        onDelete={() => deleteItem(cat.id, item.id)}
+                                                        onUpdate={(field, val) => updateItem(cat.id, item.id, field, val)}
                                                     />
                                                     ))}
                                                 </div>
@@ -615,21 +1181,21 @@ const MenuEditor: React.FC = () => {
                                                                 <input 
                                                                     placeholder={t.itemPlaceholder} 
                                                                     className="flex-1 p-2.5 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none shadow-sm"
-                                                                    value={newItemStates[catIndex]?.name || ''}
-                                                                    onChange={(e) => handleNewItemChange(catIndex, 'name', e.target.value)}
+                                                                    value={newItemStates[cat.id]?.name || ''}
+                                                                    onChange={(e) => handleNewItemChange(cat.id, 'name', e.target.value)}
                                                                 />
                                                                 <input 
                                                                     placeholder={t.pricePlaceholder} 
                                                                     className="w-24 p-2.5 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none shadow-sm text-right"
-                                                                    value={newItemStates[catIndex]?.price || ''}
-                                                                    onChange={(e) => handleNewItemChange(catIndex, 'price', e.target.value)}
+                                                                    value={newItemStates[cat.id]?.price || ''}
+                                                                    onChange={(e) => handleNewItemChange(cat.id, 'price', e.target.value)}
                                                                 />
                                                             </div>
                                                             <input 
                                                                 placeholder={t.descPlaceholder}
                                                                 className="w-full p-2.5 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none shadow-sm text-slate-600"
-                                                                value={newItemStates[catIndex]?.description || ''}
-                                                                onChange={(e) => handleNewItemChange(catIndex, 'description', e.target.value)}
+                                                                value={newItemStates[cat.id]?.description || ''}
+                                                                onChange={(e) => handleNewItemChange(cat.id, 'description', e.target.value)}
                                                             />
                                                         </div>
                                                         
@@ -640,12 +1206,12 @@ const MenuEditor: React.FC = () => {
                                                                     type="file" 
                                                                     accept="image/*" 
                                                                     className="hidden" 
-                                                                    ref={(el) => { fileInputRefs.current[catIndex] = el; }}
-                                                                    onChange={(e) => handleImageUpload(e, catIndex)}
+                                                                    ref={(el) => { fileInputRefs.current[cat.id] = el; }}
+                                                                    onChange={(e) => handleImageUpload(e, cat.id)}
                                                                 />
                                                                 <button 
-                                                                    onClick={() => fileInputRefs.current[catIndex]?.click()}
-                                                                    className={`w-10 h-10 border rounded-lg flex items-center justify-center transition-colors ${newItemStates[catIndex]?.image ? 'bg-green-100 border-green-300 text-green-700' : 'bg-white border-slate-200 text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+                                                                    onClick={() => fileInputRefs.current[cat.id]?.click()}
+                                                                    className={`w-10 h-10 border rounded-lg flex items-center justify-center transition-colors ${newItemStates[cat.id]?.image ? 'bg-green-100 border-green-300 text-green-700' : 'bg-white border-slate-200 text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
                                                                     title="Upload Image"
                                                                 >
                                                                     <ImageIcon size={18} />
@@ -653,12 +1219,12 @@ const MenuEditor: React.FC = () => {
                                                             </div>
                                                             {/* AI Image */}
                                                             <button 
-                                                                onClick={() => handleGenerateAIImage(catIndex)}
-                                                                disabled={!newItemStates[catIndex]?.name || generatingImages[catIndex]}
-                                                                className={`w-10 h-10 border rounded-lg flex items-center justify-center transition-colors ${generatingImages[catIndex] ? 'bg-purple-100 border-purple-300' : 'bg-white border-purple-200 text-purple-600 hover:bg-purple-50'}`}
+                                                                onClick={() => handleGenerateAIImage(cat.id)}
+                                                                disabled={!newItemStates[cat.id]?.name || generatingImages[cat.id]}
+                                                                className={`w-10 h-10 border rounded-lg flex items-center justify-center transition-colors ${generatingImages[cat.id] ? 'bg-purple-100 border-purple-300' : 'bg-white border-purple-200 text-purple-600 hover:bg-purple-50'}`}
                                                                 title={t.genImage}
                                                             >
-                                                                {generatingImages[catIndex] ? (
+                                                                {generatingImages[cat.id] ? (
                                                                     <div className="w-4 h-4 border-2 border-purple-600 border-t-transparent rounded-full animate-spin"></div>
                                                                 ) : (
                                                                     <Sparkles size={18} />
@@ -669,25 +1235,25 @@ const MenuEditor: React.FC = () => {
 
                                                     <div className="flex gap-3 items-center">
                                                         <button 
-                                                            onClick={() => handleGenerateDescription(catIndex)}
-                                                            disabled={!newItemStates[catIndex]?.name || generatingDesc[catIndex]}
-                                                            className={`text-xs font-bold flex items-center gap-1 transition-colors px-2 py-1 rounded ${generatingDesc[catIndex] ? 'text-indigo-400' : 'text-indigo-600 hover:bg-indigo-50'}`}
+                                                            onClick={() => handleGenerateDescription(cat.id)}
+                                                            disabled={!newItemStates[cat.id]?.name || generatingDesc[cat.id]}
+                                                            className={`text-xs font-bold flex items-center gap-1 transition-colors px-2 py-1 rounded ${generatingDesc[cat.id] ? 'text-indigo-400' : 'text-indigo-600 hover:bg-indigo-50'}`}
                                                         >
-                                                            {generatingDesc[catIndex] ? 'Writing...' : <><Wand2 size={12}/> {t.aiDesc}</>}
+                                                            {generatingDesc[cat.id] ? 'Writing...' : <><Wand2 size={12}/> {t.aiDesc}</>}
                                                         </button>
 
-                                                        {newItemStates[catIndex]?.image && (
+                                                        {newItemStates[cat.id]?.image && (
                                                             <div className="flex items-center gap-1 bg-white px-2 py-1 border rounded-md border-slate-200">
-                                                                <img src={newItemStates[catIndex]?.image} alt="Preview" className="w-4 h-4 object-cover rounded" />
-                                                                <button onClick={() => handleNewItemChange(catIndex, 'image', '')} className="text-slate-400 hover:text-red-500"><X size={12}/></button>
+                                                                <img src={newItemStates[cat.id]?.image} alt="Preview" className="w-4 h-4 object-cover rounded" />
+                                                                <button onClick={() => handleNewItemChange(cat.id, 'image', '')} className="text-slate-400 hover:text-red-500"><X size={12}/></button>
                                                             </div>
                                                         )}
 
                                                         <div className="flex-1"></div>
                                                         
                                                         <button 
-                                                            onClick={() => addItem(catIndex)}
-                                                            disabled={!newItemStates[catIndex]?.name || !newItemStates[catIndex]?.price}
+                                                            onClick={() => addItem(cat.id)}
+                                                            disabled={!newItemStates[cat.id]?.name || !parsePrice(newItemStates[cat.id]?.price || '', menu.currency)}
                                                             className="bg-slate-900 text-white text-sm font-bold px-4 py-2 rounded-lg hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm flex items-center gap-1"
                                                         >
                                                             <Plus size={16} /> {t.addProduct}
@@ -739,9 +1305,25 @@ const MenuEditor: React.FC = () => {
                 
                 {/* Device Frame */}
                 <div className="mx-auto w-full h-full max-w-[380px] flex flex-col">
-                    <div className="text-center mb-4 opacity-50 text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2">
+                    <div className="text-center mb-3 opacity-50 text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2">
                         <LayoutGrid size={12} /> Live Preview
                     </div>
+
+                    <div className="mb-4">
+                        <div role="group" aria-label={t.menuLayout} className="flex bg-slate-200/70 p-1 rounded-xl gap-1">
+                            {MENU_LAYOUT_IDS.map(layout => (
+                                <button
+                                    key={layout}
+                                    onClick={() => updateLayout(layout)}
+                                    title={t[MENU_LAYOUTS[layout].hintKey]}
+                                    className={`flex-1 py-1.5 rounded-lg text-[11px] font-bold flex items-center justify-center gap-1 transition-all ${getMenuLayout(menu) === layout ? 'bg-white shadow text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
+                                >
+                                    {LAYOUT_ICONS[layout]} {t[MENU_LAYOUTS[layout].labelKey]}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-slate-400 text-center mt-1.5">{t[MENU_LAYOUTS[getMenuLayout(menu)].hintKey]}</p>
+                    </div>
                     
                     <div className="flex-1 bg-white rounded-[3rem] shadow-2xl border-[8px] border-slate-800 relative overflow-hidden ring-1 ring-slate-900/5">
                         <div className="absolute top-0 left-1/2 -translate-x-1/2 w-1/3 h-6 bg-slate-800 rounded-b-xl z-20 pointer-events-none"></div>
@@ -752,6 +1334,54 @@ const MenuEditor: React.FC = () => {
             </div>
         </div>
       </div>
+
+      {showHistory && (
+        <VersionHistory
+          menu={menu}
+          language={editorLanguage}
+          onRestore={handleRestoreVersion}
+          onClose={() => setShowHistory(false)}
+          disabled={isPersisting}
+        />
+      )}
+
+      {showDataDialog && (
+        <MenuDataDialog
+          menu={menu}
+          currency={menu.currency}
+          language={editorLanguage}
+          onImport={handleImport}
+          onClose={() => setShowDataDialog(false)}
+        />
+      )}
+
+      {conflict && (
+        <SaveConflictDialog
+          remote={conflict}
+          language={editorLanguage}
+          onMerge={() => resolveConflict('merge')}
+          onOverwrite={() => resolveConflict('overwrite')}
+        />
+      )}
+
+      {toast && toast.after === menu && (
+        <div className="fixed bottom-24 lg:bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-slate-900 text-white text-sm rounded-xl shadow-2xl pl-4 pr-2 py-2 animate-in fade-in slide-in-from-bottom-4 duration-200">
+          <span className="max-w-xs truncate">{toast.message}</span>
+          <button onClick={() => { undo(); setToast(null); }} className="flex items-center gap-1 px-2 py-1 rounded font-bold text-brand-100 hover:bg-white/10">
+            <Undo2 size={14} /> {t.undo}
+          </button>
+          <button onClick={() => setToast(null)} className="p-1 rounded text-slate-400 hover:text-white"><X size={14} /></button>
+        </div>
+      )}
+
+      {showBulkPrice && (
+        <BulkPriceDialog
+          menu={menu}
+          language={editorLanguage}
+          onApply={handleBulkPrice}
+          onClose={() => setShowBulkPrice(false)}
+        />
+      )}
     </div>
   );
 };
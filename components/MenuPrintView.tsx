@@ -0,0 +1,92 @@
+import React from 'react';
+import QRCode from 'react-qr-code';
+import { MenuItem, RestaurantMenu } from '../types';
+import { getTranslations } from '../utils/translations';
+import { formatAmount, formatPrice } from '../utils/price';
+import { ALLERGENS, DIETARY_TAGS, spiceIcons } from '../utils/dietary';
+import { describeSchedule } from '../utils/availability';
+import { PRINT_TEMPLATES, PrintTemplate } from '../utils/printTemplates';
+
+interface MenuPrintViewProps {
+  menu: RestaurantMenu;
+  template: PrintTemplate;
+  qrValue: string;
+}
+
+// Only visible when printing. The browser paginates; categories stay on one page unless they are longer than a page.
+const MenuPrintView: React.FC<MenuPrintViewProps> = ({ menu, template, qrValue }) => {
+  const t = getTranslations(menu.language);
+  const style = PRINT_TEMPLATES[template];
+
+  const describeOptions = (item: MenuItem) => (item.optionGroups || [])
+    .filter(group => group.options.length > 0)
+    .map(group => `${group.name}: ${group.options.map(option => option.priceDelta
+      ? `${option.name} (+${formatAmount(option.priceDelta, menu.currency, menu.language)})`
+      : option.name).join(', ')}`);
+
+  return (
+    <div className="hidden print:block" style={{ printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}>
+      <style>{`@page { ${style.page} }`}</style>
+      {style.background && <div className={`fixed inset-0 ${style.background}`} />}
+
+      <div className={`relative ${style.body}`}>
+        <header className={style.header}>
+          {menu.logo && <img src={menu.logo} alt="Logo" className={`object-contain ${template === 'twoColumn' ? 'w-20 h-20' : 'w-28 h-28 mx-auto mb-4'}`} />}
+          <div>
+            <h1 className="text-4xl font-extrabold uppercase tracking-tight">{menu.name}</h1>
+            {menu.businessType && <p className={`text-sm font-bold uppercase tracking-[0.2em] mt-1 ${style.muted}`}>{menu.businessType}</p>}
+            {menu.whatsapp && <p className={`text-xs mt-1 ${style.muted}`}>WhatsApp: {menu.whatsapp}</p>}
+          </div>
+        </header>
+
+        <div className={style.content}>
+          {menu.categories.filter(cat => cat.items.length > 0).map(cat => (
+            <section key={cat.id} className={style.category}>
+              <h2 className={style.categoryTitle}>{cat.title}</h2>
+              {cat.schedule?.length ? <p className={`text-xs text-center -mt-3 mb-4 ${style.muted}`}>{describeSchedule(cat.schedule, menu.language)}</p> : null}
+              <div className="space-y-4">
+                {cat.items.map(item => {
+                  const options = describeOptions(item);
+                  return (
+                    <div key={item.id} className="break-inside-avoid">
+                      <div className="flex justify-between items-baseline gap-4">
+                        <h3 className={style.itemName}>
+                          {item.name}
+                          {item.spiceLevel ? <span className="ml-1.5 text-xs">{spiceIcons(item.spiceLevel)}</span> : null}
+                        </h3>
+                        <span className={style.price}>{formatPrice(item.price, menu.currency, menu.language)}</span>
+                      </div>
+                      {item.description && <p className={`text-sm leading-snug ${style.muted}`}>{item.description}</p>}
+                      {options.map(line => <p key={line} className={`text-xs mt-0.5 ${style.muted}`}>{line}</p>)}
+                      {(item.dietary?.length || item.allergens?.length || item.schedule?.length) ? (
+                        <div className="flex flex-wrap items-center gap-1 mt-1 text-[10px]">
+                          {(item.dietary || []).map(tag => (
+                            <span key={tag} className={`px-1.5 rounded ${style.tag}`}>{DIETARY_TAGS[tag].icon} {t[DIETARY_TAGS[tag].labelKey]}</span>
+                          ))}
+                          {item.allergens?.length ? (
+                            <span className={style.muted}>{t.containsAllergens}: {item.allergens.map(allergen => t[ALLERGENS[allergen].labelKey]).join(', ')}</span>
+                          ) : null}
+                          {item.schedule?.length ? <span className={style.muted}>{describeSchedule(item.schedule, menu.language)}</span> : null}
+                        </div>
+                      ) : null}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        <footer className="text-center mt-14 pt-8 break-inside-avoid">
+          <div className="inline-block p-2 bg-white rounded-lg">
+            <QRCode value={qrValue} size={96} />
+          </div>
+          <p className={`text-[10px] mt-2 uppercase tracking-widest ${style.muted}`}>{t.qrScanHint}</p>
+          <p className={`text-[10px] mt-1 ${style.muted}`}>{t.poweredBy}</p>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default MenuPrintView;
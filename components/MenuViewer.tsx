@@ -1,23 +1,57 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { useParams, Link } from 'react-router-dom';
-import { RestaurantMenu, ChatMessage, MenuItem } from '../types';
-import { getMenu, getMenuBySlug } from '../services/storageService';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { RestaurantMenu, ChatMessage, MenuItem, MenuCategory, MenuLayout, AnalyticsEvent, AnalyticsEventType } from '../types';
+import { getPublishedMenu, getPublishedMenuBySlug, subscribeToPublishedMenu } from '../services/storageService';
+import { cacheMenuForOffline, getOfflineMenu } from '../services/offlineCache';
+import { trackEvent } from '../services/analyticsService';
+import { findTable } from '../utils/tables';
 import { chatWithMenu } from '../services/geminiService';
-import { Utensils, AlertCircle, MessageCircle, Globe, Bot, X, Send, Store, Search, ChevronRight, Plus, Minus, ShoppingBag, Bell, Star, Sparkles, Moon, Sun } from 'lucide-react';
-import { translations } from '../utils/translations';
+import { Utensils, AlertCircle, MessageCircle, Globe, Bot, X, Send, Store, Search, ChevronRight, Plus, Minus, ShoppingBag, Bell, Star, Sparkles, Moon, Sun, MapPin, Clock, SlidersHorizontal } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { formatAmount, formatPrice } from '../utils/price';
+import { CartLine, CartNotice, OptionSelections, getCartLineKey, hasOptions, getUnitPrice, describeSelections, reconcileCart } from '../utils/cart';
+import { ItemAvailability, describeSchedule, getItemAvailability, getZonedTime, isWithinSchedule } from '../utils/availability';
+import { ALLERGENS, ALLERGEN_IDS, DIETARY_TAGS, DIETARY_TAG_IDS, ItemFilter, emptyItemFilter, isFilterActive, matchesFilter, spiceIcons } from '../utils/dietary';
+import { getLanguageName, getMenuLocales, localizeMenu, pickLocale } from '../utils/localization';
+import { getHeaderBackground, getThemeVariables, loadThemeFonts } from '../utils/theme';
+import { MENU_LAYOUTS, getMenuLayout } from '../utils/menuLayouts';
+import OptionPicker from './OptionPicker';
+import { OrderDetails, OrderLine, emptyOrderDetails, isOrderDetailsComplete, buildOrderMessage, getWhatsAppOrderUrl, normalizeWhatsAppNumber } from '../utils/whatsappOrder';
 
 interface MenuViewerProps {
   menuProp?: RestaurantMenu | null; // For Preview Mode inside Editor
 }
 
-interface SelectedItem extends MenuItem {
-  count: number;
-}
+// Colors, radius and fonts come from CSS variables set from the menu's theme (see getThemeVariables)
+const THEME_STYLE = {
+  container: "bg-[color:var(--menu-bg)] [font-family:var(--menu-body-font)]",
+  heading: "[font-family:var(--menu-heading-font)]",
+  text: "text-[color:var(--menu-text)]",
+  muted: "text-[color:var(--menu-muted)]",
+  card: "bg-[color:var(--menu-surface)] border-[color:var(--menu-border)] shadow-sm rounded-[var(--menu-radius)]",
+  nav: "bg-[color:var(--menu-surface)] border-[color:var(--menu-border)]",
+  navBtnActive: "bg-[color:var(--menu-primary)] text-[color:var(--menu-on-primary)] shadow-md",
+  navBtnInactive: "bg-[color:var(--menu-chip)] text-[color:var(--menu-muted)] hover:text-[color:var(--menu-text)]",
+  primaryBtn: "bg-[color:var(--menu-primary)] text-[color:var(--menu-on-primary)]",
+  highlightCategory: "bg-[color:var(--menu-accent-soft)] border-[color:var(--menu-border)]",
+  modalBg: "bg-[color:var(--menu-surface)]",
+  cartBg: "bg-[color:var(--menu-surface)] border-t border-[color:var(--menu-border)]",
+};
+
+// Item containers per layout; the compact list sits in a single card
+const LAYOUT_CONTAINER: Record<MenuLayout, string> = {
+  list: "grid grid-cols-1 md:grid-cols-2 gap-4 print:block",
+  grid: "grid grid-cols-2 md:grid-cols-3 gap-3",
+  compact: `px-4 border divide-y divide-[color:var(--menu-border)] ${THEME_STYLE.card}`,
+  centered: "max-w-xl mx-auto space-y-8",
+};
 
 const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
   const { id, slug } = useParams<{ id?: string; slug?: string }>();
-  const [menu, setMenu] = useState<RestaurantMenu | null>(null);
+  const [searchParams] = useSearchParams();
+  const [sourceMenu, setSourceMenu] = useState<RestaurantMenu | null>(null);
   const [loading, setLoading] = useState(true);
+  const [locale, setLocale] = useState<string | null>(null); // Diner's pick; null follows the browser
   
   // Theme State
   const [isDarkMode, setIsDarkMode] = useState(false);
@@ -30,46 +64,127 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   // UI State
-  const [activeCategory, setActiveCategory] = useState<string>('');
+  const [activeCategory, setActiveCategory] = useState<string>(''); // Category id
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [cart, setCart] = useState<Record<string, number>>({}); // Key: categoryIndex-itemIndex
+  const [cart, setCart] = useState<Record<string, CartLine>>({}); // Key: item + chosen options
   const [showCartModal, setShowCartModal] = useState(false);
+  const [cartNotices, setCartNotices] = useState<CartNotice[]>([]); // Cart lines touched by live menu updates
+  const [optionPickerTarget, setOptionPickerTarget] = useState<string | null>(null); // Item id
+  const [orderDetails, setOrderDetails] = useState<OrderDetails>(emptyOrderDetails);
+  const [clock, setClock] = useState(() => Date.now()); // Re-evaluates schedules as time passes
+  const [filter, setFilter] = useState<ItemFilter>(emptyItemFilter);
+  const [showFilters, setShowFilters] = useState(false);
 
   // Refs for scrolling
   const categoryRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const containerRef = useRef<HTMLDivElement>(null);
+  const previousMenuRef = useRef<RestaurantMenu | null>(null);
+  const trackedOpenRef = useRef<string | null>(null); // Menu id the open event was sent for
 
   const isPreview = !!menuProp;
 
+  // The preview follows the editor's language; diners get their browser's language when it is translated
+  const menuLocales = sourceMenu ? getMenuLocales(sourceMenu) : [];
+  const activeLocale = locale && menuLocales.includes(locale)
+    ? locale
+    : pickLocale(menuLocales, isPreview ? [] : navigator.languages);
+  const menu = useMemo(
+    () => sourceMenu && localizeMenu(sourceMenu, activeLocale),
+    [sourceMenu, activeLocale]
+  );
+
+  useEffect(() => {
+    if (menu) loadThemeFonts(menu.theme.fonts);
+  }, [menu?.theme.fonts]);
+
   useEffect(() => {
     if (menuProp) {
-        setMenu(menuProp);
+        setSourceMenu(menuProp);
         setLoading(false);
         // Only update active category if it's currently empty or invalid, 
         // to prevent resetting user's scroll position during live editing.
         setActiveCategory(prev => {
-             const exists = menuProp.categories.some(c => c.title === prev);
+             const exists = menuProp.categories.some(c => c.id === prev);
              if (exists && prev !== '') return prev;
-             return menuProp.categories.length > 0 ? menuProp.categories[0].title : '';
+             return menuProp.categories.length > 0 ? menuProp.categories[0].id : '';
         });
         return;
     }
 
+    const showMenu = (foundMenu: RestaurantMenu) => {
+        if (!foundMenu.language) foundMenu.language = 'pt';
+        setSourceMenu(foundMenu);
+        setActiveCategory(prev => foundMenu.categories.some(c => c.id === prev) ? prev : foundMenu.categories[0]?.id || '');
+        setLoading(false);
+    };
+
     const loadMenu = async () => {
+        // A copy from an earlier visit shows up right away, even offline; the network refreshes it
+        const offlineMenu = await getOfflineMenu({ id, slug });
+        if (offlineMenu) showMenu(offlineMenu);
+
         let foundMenu: RestaurantMenu | null = null;
-        if (slug) foundMenu = await getMenuBySlug(slug);
-        else if (id) foundMenu = await getMenu(id);
+        if (slug) foundMenu = await getPublishedMenuBySlug(slug);
+        else if (id) foundMenu = await getPublishedMenu(id);
 
         if (foundMenu) {
-            if (!foundMenu.language) foundMenu.language = 'pt';
-            setMenu(foundMenu);
-            if (foundMenu.categories.length > 0) setActiveCategory(foundMenu.categories[0].title);
+            showMenu(foundMenu);
+            cacheMenuForOffline(foundMenu);
         }
         setLoading(false);
     };
     loadMenu();
+
+    // Sold-out flags and prices change during service; diners see them without reloading
+    return subscribeToPublishedMenu({ id, slug }, (liveMenu) => {
+        showMenu(liveMenu);
+        cacheMenuForOffline(liveMenu);
+    });
   }, [id, slug, menuProp]);
 
+  // Set when the diner scanned a table's QR code
+  const table = isPreview ? undefined : findTable(sourceMenu, searchParams.get('table'));
+
+  // --- Analytics (diners only; the editor preview is never tracked) ---
+  const track = (type: AnalyticsEventType, details: Pick<AnalyticsEvent, 'itemId' | 'categoryId' | 'source'> = {}) => {
+    if (sourceMenu && !isPreview) trackEvent(sourceMenu.id, type, { ...details, tableId: table?.id });
+  };
+
+  useEffect(() => {
+    if (!sourceMenu || isPreview || trackedOpenRef.current === sourceMenu.id) return;
+    trackedOpenRef.current = sourceMenu.id;
+    track('menuOpen', { source: searchParams.get('src') === 'qr' ? 'qr' : 'link' });
+  }, [sourceMenu?.id, isPreview]);
+
+  // Orders from a table's code go to that table
+  useEffect(() => {
+    if (table) setOrderDetails(prev => ({ ...prev, fulfillment: 'table', tableNumber: table.name }));
+  }, [table?.id, table?.name]);
+
+  // Fed by the scroll spy and the category tabs
+  useEffect(() => {
+    if (activeCategory) track('categoryView', { categoryId: activeCategory });
+  }, [activeCategory]);
+
+  // Live updates may change what is already in the cart
+  useEffect(() => {
+    const previous = previousMenuRef.current;
+    previousMenuRef.current = menu;
+    if (!previous || !menu || isPreview || previous.id !== menu.id) return;
+    const { cart: reconciled, notices } = reconcileCart(cart, previous, menu);
+    if (notices.length === 0) return;
+    setCart(reconciled);
+    setCartNotices(prev => [
+        ...prev.filter(notice => !notices.some(n => n.key === notice.key && n.kind === notice.kind)),
+        ...notices
+    ]);
+  }, [menu]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setClock(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
   // Scroll Spy for Categories
   useEffect(() => {
     const handleScroll = () => {
@@ -84,7 +199,7 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
         }
 
         for (const cat of menu.categories) {
-            const el = categoryRefs.current[cat.title];
+            const el = categoryRefs.current[cat.id];
             if (el) {
                 const rect = el.getBoundingClientRect();
                 // Check if element is near the top of the view area
@@ -92,7 +207,7 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
                 
                 // 220px offset to account for header + nav bar
                 if (relativeTop >= 0 && relativeTop <= 220) {
-                    setActiveCategory(cat.title);
+                    setActiveCategory(cat.id);
                     break;
                 }
             }
@@ -110,9 +225,9 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
     }
   }, [chatMessages, showChat]);
 
-  const scrollToCategory = (title: string) => {
-      setActiveCategory(title);
-      const el = categoryRefs.current[title];
+  const scrollToCategory = (categoryId: string) => {
+      setActiveCategory(categoryId);
+      const el = categoryRefs.current[categoryId];
       if (el) {
           if (isPreview && containerRef.current) {
               // Scroll inside container
@@ -127,37 +242,82 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
       }
   };
 
-  const updateCart = (catIdx: number, itemIdx: number, delta: number) => {
-      const key = `${catIdx}-${itemIdx}`;
+  const findItemEntry = (itemId: string): { item: MenuItem; category: MenuCategory } | undefined => {
+      for (const category of menu?.categories || []) {
+          const item = category.items.find(i => i.id === itemId);
+          if (item) return { item, category };
+      }
+      return undefined;
+  };
+
+  const findItem = (itemId: string) => findItemEntry(itemId)?.item;
+
+  // Schedules are evaluated in the restaurant's timezone
+  const zonedNow = getZonedTime(menu?.timezone, new Date(clock));
+
+  const getAvailability = (itemId: string): ItemAvailability => {
+      const entry = findItemEntry(itemId);
+      return entry ? getItemAvailability(entry.item, entry.category, zonedNow) : 'soldOut';
+  };
+
+  const addToCart = (itemId: string, selections: OptionSelections = {}, quantity = 1) => {
+      if (getAvailability(itemId) !== 'available') return;
+      const key = getCartLineKey(itemId, selections);
+      track('cartAdd', { itemId });
+      setCart(prev => ({
+          ...prev,
+          [key]: { key, itemId, selections, quantity: (prev[key]?.quantity || 0) + quantity }
+      }));
+  };
+
+  const updateCartLine = (key: string, delta: number) => {
+      if (cart[key]) track(delta > 0 ? 'cartAdd' : 'cartRemove', { itemId: cart[key].itemId });
       setCart(prev => {
-          const current = prev[key] || 0;
-          const newCount = Math.max(0, current + delta);
-          const newCart = { ...prev, [key]: newCount };
-          if (newCount === 0) delete newCart[key];
+          const line = prev[key];
+          if (!line) return prev;
+          const newCart = { ...prev, [key]: { ...line, quantity: Math.max(0, line.quantity + delta) } };
+          if (newCart[key].quantity === 0) delete newCart[key];
           return newCart;
       });
   };
 
-  const getTotalItems = () => Object.values(cart).reduce((a, b) => a + b, 0);
+  // Items with option groups go through the picker before landing in the cart
+  const handleAddItem = (item: MenuItem) => {
+      if (getAvailability(item.id) !== 'available') return;
+      if (hasOptions(item)) setOptionPickerTarget(item.id);
+      else addToCart(item.id);
+  };
+
+  const getCartEntries = () => (Object.values(cart) as CartLine[])
+      .map(line => ({ line, item: findItem(line.itemId) }))
+      .filter((entry): entry is { line: CartLine; item: MenuItem } => !!entry.item);
+
+  const getCartLines = (): OrderLine[] => getCartEntries().map(({ line, item }) => {
+      const optionsLabel = describeSelections(item, line.selections);
+      return {
+          name: optionsLabel ? `${item.name} (${optionsLabel})` : item.name,
+          quantity: line.quantity,
+          unitPrice: getUnitPrice(item, line.selections)
+      };
+  });
+
+  const getItemCount = (itemId: string) => (Object.values(cart) as CartLine[])
+      .filter(line => line.itemId === itemId)
+      .reduce((sum, line) => sum + line.quantity, 0);
+
+  const getTotalItems = () => (Object.values(cart) as CartLine[]).reduce((sum, line) => sum + line.quantity, 0);
   
-  const getTotalPrice = () => {
-      if (!menu) return 0;
-      let total = 0;
-      Object.entries(cart).forEach(([key, count]) => {
-          const [cIdx, iIdx] = key.split('-').map(Number);
-          const item = menu.categories[cIdx]?.items[iIdx];
-          if (item) {
-              // Extract numeric price
-              const priceStr = item.price.replace(/[^0-9.,]/g, '').replace(',', '.');
-              const price = parseFloat(priceStr) || 0;
-              total += price * count;
-          }
-      });
-      return total.toFixed(2);
+  const formatMoney = (amount: number) => formatAmount(amount, menu?.currency || 'BRL', menu?.language || 'pt');
+
+  const getTotalPrice = () => formatMoney(getCartLines().reduce((total, line) => total + line.unitPrice * line.quantity, 0));
+
+  const updateOrderDetails = (field: keyof OrderDetails, value: string) => {
+      setOrderDetails(prev => ({ ...prev, [field]: value }));
   };
 
   const handleSendMessage = async () => {
     if (!chatInput.trim() || !menu) return;
+    track('chatQuestion'); // The question itself is not recorded
     const userMsg: ChatMessage = { role: 'user', text: chatInput };
     setChatMessages(prev => [...prev, userMsg]);
     setChatInput('');
@@ -174,7 +334,7 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
 
   if (loading) return <div className="min-h-screen flex items-center justify-center bg-slate-50"><div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-brand-600"></div></div>;
 
-  const t = translations[menu?.language || 'pt'];
+  const t = getTranslations(menu?.language);
 
   if (!menu) return (
       <div className="min-h-screen flex flex-col items-center justify-center p-6 text-center">
@@ -184,109 +344,188 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
       </div>
   );
 
-  const toggleLanguage = () => {
-    const newLang = menu.language === 'en' ? 'pt' : 'en';
-    setMenu({ ...menu, language: newLang });
+  const themeStyle = THEME_STYLE;
+
+  const hasTags = menu.categories.some(cat => cat.items.some(item => item.dietary?.length || item.allergens?.length || item.spiceLevel));
+  const filterActive = isFilterActive(filter);
+  const getVisibleItems = (category: MenuCategory) => category.items.filter(item => matchesFilter(item, filter));
+  const visibleCategories = menu.categories.filter(cat => !filterActive || getVisibleItems(cat).length > 0);
+  const toggleInFilter = <K extends 'dietary' | 'avoidAllergens'>(key: K, value: ItemFilter[K][number]) => {
+      setFilter(prev => {
+          const list = prev[key] as string[];
+          return { ...prev, [key]: list.includes(value) ? list.filter(v => v !== value) : [...list, value] };
+      });
   };
+  const filterChipClass = (active: boolean) => `whitespace-nowrap px-3 py-1 rounded-full text-xs font-bold transition-colors ${active ? themeStyle.navBtnActive : themeStyle.navBtnInactive}`;
+
+  const hasWhatsApp = normalizeWhatsAppNumber(menu.whatsapp).length > 0;
+  const hasUnavailableLines = getCartEntries().some(({ item }) => getAvailability(item.id) !== 'available');
+  const canCheckout = hasWhatsApp && getTotalItems() > 0 && !hasUnavailableLines && isOrderDetailsComplete(orderDetails);
 
-  const themeClasses: Record<string, string> = {
-    orange: 'from-orange-500 to-orange-600',
-    red: 'from-red-600 to-red-700',
-    slate: 'from-slate-800 to-slate-900',
-    emerald: 'from-emerald-500 to-emerald-600',
-    blue: 'from-blue-600 to-blue-700',
+  // The message is written in the language the diner is reading the menu in
+  const handleCheckout = () => {
+      if (!menu.whatsapp || !canCheckout) return;
+      const message = buildOrderMessage(menu.name, getCartLines(), orderDetails, t, formatMoney);
+      window.open(getWhatsAppOrderUrl(menu.whatsapp, message), '_blank', 'noopener,noreferrer');
   };
-  const gradient = themeClasses[menu.themeColor] || 'from-slate-800 to-slate-900';
-
-  // --- Theme Styles Logic ---
-  const getThemeStyles = () => {
-    if (!isDarkMode) return {
-        container: "bg-slate-50",
-        text: "text-slate-900",
-        muted: "text-slate-500",
-        card: "bg-white border-slate-100 shadow-sm",
-        nav: "bg-white border-slate-100",
-        navBtnActive: "bg-slate-900 text-white shadow-md",
-        navBtnInactive: "bg-slate-100 text-slate-600 hover:bg-slate-200",
-        highlightCategory: "bg-amber-50/50 border-amber-100/50",
-        highlightText: "text-slate-900",
-        modalBg: "bg-white",
-        modalText: "text-slate-900",
-        cartBg: "bg-white border-t border-slate-200"
-    };
+  const orderInputClass = `w-full px-3 py-2 rounded-lg text-sm outline-none border ${isDarkMode ? 'bg-black/30 border-white/10 text-white placeholder-white/40' : 'bg-white border-slate-200 text-slate-900'}`;
 
-    const color = menu.themeColor || 'slate';
-    const styles: any = {
-        container: "bg-slate-950",
-        text: "text-slate-50",
-        muted: "text-slate-400",
-        card: "bg-slate-900 border-slate-800 shadow-none",
-        nav: "bg-slate-950 border-slate-900",
-        navBtnActive: "bg-white text-slate-900",
-        navBtnInactive: "bg-slate-900 text-slate-400 hover:bg-slate-800",
-        highlightCategory: "bg-amber-900/10 border-amber-500/10",
-        highlightText: "text-amber-100",
-        modalBg: "bg-slate-900",
-        modalText: "text-slate-50",
-        cartBg: "bg-slate-900 border-t border-slate-800"
-    };
+  // --- Items ---
+  // Every layout shares the same tags, availability badge and cart controls
 
-    // Override based on color
-    if (color === 'orange') {
-        styles.container = "bg-orange-950";
-        styles.text = "text-orange-50";
-        styles.muted = "text-orange-200/60";
-        styles.card = "bg-orange-900/20 border-orange-500/10";
-        styles.nav = "bg-orange-950 border-orange-900/50";
-        styles.navBtnActive = "bg-orange-100 text-orange-900";
-        styles.navBtnInactive = "bg-orange-900/40 text-orange-200 hover:bg-orange-900/60";
-        styles.modalBg = "bg-orange-950";
-        styles.cartBg = "bg-orange-950 border-t border-orange-900";
-    } else if (color === 'red') {
-        styles.container = "bg-red-950";
-        styles.text = "text-red-50";
-        styles.muted = "text-red-200/60";
-        styles.card = "bg-red-900/20 border-red-500/10";
-        styles.nav = "bg-red-950 border-red-900/50";
-        styles.navBtnActive = "bg-red-100 text-red-900";
-        styles.navBtnInactive = "bg-red-900/40 text-red-200 hover:bg-red-900/60";
-        styles.modalBg = "bg-red-950";
-        styles.cartBg = "bg-red-950 border-t border-red-900";
-    } else if (color === 'emerald') {
-        styles.container = "bg-emerald-950";
-        styles.text = "text-emerald-50";
-        styles.muted = "text-emerald-200/60";
-        styles.card = "bg-emerald-900/20 border-emerald-500/10";
-        styles.nav = "bg-emerald-950 border-emerald-900/50";
-        styles.navBtnActive = "bg-emerald-100 text-emerald-900";
-        styles.navBtnInactive = "bg-emerald-900/40 text-emerald-200 hover:bg-emerald-900/60";
-        styles.modalBg = "bg-emerald-950";
-        styles.cartBg = "bg-emerald-950 border-t border-emerald-900";
-    } else if (color === 'blue') {
-        styles.container = "bg-blue-950";
-        styles.text = "text-blue-50";
-        styles.muted = "text-blue-200/60";
-        styles.card = "bg-blue-900/20 border-blue-500/10";
-        styles.nav = "bg-blue-950 border-blue-900/50";
-        styles.navBtnActive = "bg-blue-100 text-blue-900";
-        styles.navBtnInactive = "bg-blue-900/40 text-blue-200 hover:bg-blue-900/60";
-        styles.modalBg = "bg-blue-950";
-        styles.cartBg = "bg-blue-950 border-t border-blue-900";
-    }
+  const layout = getMenuLayout(menu);
+  const layoutOptions = MENU_LAYOUTS[layout];
+  const hasCart = !isPreview && layoutOptions.showCart;
+  const isCartBarVisible = hasCart && getTotalItems() > 0;
 
-    return styles;
+  const openImage = (item: MenuItem) => {
+      if (isPreview || !item.image) return;
+      setSelectedImage(item.image);
+      track('imageView', { itemId: item.id });
   };
 
-  const themeStyle = getThemeStyles();
+  const renderPrice = (item: MenuItem, className = 'text-lg') => layoutOptions.showPrices && (
+      <span className={`font-bold whitespace-nowrap ${className} ${themeStyle.text}`}>{formatPrice(item.price, menu.currency, menu.language)}</span>
+  );
+
+  const renderTags = (item: MenuItem, className = '') => (item.dietary?.length || item.allergens?.length || item.spiceLevel) ? (
+      <div className={`flex flex-wrap items-center gap-1 mt-2 text-sm ${className}`}>
+          {(item.dietary || []).map(tag => (
+              <span key={tag} title={t[DIETARY_TAGS[tag].labelKey]} className={`px-1.5 rounded-md text-[10px] font-bold flex items-center gap-0.5 ${isDarkMode ? 'bg-white/10 text-white/80' : 'bg-green-50 text-green-700'}`}>
+                  {DIETARY_TAGS[tag].icon} {t[DIETARY_TAGS[tag].labelKey]}
+              </span>
+          ))}
+          {item.spiceLevel ? <span title={t.spiceLevelLabel} className="text-xs">{spiceIcons(item.spiceLevel)}</span> : null}
+          {(item.allergens || []).map(allergen => (
+              <span key={allergen} title={`${t.containsAllergens}: ${t[ALLERGENS[allergen].labelKey]}`} className="text-xs cursor-help">{ALLERGENS[allergen].icon}</span>
+          ))}
+      </div>
+  ) : null;
+
+  const renderAvailability = (item: MenuItem, availability: ItemAvailability) => availability !== 'available' && (
+      <span className={`text-[10px] font-bold uppercase px-2 py-1 rounded-md flex items-center gap-1 ${availability === 'soldOut' ? 'bg-red-500/10 text-red-500' : themeStyle.muted}`}>
+          {availability === 'soldOut' ? t.soldOut : <><Clock size={10} /> {describeSchedule(item.schedule, menu.language) || t.notAvailableNow}</>}
+      </span>
+  );
+
+  const renderCartControls = (item: MenuItem, availability: ItemAvailability) => {
+      if (!hasCart || availability !== 'available') return null;
+      const cartKey = getCartLineKey(item.id, {});
+      const count = getItemCount(item.id);
+      return (
+          <div className={`flex items-center rounded-lg p-1 print:hidden ${isDarkMode ? 'bg-black/20' : 'bg-slate-100'}`}>
+              {count > 0 && !hasOptions(item) ? (
+                  <>
+                      <button onClick={() => updateCartLine(cartKey, -1)} className={`w-7 h-7 flex items-center justify-center rounded-md shadow-sm active:scale-95 transition-transform ${isDarkMode ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-white text-slate-700'}`}><Minus size={14}/></button>
+                      <span className={`w-8 text-center font-bold text-sm ${themeStyle.text}`}>{count}</span>
+                      <button onClick={() => addToCart(item.id)} className={`w-7 h-7 flex items-center justify-center rounded-md shadow-sm active:scale-95 transition-transform ${isDarkMode ? 'bg-white text-slate-900' : 'bg-slate-900 text-white'}`}><Plus size={14}/></button>
+                  </>
+              ) : (
+                  <button onClick={() => handleAddItem(item)} className={`px-3 py-1 text-xs font-bold rounded-md shadow-sm flex items-center gap-1 ${isDarkMode ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-white text-slate-700 hover:bg-slate-50'}`}>
+                      Add <Plus size={12}/>
+                      {count > 0 && <span className={`ml-1 px-1.5 rounded-full text-[10px] ${isDarkMode ? 'bg-white text-slate-900' : 'bg-slate-900 text-white'}`}>{count}</span>}
+                  </button>
+              )}
+          </div>
+      );
+  };
+
+  const renderItem = (item: MenuItem, category: MenuCategory) => {
+      const availability = getItemAvailability(item, category, zonedNow);
+      const dimmed = availability !== 'available' ? 'opacity-50 grayscale' : '';
+
+      if (layout === 'grid') return (
+          <div key={item.id} className={`${dimmed} border overflow-hidden flex flex-col transition-all hover:shadow-md ${themeStyle.card}`}>
+              <div
+                  onClick={() => openImage(item)}
+                  className={`aspect-[4/3] overflow-hidden relative group ${item.image ? 'cursor-pointer' : ''} ${isDarkMode ? 'bg-black/20' : 'bg-slate-100'}`}
+              >
+                  {item.image
+                      ? <img src={item.image} alt={item.name} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110" />
+                      : <div className={`w-full h-full flex items-center justify-center ${themeStyle.muted}`}><Utensils size={28} className="opacity-40" /></div>}
+              </div>
+              <div className="p-3 flex-1 flex flex-col">
+                  <h3 className={`font-bold leading-tight ${themeStyle.text}`}>{item.name}</h3>
+                  <p className={`text-xs leading-relaxed line-clamp-2 mt-1 ${themeStyle.muted}`}>{item.description}</p>
+                  {renderTags(item)}
+                  <div className="flex flex-wrap items-center justify-between gap-2 mt-auto pt-3">
+                      {renderPrice(item, 'text-base')}
+                      {renderAvailability(item, availability)}
+                      {renderCartControls(item, availability)}
+                  </div>
+              </div>
+          </div>
+      );
+
+      if (layout === 'compact') return (
+          <div key={item.id} className={`${dimmed} py-2.5 flex items-center gap-3`}>
+              <div className="flex-1 min-w-0">
+                  <div className="flex items-baseline gap-2">
+                      <h3 className={`font-bold text-sm truncate ${themeStyle.text}`}>{item.name}</h3>
+                      <span className="flex-1 border-b border-dotted border-current opacity-20" />
+                      {renderPrice(item, 'text-sm')}
+                  </div>
+                  {item.description && <p className={`text-xs truncate ${themeStyle.muted}`}>{item.description}</p>}
+                  {renderTags(item, 'mt-1')}
+              </div>
+              {renderAvailability(item, availability)}
+              {renderCartControls(item, availability)}
+          </div>
+      );
+
+      if (layout === 'centered') return (
+          <div key={item.id} className={`${dimmed} flex flex-col items-center text-center`}>
+              <h3 className={`text-lg font-bold uppercase tracking-widest ${themeStyle.heading} ${themeStyle.text}`}>{item.name}</h3>
+              <p className={`text-sm italic leading-relaxed mt-1 max-w-md ${themeStyle.muted}`}>{item.description}</p>
+              {renderTags(item, 'justify-center')}
+              {availability !== 'available' && (
+                  <div className="flex items-center gap-2 mt-3">
+                      {renderAvailability(item, availability)}
+                  </div>
+              )}
+          </div>
+      );
+
+      return (
+          <div key={item.id} className={`${dimmed} p-4 border flex gap-4 transition-all hover:shadow-md print:shadow-none print:border-none print:border-b print:border-slate-200 print:rounded-none ${themeStyle.card}`}>
+              
+              {/* Text Content */}
+              <div className="flex-1 flex flex-col justify-between">
+                  <div>
+                      <h3 className={`font-bold text-lg leading-tight mb-1 ${themeStyle.text}`}>{item.name}</h3>
+                      <p className={`text-sm leading-relaxed line-clamp-2 print:line-clamp-none ${themeStyle.muted}`}>{item.description}</p>
+                      {renderTags(item)}
+                  </div>
+                  
+                  <div className="flex items-center justify-between mt-3">
+                      {renderPrice(item)}
+                      {renderAvailability(item, availability)}
+                      {renderCartControls(item, availability)}
+                  </div>
+              </div>
+
+              {/* Image Content (Right Side for Mobile Look) */}
+              {item.image && (
+                  <div 
+                      onClick={() => openImage(item)}
+                      className={`w-28 h-28 flex-shrink-0 rounded-xl overflow-hidden cursor-pointer relative group print:hidden ${isDarkMode ? 'bg-black/20' : 'bg-slate-100'}`}
+                  >
+                      <img src={item.image} alt={item.name} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110" />
+                  </div>
+              )}
+          </div>
+      );
+  };
 
   return (
     <div 
         ref={containerRef} 
-        className={isPreview ? `h-full overflow-y-auto relative custom-scrollbar pb-32 ${themeStyle.container} transition-colors duration-300` : `min-h-screen pb-32 print:bg-white print:pb-0 font-sans ${themeStyle.container} transition-colors duration-300`}
+        style={getThemeVariables(menu.theme, isDarkMode)}
+        className={isPreview ? `h-full overflow-y-auto relative custom-scrollbar pb-32 ${themeStyle.container} transition-colors duration-300` : `min-h-screen pb-32 print:bg-white print:pb-0 ${themeStyle.container} transition-colors duration-300`}
     >
       
       {/* 1. Modern Header */}
-      <header className={`bg-gradient-to-r ${gradient} text-white pb-8 pt-12 px-6 shadow-xl relative overflow-hidden print:hidden`}>
+      <header style={{ background: getHeaderBackground(menu.theme) }} className="text-white pb-8 pt-12 px-6 shadow-xl relative overflow-hidden print:hidden">
         <div className="absolute top-0 right-0 opacity-10 transform translate-x-10 -translate-y-10"><Utensils size={200} /></div>
         
         <div className="relative z-10 flex flex-col md:flex-row items-center md:items-start gap-6 max-w-4xl mx-auto">
@@ -294,7 +533,7 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
                   {menu.logo ? <img src={menu.logo} alt="Logo" className="w-full h-full object-cover rounded-xl" /> : <div className="w-full h-full flex items-center justify-center bg-slate-100 text-slate-300"><Store size={40} /></div>}
              </div>
              <div className="text-center md:text-left flex-1">
-                 <h1 className="text-2xl md:text-4xl font-extrabold tracking-tight mb-1">{menu.name}</h1>
+                 <h1 className={`text-2xl md:text-4xl font-extrabold tracking-tight mb-1 ${themeStyle.heading}`}>{menu.name}</h1>
                  <p className="text-white/80 text-sm font-medium uppercase tracking-wider mb-3">{menu.businessType || "Digital Menu"}</p>
                  <div className="flex flex-wrap gap-2 justify-center md:justify-start">
                     {menu.whatsapp && (
@@ -303,9 +542,14 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
                         </a>
                     )}
                     
-                    <button onClick={toggleLanguage} className="bg-white/20 hover:bg-white/30 backdrop-blur-sm px-3 py-1.5 rounded-full text-xs font-bold flex items-center gap-1 transition-colors">
-                        <Globe size={14} /> {menu.language === 'en' ? 'EN' : 'PT'}
-                    </button>
+                    {menuLocales.length > 1 && (
+                        <label className="bg-white/20 hover:bg-white/30 backdrop-blur-sm pl-3 pr-2 py-1.5 rounded-full text-xs font-bold flex items-center gap-1 transition-colors cursor-pointer">
+                            <Globe size={14} />
+                            <select value={activeLocale} onChange={(e) => setLocale(e.target.value)} className="bg-transparent outline-none cursor-pointer">
+                                {menuLocales.map(code => <option key={code} value={code} className="text-slate-900">{getLanguageName(code)}</option>)}
+                            </select>
+                        </label>
+                    )}
                     
                     <button onClick={() => setIsDarkMode(!isDarkMode)} className="bg-white/20 hover:bg-white/30 backdrop-blur-sm px-3 py-1.5 rounded-full text-xs font-bold flex items-center gap-1 transition-colors">
                         {isDarkMode ? <Sun size={14} /> : <Moon size={14} />}
@@ -318,12 +562,22 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
       {/* 2. Sticky Category Navigation (Mobile App Style) */}
       <div className={`sticky top-0 z-40 border-b shadow-sm print:hidden transition-colors duration-300 ${themeStyle.nav}`}>
           <div className="max-w-4xl mx-auto flex overflow-x-auto no-scrollbar py-3 px-4 gap-2">
-              {menu.categories.map((cat, idx) => (
+              {hasTags && (
+                  <button
+                    onClick={() => setShowFilters(!showFilters)}
+                    className={`whitespace-nowrap px-3 py-2 rounded-full text-sm font-bold transition-all flex items-center gap-1 ${filterActive || showFilters ? themeStyle.navBtnActive : themeStyle.navBtnInactive}`}
+                    title={t.filterItems}
+                  >
+                      <SlidersHorizontal size={14} />
+                      {filterActive && <span className="text-[10px]">{filter.dietary.length + filter.avoidAllergens.length + (filter.mildOnly ? 1 : 0)}</span>}
+                  </button>
+              )}
+              {visibleCategories.map((cat) => (
                   <button 
-                    key={idx}
-                    onClick={() => scrollToCategory(cat.title)}
+                    key={cat.id}
+                    onClick={() => scrollToCategory(cat.id)}
                     className={`whitespace-nowrap px-4 py-2 rounded-full text-sm font-bold transition-all flex items-center gap-1 ${
-                        activeCategory === cat.title 
+                        activeCategory === cat.id 
                         ? `${themeStyle.navBtnActive} transform scale-105` 
                         : themeStyle.navBtnInactive
                     }`}
@@ -333,80 +587,65 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
                   </button>
               ))}
           </div>
+          {showFilters && (
+              <div className="max-w-4xl mx-auto px-4 pb-3 space-y-2 animate-in fade-in slide-in-from-top-2 duration-200">
+                  <div className="flex flex-wrap gap-1.5">
+                      {DIETARY_TAG_IDS.map(tag => (
+                          <button key={tag} onClick={() => toggleInFilter('dietary', tag)} className={filterChipClass(filter.dietary.includes(tag))}>
+                              {DIETARY_TAGS[tag].icon} {t[DIETARY_TAGS[tag].labelKey]}
+                          </button>
+                      ))}
+                      <button onClick={() => setFilter(prev => ({ ...prev, mildOnly: !prev.mildOnly }))} className={filterChipClass(filter.mildOnly)}>
+                          🚫🌶️ {t.mildOnly}
+                      </button>
+                  </div>
+                  <div className="flex flex-wrap gap-1.5 items-center">
+                      <span className={`text-[10px] font-bold uppercase mr-1 ${themeStyle.muted}`}>{t.avoidAllergens}</span>
+                      {ALLERGEN_IDS.map(allergen => (
+                          <button key={allergen} onClick={() => toggleInFilter('avoidAllergens', allergen)} className={filterChipClass(filter.avoidAllergens.includes(allergen))}>
+                              {ALLERGENS[allergen].icon} {t[ALLERGENS[allergen].labelKey]}
+                          </button>
+                      ))}
+                  </div>
+                  <div className="flex justify-between items-start gap-3">
+                      <p className={`text-[10px] leading-snug ${themeStyle.muted}`}>{t.allergenDisclaimer}</p>
+                      {filterActive && <button onClick={() => setFilter(emptyItemFilter)} className={`text-xs font-bold underline flex-shrink-0 ${themeStyle.text}`}>{t.clearFilters}</button>}
+                  </div>
+              </div>
+          )}
       </div>
 
       {/* 3. Main Content */}
       <main className="max-w-4xl mx-auto px-4 py-6 space-y-8 print:max-w-none print:px-0">
-        {menu.categories.map((category, catIdx) => (
+        {filterActive && visibleCategories.length === 0 && (
+            <p className={`text-center py-16 ${themeStyle.muted}`}>{t.noItemsMatchFilter}</p>
+        )}
+        {visibleCategories.map((category) => (
           <div 
-            key={catIdx} 
-            ref={(el) => { categoryRefs.current[category.title] = el; }}
-            className={`scroll-mt-32 transition-colors duration-300 ${category.highlight ? `${themeStyle.highlightCategory} -mx-4 px-4 py-6 rounded-3xl border` : ''}`}
+            key={category.id} 
+            ref={(el) => { categoryRefs.current[category.id] = el; }}
+            className={`scroll-mt-32 transition-colors duration-300 ${category.highlight ? `${themeStyle.highlightCategory} -mx-4 px-4 py-6 rounded-[var(--menu-radius)] border` : ''}`}
           >
-            <h2 className={`text-xl font-bold mb-4 flex items-center gap-2 print:text-2xl print:border-b print:border-black print:pb-1 ${category.highlight ? themeStyle.highlightText : themeStyle.text}`}>
-                {category.highlight && <Sparkles className="text-amber-500 fill-amber-500" size={20} />}
+            <h2 className={`text-xl font-bold mb-4 flex items-center gap-2 print:text-2xl print:border-b print:border-black print:pb-1 ${layout === 'centered' ? 'justify-center text-center' : ''} ${themeStyle.heading} ${themeStyle.text}`}>
+                {category.highlight && <Sparkles className="text-[color:var(--menu-accent)] fill-[color:var(--menu-accent)]" size={20} />}
                 {category.title} 
-                <span className={`h-1 flex-1 rounded-full print:hidden ${category.highlight ? 'bg-amber-500/30' : 'bg-slate-200/20'}`}></span>
+                <span className={`h-1 flex-1 rounded-full print:hidden ${layout === 'centered' ? 'hidden' : ''} ${category.highlight ? 'bg-[color:var(--menu-accent)] opacity-30' : 'bg-slate-200/20'}`}></span>
             </h2>
+            {!isWithinSchedule(category.schedule, zonedNow) && (
+                <p className={`-mt-2 mb-4 text-xs font-bold flex items-center gap-1 print:hidden ${layout === 'centered' ? 'justify-center' : ''} ${themeStyle.muted}`}>
+                    <Clock size={12} /> {t.availableDuring} {describeSchedule(category.schedule, menu.language)}
+                </p>
+            )}
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 print:block">
-              {category.items.map((item, itemIdx) => {
-                const cartKey = `${catIdx}-${itemIdx}`;
-                const count = cart[cartKey] || 0;
-
-                return (
-                    <div key={itemIdx} className={`p-4 rounded-2xl border flex gap-4 transition-all hover:shadow-md print:shadow-none print:border-none print:border-b print:border-slate-200 print:rounded-none ${themeStyle.card}`}>
-                        
-                        {/* Text Content */}
-                        <div className="flex-1 flex flex-col justify-between">
-                            <div>
-                                <div className="flex justify-between items-start">
-                                    <h3 className={`font-bold text-lg leading-tight mb-1 ${themeStyle.text}`}>{item.name}</h3>
-                                </div>
-                                <p className={`text-sm leading-relaxed line-clamp-2 print:line-clamp-none ${themeStyle.muted}`}>{item.description}</p>
-                            </div>
-                            
-                            <div className="flex items-center justify-between mt-3">
-                                <span className={`font-bold text-lg ${themeStyle.text}`}>{item.price}</span>
-                                
-                                {/* Add to Cart UI */}
-                                {!isPreview && (
-                                    <div className={`flex items-center rounded-lg p-1 print:hidden ${isDarkMode ? 'bg-black/20' : 'bg-slate-100'}`}>
-                                        {count > 0 ? (
-                                            <>
-                                                <button onClick={() => updateCart(catIdx, itemIdx, -1)} className={`w-7 h-7 flex items-center justify-center rounded-md shadow-sm active:scale-95 transition-transform ${isDarkMode ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-white text-slate-700'}`}><Minus size={14}/></button>
-                                                <span className={`w-8 text-center font-bold text-sm ${themeStyle.text}`}>{count}</span>
-                                                <button onClick={() => updateCart(catIdx, itemIdx, 1)} className={`w-7 h-7 flex items-center justify-center rounded-md shadow-sm active:scale-95 transition-transform ${isDarkMode ? 'bg-white text-slate-900' : 'bg-slate-900 text-white'}`}><Plus size={14}/></button>
-                                            </>
-                                        ) : (
-                                            <button onClick={() => updateCart(catIdx, itemIdx, 1)} className={`px-3 py-1 text-xs font-bold rounded-md shadow-sm flex items-center gap-1 ${isDarkMode ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-white text-slate-700 hover:bg-slate-50'}`}>
-                                                Add <Plus size={12}/>
-                                            </button>
-                                        )}
-                                    </div>
-                                )}
-                            </div>
-                        </div>
-
-                        {/* Image Content (Right Side for Mobile Look) */}
-                        {item.image && (
-                            <div 
-                                onClick={() => !isPreview && setSelectedImage(item.image || null)}
-                                className={`w-28 h-28 flex-shrink-0 rounded-xl overflow-hidden cursor-pointer relative group print:hidden ${isDarkMode ? 'bg-black/20' : 'bg-slate-100'}`}
-                            >
-                                <img src={item.image} alt={item.name} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110" />
-                            </div>
-                        )}
-                    </div>
-                );
-              })}
+            <div className={LAYOUT_CONTAINER[layout]}>
+              {getVisibleItems(category).map(item => renderItem(item, category))}
             </div>
           </div>
         ))}
       </main>
 
       {/* 4. Sticky Bottom Bar (Summary) */}
-      {!isPreview && getTotalItems() > 0 && (
+      {isCartBarVisible && (
           <div className={`fixed bottom-0 left-0 right-0 p-4 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1)] z-40 print:hidden animate-in slide-in-from-bottom duration-300 ${themeStyle.cartBg}`}>
               <div className="max-w-4xl mx-auto flex justify-between items-center">
                   <div 
@@ -421,7 +660,7 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
                   </div>
                   <button 
                     onClick={() => setShowCartModal(true)}
-                    className="bg-brand-600 text-white px-6 py-3 rounded-xl font-bold flex items-center gap-2 shadow-lg shadow-brand-500/20 active:scale-95 transition-transform"
+                    className={`${themeStyle.primaryBtn} px-6 py-3 rounded-xl font-bold flex items-center gap-2 shadow-lg active:scale-95 transition-transform`}
                   >
                       <ShoppingBag size={18} /> View List
                   </button>
@@ -429,9 +668,31 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
           </div>
       )}
 
+      {/* Live update notices for the cart */}
+      {hasCart && cartNotices.length > 0 && (
+          <div className={`fixed left-4 right-4 z-50 max-w-md mx-auto rounded-xl shadow-2xl p-4 print:hidden animate-in slide-in-from-bottom duration-300 bg-amber-50 border border-amber-200 text-amber-900 ${isCartBarVisible ? 'bottom-24' : 'bottom-6'}`}>
+              <div className="flex items-start justify-between gap-3">
+                  <div className="space-y-1 text-sm">
+                      <p className="font-bold flex items-center gap-1.5"><Bell size={14} /> {t.menuUpdated}</p>
+                      <ul className="space-y-0.5 text-xs">
+                          {cartNotices.map(notice => (
+                              <li key={`${notice.key}-${notice.kind}`}>
+                                  <strong>{notice.itemName}</strong>{' '}
+                                  {notice.kind === 'priceChanged' && `${t.nowCosts} ${formatMoney(notice.after!)} (${t.wasPrice} ${formatMoney(notice.before!)})`}
+                                  {notice.kind === 'soldOut' && t.itemNowSoldOut}
+                                  {notice.kind === 'removed' && t.itemRemovedFromOrder}
+                              </li>
+                          ))}
+                      </ul>
+                  </div>
+                  <button onClick={() => setCartNotices([])} className="p-1 rounded text-amber-700 hover:bg-amber-100"><X size={16} /></button>
+              </div>
+          </div>
+      )}
+
       {/* 5. Floating Chat Button (Moved up slightly if cart is visible) */}
       {!isPreview && (
-        <div className={`fixed right-6 flex flex-col gap-3 z-30 items-end transition-all duration-300 print:hidden ${getTotalItems() > 0 ? 'bottom-24' : 'bottom-6'}`}>
+        <div className={`fixed right-6 flex flex-col gap-3 z-30 items-end transition-all duration-300 print:hidden ${isCartBarVisible ? 'bottom-24' : 'bottom-6'}`}>
             <button onClick={() => setShowChat(!showChat)} className="bg-slate-900 text-white p-4 rounded-full shadow-lg hover:bg-slate-800 transition-transform hover:scale-105 flex items-center justify-center">
                 {showChat ? <X size={24} /> : <Bot size={24} />}
             </button>
@@ -440,7 +701,7 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
 
       {/* Chat Bot Interface */}
       {showChat && !isPreview && (
-        <div className={`fixed right-4 sm:right-6 w-80 max-w-[calc(100vw-2rem)] rounded-2xl shadow-2xl border overflow-hidden flex flex-col z-50 h-96 animate-in slide-in-from-bottom-10 fade-in duration-200 print:hidden ${getTotalItems() > 0 ? 'bottom-40' : 'bottom-24'} ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <div className={`fixed right-4 sm:right-6 w-80 max-w-[calc(100vw-2rem)] rounded-2xl shadow-2xl border overflow-hidden flex flex-col z-50 h-96 animate-in slide-in-from-bottom-10 fade-in duration-200 print:hidden ${isCartBarVisible ? 'bottom-40' : 'bottom-24'} ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
             <div className="bg-slate-900 text-white p-3 flex justify-between items-center">
                 <div className="flex items-center gap-2 font-bold text-sm"><Bot size={16} /> {t.askAi}</div>
                 <button onClick={() => setShowChat(false)} className="text-white/70 hover:text-white"><X size={18} /></button>
@@ -449,7 +710,7 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
                 {chatMessages.length === 0 && <div className={`text-center text-xs mt-4 ${themeStyle.muted}`}><p>{t.chatPlaceholder}</p></div>}
                 {chatMessages.map((msg, i) => (
                     <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                        <div className={`max-w-[85%] rounded-xl p-2 text-sm ${msg.role === 'user' ? 'bg-brand-600 text-white' : isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-200' : 'bg-white border-slate-200 text-slate-700'}`}>{msg.text}</div>
+                        <div className={`max-w-[85%] rounded-xl p-2 text-sm ${msg.role === 'user' ? themeStyle.primaryBtn : isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-200' : 'bg-white border-slate-200 text-slate-700'}`}>{msg.text}</div>
                     </div>
                 ))}
                 {isChatLoading && <div className={`text-xs ml-2 ${themeStyle.muted}`}>Typing...</div>}
@@ -457,37 +718,38 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
             </div>
             <div className={`p-3 border-t flex gap-2 ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-100'}`}>
                 <input className={`flex-1 rounded-lg px-3 py-2 text-sm outline-none ${isDarkMode ? 'bg-slate-800 text-white placeholder-slate-500' : 'bg-slate-100'}`} value={chatInput} onChange={(e) => setChatInput(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()} placeholder="Ask..." />
-                <button onClick={handleSendMessage} disabled={!chatInput.trim()} className="bg-brand-600 text-white p-2 rounded-lg"><Send size={16} /></button>
+                <button onClick={handleSendMessage} disabled={!chatInput.trim()} className={`${themeStyle.primaryBtn} p-2 rounded-lg`}><Send size={16} /></button>
             </div>
         </div>
       )}
 
       {/* Cart/Selection Modal */}
-      {showCartModal && (
+      {hasCart && showCartModal && (
           <div className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm flex items-end sm:items-center justify-center sm:p-4 animate-in fade-in duration-200">
               <div className={`w-full max-w-md sm:rounded-3xl rounded-t-3xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] animate-in slide-in-from-bottom duration-300 ${themeStyle.modalBg}`}>
                   <div className={`p-4 border-b flex justify-between items-center ${isDarkMode ? 'border-white/10 bg-black/20' : 'border-slate-100 bg-slate-50'}`}>
-                      <h3 className={`font-bold text-lg flex items-center gap-2 ${themeStyle.modalText}`}><ShoppingBag size={20}/> Your Selection</h3>
+                      <h3 className={`font-bold text-lg flex items-center gap-2 ${themeStyle.text}`}><ShoppingBag size={20}/> Your Selection</h3>
                       <button onClick={() => setShowCartModal(false)} className={`p-2 rounded-full ${isDarkMode ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-900'}`}><X size={18}/></button>
                   </div>
                   <div className="flex-1 overflow-y-auto p-4 space-y-4">
                       {Object.keys(cart).length === 0 ? (
                           <div className={`text-center py-10 ${themeStyle.muted}`}>Empty selection</div>
                       ) : (
-                          Object.entries(cart).map(([key, count]) => {
-                              const [cIdx, iIdx] = key.split('-').map(Number);
-                              const item = menu.categories[cIdx]?.items[iIdx];
-                              if(!item) return null;
+                          getCartEntries().map(({ line, item }) => {
+                              const optionsLabel = describeSelections(item, line.selections);
+                              const isUnavailable = getAvailability(item.id) !== 'available';
                               return (
-                                  <div key={key} className="flex justify-between items-center">
-                                      <div>
-                                          <div className={`font-bold ${themeStyle.modalText}`}>{item.name}</div>
-                                          <div className={`text-xs ${themeStyle.muted}`}>{item.price}</div>
+                                  <div key={line.key} className="flex justify-between items-center">
+                                      <div className={isUnavailable ? 'opacity-60' : ''}>
+                                          <div className={`font-bold ${themeStyle.text}`}>{item.name}</div>
+                                          {isUnavailable && <div className="text-xs font-bold text-red-500">{t.noLongerAvailable}</div>}
+                                          {optionsLabel && <div className={`text-xs ${themeStyle.muted}`}>{optionsLabel}</div>}
+                                          <div className={`text-xs ${themeStyle.muted}`}>{formatMoney(getUnitPrice(item, line.selections))}</div>
                                       </div>
                                       <div className={`flex items-center gap-3 rounded-lg p-1 ${isDarkMode ? 'bg-black/30' : 'bg-slate-100'}`}>
-                                          <button onClick={() => updateCart(cIdx, iIdx, -1)} className={`w-8 h-8 flex items-center justify-center rounded shadow-sm ${isDarkMode ? 'bg-white/10 text-white' : 'bg-white text-slate-700'}`}><Minus size={14}/></button>
-                                          <span className={`font-bold text-sm w-4 text-center ${themeStyle.modalText}`}>{count}</span>
-                                          <button onClick={() => updateCart(cIdx, iIdx, 1)} className={`w-8 h-8 flex items-center justify-center rounded shadow-sm ${isDarkMode ? 'bg-white/10 text-white' : 'bg-white text-slate-700'}`}><Plus size={14}/></button>
+                                          <button onClick={() => updateCartLine(line.key, -1)} className={`w-8 h-8 flex items-center justify-center rounded shadow-sm ${isDarkMode ? 'bg-white/10 text-white' : 'bg-white text-slate-700'}`}><Minus size={14}/></button>
+                                          <span className={`font-bold text-sm w-4 text-center ${themeStyle.text}`}>{line.quantity}</span>
+                                          <button onClick={() => updateCartLine(line.key, 1)} disabled={isUnavailable} className={`disabled:opacity-40 w-8 h-8 flex items-center justify-center rounded shadow-sm ${isDarkMode ? 'bg-white/10 text-white' : 'bg-white text-slate-700'}`}><Plus size={14}/></button>
                                       </div>
                                   </div>
                               )
@@ -497,17 +759,94 @@ const MenuViewer: React.FC<MenuViewerProps> = ({ menuProp }) => {
                   <div className={`p-4 border-t ${isDarkMode ? 'border-white/10 bg-black/20' : 'border-slate-100 bg-slate-50'}`}>
                       <div className="flex justify-between items-center mb-4">
                           <span className={`font-medium ${themeStyle.muted}`}>Total Estimate</span>
-                          <span className={`text-2xl font-extrabold ${themeStyle.modalText}`}>{getTotalPrice()}</span>
+                          <span className={`text-2xl font-extrabold ${themeStyle.text}`}>{getTotalPrice()}</span>
                       </div>
-                      <button onClick={() => setShowCartModal(false)} className={`w-full py-4 rounded-xl font-bold text-lg flex justify-center items-center gap-2 ${isDarkMode ? 'bg-white text-slate-900 hover:bg-gray-100' : 'bg-slate-900 text-white hover:bg-slate-800'}`}>
-                           Show to Waiter <Bell size={18} />
-                      </button>
-                      <p className={`text-[10px] text-center mt-2 ${themeStyle.muted}`}>This is not an online order. Show this screen to service staff.</p>
+                      {hasWhatsApp ? (
+                          <>
+                              {/* Order Details */}
+                              <div className="space-y-2 mb-4">
+                                  <input
+                                      value={orderDetails.customerName}
+                                      onChange={(e) => updateOrderDetails('customerName', e.target.value)}
+                                      placeholder={t.orderNamePlaceholder}
+                                      className={orderInputClass}
+                                  />
+                                  <div className={`flex p-1 rounded-lg ${isDarkMode ? 'bg-black/30' : 'bg-slate-200/60'}`}>
+                                      {(['table', 'delivery'] as const).map(mode => (
+                                          <button
+                                              key={mode}
+                                              onClick={() => updateOrderDetails('fulfillment', mode)}
+                                              className={`flex-1 py-1.5 rounded-md text-xs font-bold flex items-center justify-center gap-1 transition-all ${orderDetails.fulfillment === mode ? (isDarkMode ? 'bg-white/20 text-white' : 'bg-white text-slate-900 shadow') : themeStyle.muted}`}
+                                          >
+                                              {mode === 'table' ? <><Utensils size={12} /> {t.orderTable}</> : <><MapPin size={12} /> {t.orderDelivery}</>}
+                                          </button>
+                                      ))}
+                                  </div>
+                                  {orderDetails.fulfillment === 'table' && table ? (
+                                      <div className={`${orderInputClass} flex items-center gap-2 font-bold`}>
+                                          <Utensils size={14} /> {t.orderTable} {table.name}
+                                      </div>
+                                  ) : orderDetails.fulfillment === 'table' ? (
+                                      <input
+                                          value={orderDetails.tableNumber}
+                                          onChange={(e) => updateOrderDetails('tableNumber', e.target.value)}
+                                          placeholder={t.orderTablePlaceholder}
+                                          className={orderInputClass}
+                                      />
+                                  ) : (
+                                      <input
+                                          value={orderDetails.address}
+                                          onChange={(e) => updateOrderDetails('address', e.target.value)}
+                                          placeholder={t.orderAddressPlaceholder}
+                                          className={orderInputClass}
+                                      />
+                                  )}
+                                  <textarea
+                                      value={orderDetails.notes}
+                                      onChange={(e) => updateOrderDetails('notes', e.target.value)}
+                                      placeholder={t.orderNotesPlaceholder}
+                                      rows={2}
+                                      className={`${orderInputClass} resize-none`}
+                                  />
+                              </div>
+                              <button
+                                  onClick={handleCheckout}
+                                  disabled={!canCheckout}
+                                  className="w-full py-4 rounded-xl font-bold text-lg flex justify-center items-center gap-2 bg-green-600 text-white hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                  <MessageCircle size={18} /> {t.sendWhatsApp}
+                              </button>
+                              {!canCheckout && <p className={`text-[10px] text-center mt-2 ${themeStyle.muted}`}>{hasUnavailableLines ? t.removeUnavailableItems : t.orderIncomplete}</p>}
+                          </>
+                      ) : (
+                          <>
+                              <button disabled className={`w-full py-4 rounded-xl font-bold text-lg flex justify-center items-center gap-2 opacity-50 cursor-not-allowed ${isDarkMode ? 'bg-white text-slate-900' : 'bg-slate-900 text-white'}`}>
+                                  <MessageCircle size={18} /> {t.sendWhatsApp}
+                              </button>
+                              <p className={`text-[10px] text-center mt-2 flex items-center justify-center gap-1 ${themeStyle.muted}`}><Bell size={10} /> {t.whatsappUnavailable}</p>
+                          </>
+                      )}
                   </div>
               </div>
           </div>
       )}
 
+      {/* Option Picker Modal */}
+      {optionPickerTarget && findItem(optionPickerTarget) && (
+          <OptionPicker
+              item={findItem(optionPickerTarget)!}
+              currency={menu.currency}
+              language={menu.language}
+              isDarkMode={isDarkMode}
+              themeStyle={themeStyle}
+              onConfirm={(selections, quantity) => {
+                  addToCart(optionPickerTarget, selections, quantity);
+                  setOptionPickerTarget(null);
+              }}
+              onClose={() => setOptionPickerTarget(null)}
+          />
+      )}
+
       {/* Image Modal */}
       {selectedImage && !isPreview && (
         <div className="fixed inset-0 z-[70] bg-black/95 backdrop-blur-md flex items-center justify-center p-4" onClick={() => setSelectedImage(null)}>
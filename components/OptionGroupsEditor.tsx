@@ -0,0 +1,128 @@
+import React from 'react';
+import { CurrencyCode, ItemOption, Language, OptionGroup } from '../types';
+import { Plus, Trash2, X } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { createId } from '../utils/ids';
+import PriceInput from './PriceInput';
+
+interface OptionGroupsEditorProps {
+  groups: OptionGroup[];
+  currency: CurrencyCode;
+  language?: Language;
+  onChange: (groups: OptionGroup[]) => void;
+}
+
+const OptionGroupsEditor: React.FC<OptionGroupsEditorProps> = ({ groups, currency, language, onChange }) => {
+  const t = getTranslations(language);
+
+  const updateGroup = (groupIdx: number, changes: Partial<OptionGroup>) => {
+    const next = groups.map((group, idx) => idx === groupIdx ? { ...group, ...changes } : group);
+    onChange(next);
+  };
+
+  const addGroup = () => {
+    const group: OptionGroup = { id: createId(), name: '', required: false, min: 0, max: 1, options: [] };
+    onChange([...groups, group]);
+  };
+
+  const deleteGroup = (groupIdx: number) => {
+    onChange(groups.filter((_, idx) => idx !== groupIdx));
+  };
+
+  const updateOption = (groupIdx: number, optionIdx: number, changes: Partial<ItemOption>) => {
+    const options = groups[groupIdx].options.map((option, idx) => idx === optionIdx ? { ...option, ...changes } : option);
+    updateGroup(groupIdx, { options });
+  };
+
+  const addOption = (groupIdx: number) => {
+    const option: ItemOption = { id: createId(), name: '', priceDelta: 0 };
+    updateGroup(groupIdx, { options: [...groups[groupIdx].options, option] });
+  };
+
+  const deleteOption = (groupIdx: number, optionIdx: number) => {
+    const options = groups[groupIdx].options.filter((_, idx) => idx !== optionIdx);
+    // Keep max within the number of remaining options
+    updateGroup(groupIdx, { options, max: Math.max(1, Math.min(groups[groupIdx].max, options.length)) });
+  };
+
+  // Required groups always need at least one choice, and min can never exceed max
+  const setRequired = (groupIdx: number, required: boolean) => {
+    const group = groups[groupIdx];
+    updateGroup(groupIdx, { required, min: required ? Math.max(1, group.min) : group.min });
+  };
+
+  const setLimits = (groupIdx: number, field: 'min' | 'max', value: number) => {
+    const group = groups[groupIdx];
+    const safe = Math.max(field === 'max' ? 1 : 0, isNaN(value) ? 0 : value);
+    if (field === 'min') updateGroup(groupIdx, { min: safe, max: Math.max(group.max, safe) });
+    else updateGroup(groupIdx, { max: safe, min: Math.min(group.min, safe) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {groups.map((group, groupIdx) => (
+        <div key={group.id} className="bg-slate-50 border border-slate-200 rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={group.name}
+              onChange={(e) => updateGroup(groupIdx, { name: e.target.value })}
+              placeholder={t.optionGroupPlaceholder}
+              className="flex-1 font-bold text-sm text-slate-700 bg-transparent border-b border-transparent focus:border-brand-500 outline-none placeholder-slate-300"
+            />
+            <button onClick={() => deleteGroup(groupIdx)} className="text-slate-300 hover:text-red-400 p-1 rounded hover:bg-red-50">
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={group.required} onChange={(e) => setRequired(groupIdx, e.target.checked)} />
+              {t.optionRequired}
+            </label>
+            <label className="flex items-center gap-1">
+              {t.optionMin}
+              <input type="number" min={0} value={group.min} onChange={(e) => setLimits(groupIdx, 'min', parseInt(e.target.value, 10))} className="w-12 p-1 border border-slate-200 rounded text-center" />
+            </label>
+            <label className="flex items-center gap-1">
+              {t.optionMax}
+              <input type="number" min={1} value={group.max} onChange={(e) => setLimits(groupIdx, 'max', parseInt(e.target.value, 10))} className="w-12 p-1 border border-slate-200 rounded text-center" />
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            {group.options.map((option, optionIdx) => (
+              <div key={option.id} className="flex items-center gap-2 bg-white rounded-md px-2 py-1 border border-slate-100">
+                <input
+                  value={option.name}
+                  onChange={(e) => updateOption(groupIdx, optionIdx, { name: e.target.value })}
+                  placeholder={t.optionPlaceholder}
+                  className="flex-1 text-xs text-slate-700 bg-transparent outline-none placeholder-slate-300"
+                />
+                <span className="text-xs text-slate-400">+</span>
+                <PriceInput
+                  price={{ amount: option.priceDelta }}
+                  currency={currency}
+                  language={language}
+                  onChange={(price) => updateOption(groupIdx, optionIdx, { priceDelta: price.amount })}
+                  className="w-20 text-xs text-right text-slate-600 bg-transparent outline-none"
+                />
+                <button onClick={() => deleteOption(groupIdx, optionIdx)} className="text-slate-300 hover:text-red-400">
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            <button onClick={() => addOption(groupIdx)} className="text-xs font-bold text-brand-600 hover:bg-brand-50 px-2 py-1 rounded flex items-center gap-1">
+              <Plus size={12} /> {t.addOption}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button onClick={addGroup} className="w-full text-xs font-bold text-slate-500 border border-dashed border-slate-300 rounded-lg py-2 hover:bg-slate-50 flex items-center justify-center gap-1">
+        <Plus size={12} /> {t.addOptionGroup}
+      </button>
+    </div>
+  );
+};
+
+export default OptionGroupsEditor;
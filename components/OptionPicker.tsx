@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { CurrencyCode, Language, MenuItem, OptionGroup } from '../types';
+import { Check, Minus, Plus, X } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { formatAmount } from '../utils/price';
+import { OptionSelections, areSelectionsValid, getGroupMinimum, getUnitPrice } from '../utils/cart';
+
+interface OptionPickerProps {
+  item: MenuItem;
+  currency: CurrencyCode;
+  language?: Language;
+  isDarkMode: boolean;
+  themeStyle: Record<string, string>;
+  onConfirm: (selections: OptionSelections, quantity: number) => void;
+  onClose: () => void;
+}
+
+const OptionPicker: React.FC<OptionPickerProps> = ({ item, currency, language, isDarkMode, themeStyle, onConfirm, onClose }) => {
+  const [selections, setSelections] = useState<OptionSelections>({});
+  const [quantity, setQuantity] = useState(1);
+  const t = getTranslations(language);
+  const groups = (item.optionGroups || []).filter(group => group.options.length > 0);
+
+  const toggleOption = (group: OptionGroup, optionId: string) => {
+    setSelections(prev => {
+      const current = prev[group.id] || [];
+      let next: string[];
+      if (current.includes(optionId)) next = current.filter(id => id !== optionId);
+      else if (group.max === 1) next = [optionId]; // Single choice: swap selection
+      else if (current.length >= group.max) return prev;
+      else next = [...current, optionId];
+      return { ...prev, [group.id]: next };
+    });
+  };
+
+  const isValid = areSelectionsValid(item, selections);
+  const total = getUnitPrice(item, selections) * quantity;
+
+  const getGroupHint = (group: OptionGroup) => {
+    const min = getGroupMinimum(group);
+    if (group.max === 1) return group.required ? t.optionRequired : '';
+    if (min > 0) return `${t.chooseAtLeast} ${min} · ${t.chooseUpTo} ${group.max}`;
+    return `${t.chooseUpTo} ${group.max}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[65] bg-black/50 backdrop-blur-sm flex items-end sm:items-center justify-center sm:p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className={`w-full max-w-md sm:rounded-3xl rounded-t-3xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh] animate-in slide-in-from-bottom duration-300 ${themeStyle.modalBg}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={`p-4 border-b flex justify-between items-start gap-3 ${isDarkMode ? 'border-white/10 bg-black/20' : 'border-slate-100 bg-slate-50'}`}>
+          <div>
+            <h3 className={`font-bold text-lg ${themeStyle.text}`}>{item.name}</h3>
+            <p className={`text-xs ${themeStyle.muted}`}>{t.chooseOptions}</p>
+          </div>
+          <button onClick={onClose} className={`p-2 rounded-full ${isDarkMode ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-900'}`}><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          {groups.map(group => {
+            const selected = selections[group.id] || [];
+            return (
+              <div key={group.id}>
+                <div className="flex justify-between items-baseline mb-2">
+                  <h4 className={`font-bold text-sm ${themeStyle.text}`}>{group.name}</h4>
+                  <span className={`text-[10px] uppercase font-bold ${group.required ? 'text-amber-500' : themeStyle.muted}`}>{getGroupHint(group)}</span>
+                </div>
+                <div className="space-y-1.5">
+                  {group.options.map(option => {
+                    const isSelected = selected.includes(option.id);
+                    return (
+                      <button
+                        key={option.id}
+                        onClick={() => toggleOption(group, option.id)}
+                        className={`w-full flex items-center justify-between gap-3 px-3 py-2.5 rounded-xl border text-sm transition-colors ${isSelected
+                          ? (isDarkMode ? 'border-white/60 bg-white/10' : 'border-slate-900 bg-slate-50')
+                          : (isDarkMode ? 'border-white/10' : 'border-slate-200')}`}
+                      >
+                        <span className={`flex items-center gap-2 ${themeStyle.text}`}>
+                          <span className={`w-4 h-4 flex items-center justify-center border ${group.max === 1 ? 'rounded-full' : 'rounded'} ${isSelected ? (isDarkMode ? 'bg-white text-slate-900 border-white' : 'bg-slate-900 text-white border-slate-900') : 'border-slate-300'}`}>
+                            {isSelected && <Check size={10} />}
+                          </span>
+                          {option.name}
+                        </span>
+                        {option.priceDelta !== 0 && (
+                          <span className={`text-xs font-bold ${themeStyle.muted}`}>+{formatAmount(option.priceDelta, currency, language)}</span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className={`p-4 border-t flex items-center gap-3 ${isDarkMode ? 'border-white/10 bg-black/20' : 'border-slate-100 bg-slate-50'}`}>
+          <div className={`flex items-center gap-3 rounded-lg p-1 ${isDarkMode ? 'bg-black/30' : 'bg-slate-100'}`}>
+            <button onClick={() => setQuantity(Math.max(1, quantity - 1))} className={`w-8 h-8 flex items-center justify-center rounded shadow-sm ${isDarkMode ? 'bg-white/10 text-white' : 'bg-white text-slate-700'}`}><Minus size={14} /></button>
+            <span className={`font-bold text-sm w-4 text-center ${themeStyle.text}`}>{quantity}</span>
+            <button onClick={() => setQuantity(quantity + 1)} className={`w-8 h-8 flex items-center justify-center rounded shadow-sm ${isDarkMode ? 'bg-white/10 text-white' : 'bg-white text-slate-700'}`}><Plus size={14} /></button>
+          </div>
+          <button
+            onClick={() => onConfirm(selections, quantity)}
+            disabled={!isValid}
+            className={`flex-1 py-3 rounded-xl font-bold flex justify-between items-center px-4 disabled:opacity-50 disabled:cursor-not-allowed ${isDarkMode ? 'bg-white text-slate-900' : 'bg-slate-900 text-white'}`}
+          >
+            <span>{t.addToCart}</span>
+            <span>{formatAmount(total, currency, language)}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OptionPicker;
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { CurrencyCode, Language, Price } from '../types';
+import { formatPriceInput, parsePrice } from '../utils/price';
+
+interface PriceInputProps {
+  price: Price;
+  currency: CurrencyCode;
+  language?: Language;
+  onChange: (price: Price) => void;
+  className?: string;
+  placeholder?: string;
+}
+
+// Keeps the raw text while typing and only commits values that parse into a valid price
+const PriceInput: React.FC<PriceInputProps> = ({ price, currency, language, onChange, className, placeholder }) => {
+  const [text, setText] = useState(() => formatPriceInput(price, currency, language));
+  const [isFocused, setIsFocused] = useState(false);
+
+  useEffect(() => {
+    if (!isFocused) setText(formatPriceInput(price, currency, language));
+  }, [price.amount, price.maxAmount, currency, language, isFocused]);
+
+  const isValid = parsePrice(text, currency) !== null;
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={text}
+      onFocus={() => setIsFocused(true)}
+      onBlur={() => setIsFocused(false)}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = parsePrice(e.target.value, currency);
+        if (parsed) onChange(parsed);
+      }}
+      className={`${className || ''} ${isValid ? '' : 'text-red-500'}`}
+      placeholder={placeholder}
+    />
+  );
+};
+
+export default PriceInput;
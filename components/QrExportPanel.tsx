@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { RestaurantMenu } from '../types';
+import { AlertTriangle, CheckCircle2, FileDown, Loader2 } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { QR_EXPORT_SIZES, QrExportOptions, QrExportSize, QrIssue, QrLevel, checkScanability, exportQrCode } from '../utils/qrExport';
+import { getContrastRatio } from '../utils/color';
+
+interface QrExportPanelProps {
+  menu: RestaurantMenu;
+  value: string;
+  label: string;
+  options: QrExportOptions;
+  onChange: (options: QrExportOptions) => void;
+}
+
+const LEVELS: QrLevel[] = ['M', 'Q', 'H'];
+
+const QrExportPanel: React.FC<QrExportPanelProps> = ({ menu, value, label, options, onChange }) => {
+  const [exporting, setExporting] = useState<'svg' | 'pdf' | null>(null);
+  const t = getTranslations(menu.language);
+  const issues = checkScanability(value, options);
+
+  const sizeLabels: Record<QrExportSize, string> = { tent: t.tableTent, poster: t.posterA4, sticker: t.sticker };
+  const issueLabels: Record<QrIssue, string> = {
+    tooLong: t.qrTooLong,
+    inverted: t.qrInverted,
+    lowContrast: t.qrLowContrast,
+    tooDense: t.qrTooDense,
+    logoTooLarge: t.qrLogoTooLarge,
+  };
+
+  const handleExport = async (format: 'svg' | 'pdf') => {
+    setExporting(format);
+    try {
+      await exportQrCode(format, menu, value, label, t.qrScanHint, options);
+    } catch (e) {
+      console.error('QR export failed', e);
+      alert(t.qrExportFailed);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const colorField = (key: 'foreground' | 'background', text: string) => (
+    <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+      <input
+        type="color"
+        value={options[key]}
+        onChange={(e) => onChange({ ...options, [key]: e.target.value })}
+        className="w-8 h-8 rounded-lg border border-slate-200 cursor-pointer bg-white p-0.5"
+      />
+      {text}
+    </label>
+  );
+
+  return (
+    <div className="w-full text-left space-y-4">
+      <div>
+        <p className="text-xs font-bold text-slate-500 uppercase mb-2 px-1">{t.printSize}</p>
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(QR_EXPORT_SIZES) as QrExportSize[]).map(size => (
+            <button
+              key={size}
+              onClick={() => onChange({ ...options, size })}
+              className={`py-2 px-1 rounded-xl border-2 text-xs font-bold leading-tight ${options.size === size ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600 hover:border-slate-300'}`}
+            >
+              {sizeLabels[size]}
+              <span className="block font-normal opacity-70 mt-0.5">{QR_EXPORT_SIZES[size].width}×{QR_EXPORT_SIZES[size].height} mm</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-5 gap-y-3 px-1">
+        {colorField('foreground', t.qrForeground)}
+        {colorField('background', t.qrBackground)}
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+          {t.errorCorrection}
+          <select
+            value={options.level}
+            onChange={(e) => onChange({ ...options, level: e.target.value as QrLevel })}
+            className="p-1.5 border border-slate-200 rounded-lg bg-white text-xs"
+          >
+            {LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+        </label>
+        {menu.logo && (
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={options.withLogo} onChange={(e) => onChange({ ...options, withLogo: e.target.checked })} className="accent-brand-600" />
+            {t.logoInCenter}
+          </label>
+        )}
+      </div>
+
+      {issues.length === 0 ? (
+        <p className="text-xs text-green-700 bg-green-50 rounded-lg px-3 py-2 flex items-center gap-2">
+          <CheckCircle2 size={14} className="shrink-0" /> {t.qrScanable} ({t.contrastLabel} {getContrastRatio(options.foreground, options.background).toFixed(1)}:1)
+        </p>
+      ) : (
+        <ul className="text-xs text-amber-800 bg-amber-50 rounded-lg px-3 py-2 space-y-1">
+          {issues.map(issue => (
+            <li key={issue} className="flex items-start gap-2"><AlertTriangle size={14} className="shrink-0 mt-px" /> {issueLabels[issue]}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        {(['svg', 'pdf'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={issues.length > 0 || exporting !== null}
+            className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl font-bold bg-white border-2 border-slate-200 text-slate-700 hover:bg-slate-50 disabled:opacity-40"
+          >
+            {exporting === format ? <Loader2 size={18} className="animate-spin" /> : <FileDown size={18} />} {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default QrExportPanel;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Language, RestaurantMenu } from '../types';
+import { AlertTriangle, GitMerge, Upload } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+
+interface SaveConflictDialogProps {
+  remote: RestaurantMenu; // The copy someone else saved
+  language?: Language;
+  onMerge: () => void;
+  onOverwrite: () => void;
+}
+
+const SaveConflictDialog: React.FC<SaveConflictDialogProps> = ({ remote, language, onMerge, onOverwrite }) => {
+  const t = getTranslations(language);
+  const savedAt = remote.updatedAt ? new Date(remote.updatedAt).toLocaleString(language) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl overflow-hidden">
+        <div className="p-5 space-y-2">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2"><AlertTriangle size={18} className="text-amber-500" /> {t.saveConflict}</h3>
+          <p className="text-sm text-slate-500">{t.saveConflictHint}</p>
+          {savedAt && <p className="text-xs text-slate-400">{t.savedElsewhereAt} {savedAt}</p>}
+        </div>
+        <div className="p-4 border-t border-slate-100 grid gap-2">
+          <button onClick={onMerge} className="w-full py-3 rounded-xl text-sm font-bold text-white bg-slate-900 hover:bg-slate-800 flex items-center justify-center gap-2">
+            <GitMerge size={16} /> {t.mergeChanges}
+          </button>
+          <p className="text-[11px] text-slate-400 text-center">{t.mergeChangesHint}</p>
+          <button onClick={onOverwrite} className="w-full py-3 rounded-xl text-sm font-bold text-red-600 border border-red-100 hover:bg-red-50 flex items-center justify-center gap-2">
+            <Upload size={16} /> {t.overwriteChanges}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveConflictDialog;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Language, ScheduleWindow } from '../types';
+import { Plus, X } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { getWeekdayNames } from '../utils/availability';
+
+interface ScheduleEditorProps {
+  schedule: ScheduleWindow[];
+  language?: Language;
+  onChange: (schedule: ScheduleWindow[]) => void;
+}
+
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ schedule, language, onChange }) => {
+  const t = getTranslations(language);
+  const dayNames = getWeekdayNames(language);
+
+  const updateWindow = (windowIdx: number, changes: Partial<ScheduleWindow>) => {
+    onChange(schedule.map((window, idx) => idx === windowIdx ? { ...window, ...changes } : window));
+  };
+
+  const toggleDay = (windowIdx: number, day: number) => {
+    const days = schedule[windowIdx].days;
+    updateWindow(windowIdx, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  const addWindow = () => {
+    onChange([...schedule, { days: [0, 1, 2, 3, 4, 5, 6], start: '11:00', end: '15:00' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {schedule.map((window, windowIdx) => (
+        <div key={windowIdx} className="bg-slate-50 border border-slate-200 rounded-lg p-2 space-y-2">
+          <div className="flex items-center gap-1 flex-wrap">
+            {dayNames.map((name, day) => (
+              <button
+                key={day}
+                onClick={() => toggleDay(windowIdx, day)}
+                className={`px-2 py-1 rounded text-[10px] font-bold uppercase transition-colors ${window.days.includes(day) ? 'bg-slate-900 text-white' : 'bg-white text-slate-400 border border-slate-200'}`}
+              >
+                {name}
+              </button>
+            ))}
+            <button onClick={() => onChange(schedule.filter((_, idx) => idx !== windowIdx))} className="ml-auto text-slate-300 hover:text-red-400 p-1">
+              <X size={12} />
+            </button>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-slate-500">
+            <input type="time" value={window.start} onChange={(e) => updateWindow(windowIdx, { start: e.target.value })} className="p-1 border border-slate-200 rounded bg-white" />
+            –
+            <input type="time" value={window.end} onChange={(e) => updateWindow(windowIdx, { end: e.target.value })} className="p-1 border border-slate-200 rounded bg-white" />
+            {window.end < window.start && <span className="text-[10px] text-slate-400">{t.overnightWindow}</span>}
+          </div>
+        </div>
+      ))}
+
+      {schedule.length === 0 && <p className="text-[11px] text-slate-400">{t.alwaysAvailable}</p>}
+
+      <button onClick={addWindow} className="text-xs font-bold text-brand-600 hover:bg-brand-50 px-2 py-1 rounded flex items-center gap-1">
+        <Plus size={12} /> {t.addTimeWindow}
+      </button>
+    </div>
+  );
+};
+
+export default ScheduleEditor;
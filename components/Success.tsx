@@ -1,17 +1,29 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import QRCode from 'react-qr-code';
 import { getMenu } from '../services/storageService';
-import { RestaurantMenu } from '../types';
-import { Share2, Printer, Eye, Edit, Download, ExternalLink } from 'lucide-react';
-import { translations } from '../utils/translations';
+import { RestaurantMenu, MenuTable } from '../types';
+import { Share2, Printer, Eye, Edit, ExternalLink, Utensils } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { getPublicMenu, hasUnpublishedChanges } from '../utils/publishing';
+import { getTableUrl } from '../utils/tables';
+import { QrExportOptions, getQrColors } from '../utils/qrExport';
+import { PRINT_TEMPLATES, PRINT_TEMPLATE_IDS, PrintTemplate } from '../utils/printTemplates';
+import QrExportPanel from './QrExportPanel';
+import MenuPrintView from './MenuPrintView';
+
+const TABLES_PER_PAGE = 6;
+
+type PrintMode = 'menu' | 'tables';
 
 const Success: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [menu, setMenu] = useState<RestaurantMenu | null>(null);
   const [qrLabel, setQrLabel] = useState('');
-  const qrRef = useRef<HTMLDivElement>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [printTemplate, setPrintTemplate] = useState<PrintTemplate>('single');
+  const [printMode, setPrintMode] = useState<PrintMode>('menu');
+  const [printRequested, setPrintRequested] = useState(false);
+  const [exportOptions, setExportOptions] = useState<QrExportOptions | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -19,14 +31,28 @@ const Success: React.FC = () => {
         if (data) {
             setMenu(data);
             setQrLabel(data.name); // Default to establishment name
+            // A logo in the centre needs the highest error correction
+            setExportOptions({ size: 'tent', level: data.logo ? 'H' : 'M', ...getQrColors(data.theme), withLogo: !!data.logo });
         }
       });
     }
   }, [id]);
 
-  if (!menu) return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  // Printing waits for the chosen print view to render
+  useEffect(() => {
+    if (!printRequested) return;
+    setPrintRequested(false);
+    window.print();
+  }, [printRequested]);
+
+  const printSheet = (mode: PrintMode) => {
+    setPrintMode(mode);
+    setPrintRequested(true);
+  };
+
+  if (!menu || !exportOptions) return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
 
-  const t = translations[menu.language || 'pt'];
+  const t = getTranslations(menu.language);
   
   // Use slug if available, otherwise fall back to ID
   const publicPath = menu.slug ? `/m/${menu.slug}` : `/menu/${menu.id}`;
@@ -41,191 +67,13 @@ const Success: React.FC = () => {
 
   // Determine actual QR URL: use Custom URL if set, otherwise use default generated URL
   const isCustomUrl = menu.customQrUrl && menu.customQrUrl.trim() !== '';
-  const qrValue = isCustomUrl ? ensureProtocol(menu.customQrUrl!) : menuUrl;
-
-  // Helper to wrap text on Canvas
-  const wrapText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
-    const words = text.split(' ');
-    let line = '';
-    let currentY = y;
-
-    for(let n = 0; n < words.length; n++) {
-      const testLine = line + words[n] + ' ';
-      const metrics = ctx.measureText(testLine);
-      const testWidth = metrics.width;
-      if (testWidth > maxWidth && n > 0) {
-        ctx.fillText(line, x, currentY);
-        line = words[n] + ' ';
-        currentY += lineHeight;
-      } else {
-        line = testLine;
-      }
-    }
-    ctx.fillText(line, x, currentY);
-    return currentY + lineHeight;
-  };
-
-  const downloadFlyer = async () => {
-    setIsGenerating(true);
-    // Note: We use the rendered QR code SVG from the screen to draw onto the canvas.
-    // The rendered QR already uses `qrValue`, so we just need to grab it.
-    const svg = qrRef.current?.querySelector("svg");
-    
-    if (menu) {
-        try {
-            // A4 Size at approx 200 DPI (1654 x 2339 px)
-            // This provides high resolution for printing
-            const width = 1654;
-            const height = 2339;
-            const canvas = document.createElement("canvas");
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext("2d");
-            
-            if (!ctx) return;
-
-            // 1. Fill Background
-            ctx.fillStyle = "#FFFFFF";
-            ctx.fillRect(0, 0, width, height);
-
-            let currentY = 120;
-            const centerX = width / 2;
-            const margin = 100;
-            const contentWidth = width - (margin * 2);
-
-            // --- HEADER ---
-            
-            // Draw Logo (if exists)
-            if (menu.logo) {
-                await new Promise((resolve) => {
-                    const img = new Image();
-                    img.crossOrigin = "anonymous";
-                    img.onload = () => {
-                        const aspect = img.width / img.height;
-                        const drawHeight = 250;
-                        const drawWidth = drawHeight * aspect;
-                        // Center logo
-                        ctx.drawImage(img, centerX - (drawWidth / 2), currentY, drawWidth, drawHeight);
-                        currentY += drawHeight + 50;
-                        resolve(null);
-                    };
-                    img.src = menu.logo!;
-                });
-            } else {
-                currentY += 50;
-            }
-
-            // Draw Establishment Name
-            ctx.fillStyle = "#1e293b"; // slate-800
-            ctx.textAlign = "center";
-            ctx.font = "800 80px sans-serif"; // Extra bold
-            currentY = wrapText(ctx, menu.name.toUpperCase(), centerX, currentY, contentWidth, 90);
-            
-            currentY += 20;
-
-            // Business Type & Info
-            ctx.fillStyle = "#64748b"; // slate-500
-            ctx.font = "bold 35px sans-serif";
-            const subheader = [menu.businessType, menu.whatsapp ? `WhatsApp: ${menu.whatsapp}` : null].filter(Boolean).join(' • ');
-            ctx.fillText(subheader.toUpperCase(), centerX, currentY);
-            currentY += 80;
-
-            // Divider
-            ctx.beginPath();
-            ctx.moveTo(margin + 100, currentY);
-            ctx.lineTo(width - margin - 100, currentY);
-            ctx.strokeStyle = "#e2e8f0";
-            ctx.lineWidth = 4;
-            ctx.stroke();
-            currentY += 80;
-
-            // --- MENU ITEMS ---
-            
-            // Loop through categories
-            for (const cat of menu.categories) {
-                // Check for page overflow (footer space = 300)
-                if (currentY > height - 300) break; 
-
-                // Category Title
-                ctx.fillStyle = "#0f172a"; // slate-900
-                ctx.font = "bold 50px sans-serif";
-                ctx.fillText(cat.title.toUpperCase(), centerX, currentY);
-                currentY += 60;
-
-                // Items Loop
-                ctx.font = "40px sans-serif";
-                
-                for (const item of cat.items) {
-                     if (currentY > height - 300) break;
-
-                     // Item Name
-                     ctx.fillStyle = "#334155"; // slate-700
-                     ctx.font = "bold 36px sans-serif";
-                     ctx.fillText(item.name, centerX, currentY);
-                     currentY += 45;
-
-                     // Description
-                     if (item.description) {
-                         ctx.fillStyle = "#64748b"; // slate-500
-                         ctx.font = "italic 28px sans-serif";
-                         currentY = wrapText(ctx, item.description, centerX, currentY, 800, 35);
-                         currentY += 10;
-                     }
-
-                     // Price
-                     ctx.fillStyle = "#000000";
-                     ctx.font = "bold 36px sans-serif";
-                     ctx.fillText(item.price, centerX, currentY);
-                     currentY += 55; // Spacing after item
-                }
-                currentY += 40; // Spacing after category
-            }
-
-            // --- FOOTER ---
-            const footerY = height - 250;
-            
-            // Small QR Code
-            if (svg) {
-                const serializer = new XMLSerializer();
-                let svgData = serializer.serializeToString(svg);
-                if (!svgData.match(/^<svg[^>]+xmlns="http\:\/\/www\.w3\.org\/2000\/svg"/)) {
-                    svgData = svgData.replace(/^<svg/, '<svg xmlns="http://www.w3.org/2000/svg"');
-                }
-                const qrImg = new Image();
-                await new Promise((resolve) => {
-                    qrImg.onload = () => {
-                        const qrSize = 150;
-                        ctx.drawImage(qrImg, centerX - (qrSize / 2), footerY, qrSize, qrSize);
-                        resolve(null);
-                    };
-                    qrImg.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(svgData);
-                });
-            }
-
-            // Footer Text
-            ctx.fillStyle = "#94a3b8";
-            ctx.font = "24px sans-serif";
-            ctx.textAlign = "center";
-            ctx.fillText((t.scanMenu || "Scan to view full menu").toUpperCase(), centerX, footerY + 180);
-            ctx.fillText((t.poweredBy || "Powered by FlashMenu"), centerX, footerY + 215);
+  // Scans are told apart from shared links in the analytics
+  const qrValue = isCustomUrl ? ensureProtocol(menu.customQrUrl!) : `${menuUrl}?src=qr`;
 
-            // 8. Download
-            const jpgFile = canvas.toDataURL("image/jpeg", 0.85);
-            const downloadLink = document.createElement("a");
-            downloadLink.download = `${menu.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}-menu.jpg`;
-            downloadLink.href = jpgFile;
-            document.body.appendChild(downloadLink);
-            downloadLink.click();
-            document.body.removeChild(downloadLink);
-
-        } catch (e) {
-            console.error("Error generating menu image", e);
-            alert("Could not generate image");
-        } finally {
-            setIsGenerating(false);
-        }
-    }
-  };
+  const publicMenu = getPublicMenu(menu);
+  const tables = menu.tables || [];
+  const tablePages: MenuTable[][] = [];
+  for (let i = 0; i < tables.length; i += TABLES_PER_PAGE) tablePages.push(tables.slice(i, i + TABLES_PER_PAGE));
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col items-center p-6 print:p-0 print:bg-white">
@@ -238,16 +86,30 @@ const Success: React.FC = () => {
           <p className="text-sm text-green-700 mt-1">{t.printHint}</p>
         </div>
 
+        {hasUnpublishedChanges(menu) && (
+          <Link to={`/editor/${menu.id}`} className="block bg-amber-50 border-b border-amber-100 px-6 py-3 text-center text-xs text-amber-800 hover:bg-amber-100">
+            <span className="font-bold">{menu.published ? t.unpublishedChanges : t.notPublishedYet}:</span> {t.publishFromEditorHint}
+          </Link>
+        )}
+
         <div className="p-8 flex flex-col items-center text-center">
           {menu.logo && (
               <img src={menu.logo} alt="Logo" className="w-24 h-24 mb-4 object-contain" />
           )}
           <h3 className="text-3xl font-black text-slate-900 mb-2">{menu.name}</h3>
           
-          {/* This QR Ref is used for the Download functionality */}
-          <div ref={qrRef} className="bg-white p-4 rounded-xl border-4 border-slate-900 mb-6 shadow-sm flex flex-col items-center">
-            {/* Using qrValue here ensures both screen and download use custom URL if present */}
-            <QRCode value={qrValue} size={250} level="H" />
+          <div className="bg-white p-4 rounded-xl border-4 border-slate-900 mb-6 shadow-sm flex flex-col items-center">
+            {/* Using qrValue here ensures screen, print and export use custom URL if present */}
+            <div className="relative">
+              <QRCode value={qrValue} size={250} level={exportOptions.level} fgColor={exportOptions.foreground} bgColor={exportOptions.background} />
+              {exportOptions.withLogo && menu.logo && (
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                  <div className="p-1" style={{ backgroundColor: exportOptions.background }}>
+                    <img src={menu.logo} alt="" className="w-12 h-12 object-contain" />
+                  </div>
+                </div>
+              )}
+            </div>
             {qrLabel && (
                 <p className="mt-2 font-bold text-slate-900 text-center text-xl max-w-[200px] leading-tight break-words">
                     {qrLabel}
@@ -305,73 +167,98 @@ const Success: React.FC = () => {
               <Edit size={18} className="mr-2" /> {t.editMenu}
             </Link>
             
-            <div className="flex gap-2">
-                <button 
-                onClick={downloadFlyer}
-                disabled={isGenerating}
-                className="flex-1 flex items-center justify-center py-3 rounded-xl font-bold bg-white border-2 border-slate-200 text-slate-700 hover:bg-slate-50"
-                >
-                {isGenerating ? (
-                    <span className="animate-pulse">Generating...</span>
-                ) : (
-                    <><Download size={18} className="mr-2" /> {t.downloadQR || "Download Menu"}</>
-                )}
-                </button>
-                <button 
-                onClick={() => window.print()}
-                className="flex-1 flex items-center justify-center py-3 rounded-xl font-bold bg-white border-2 border-slate-200 text-slate-700 hover:bg-slate-50"
-                >
-                <Printer size={18} className="mr-2" /> {t.printQR}
-                </button>
+            <div className="pt-2 text-left">
+              <p className="text-xs font-bold text-slate-500 uppercase mb-2 px-1">{t.printLayout}</p>
+              <div className="grid grid-cols-3 gap-2 mb-3">
+                {PRINT_TEMPLATE_IDS.map(template => (
+                  <button
+                    key={template}
+                    onClick={() => setPrintTemplate(template)}
+                    className={`py-2 px-1 rounded-xl border-2 text-xs font-bold leading-tight ${printTemplate === template ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600 hover:border-slate-300'}`}
+                  >
+                    {t[PRINT_TEMPLATES[template].labelKey]}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => printSheet('menu')}
+                disabled={!publicMenu}
+                className="w-full flex items-center justify-center py-3 rounded-xl font-bold bg-white border-2 border-slate-200 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+              >
+                <Printer size={18} className="mr-2" /> {t.printMenuPdf}
+              </button>
+              {hasUnpublishedChanges(menu) && (
+                <p className="text-[11px] text-slate-500 mt-2 px-1">{publicMenu ? t.printsPublishedMenu : t.publishBeforePrinting}</p>
+              )}
+            </div>
+
+            <div className="pt-5 mt-2 border-t border-slate-100">
+              <p className="text-sm font-bold text-slate-800 text-left px-1">{t.printFiles}</p>
+              <p className="text-xs text-slate-500 text-left px-1 mb-3">{t.printFilesHint}</p>
+              <QrExportPanel menu={menu} value={qrValue} label={qrLabel} options={exportOptions} onChange={setExportOptions} />
             </div>
           </div>
         </div>
       </div>
       
+      {tables.length > 0 && (
+        <div className="w-full max-w-md mt-6 bg-white rounded-3xl shadow-xl border border-slate-100 p-6 print:hidden">
+          <div className="flex items-start justify-between gap-3 mb-4">
+            <div>
+              <h3 className="font-bold text-slate-800 flex items-center gap-2"><Utensils size={16} /> {t.tableQrCodes}</h3>
+              <p className="text-xs text-slate-500 mt-1">{t.tableQrHint}</p>
+            </div>
+            <button
+              onClick={() => printSheet('tables')}
+              className="shrink-0 flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold bg-slate-900 text-white hover:bg-slate-800"
+            >
+              <Printer size={14} /> {t.printTableQrs}
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            {tables.map(table => (
+              <a
+                key={table.id}
+                href={getTableUrl(menuUrl, table)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex flex-col items-center gap-1.5 p-2 rounded-xl border border-slate-100 hover:border-slate-300"
+              >
+                <QRCode value={getTableUrl(menuUrl, table)} size={80} />
+                <span className="text-xs font-bold text-slate-700 truncate max-w-full">{t.orderTable} {table.name}</span>
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="mt-8 text-center print:hidden">
          <Link to="/" className="text-slate-400 hover:text-slate-600 text-sm">
            {t.createAnother}
          </Link>
       </div>
 
-      {/* --- Print View (Full Menu A4) --- */}
-      <div className="hidden print:block w-full max-w-[210mm] mx-auto bg-white text-black p-8">
-          
-          {/* Print Header */}
-          <div className="text-center mb-10">
-              {menu.logo && <img src={menu.logo} alt="Logo" className="w-32 h-32 object-contain mx-auto mb-4" />}
-              <h1 className="text-4xl font-extrabold mb-2 uppercase tracking-tight">{menu.name}</h1>
-              {menu.businessType && <p className="text-sm font-bold text-gray-500 uppercase tracking-[0.2em] mb-2">{menu.businessType}</p>}
-              {menu.whatsapp && <p className="text-xs text-gray-400">WhatsApp: {menu.whatsapp}</p>}
-          </div>
-
-          {/* Print Items */}
-          <div className="space-y-8">
-              {menu.categories.map((cat, idx) => (
-                  <div key={idx} className="break-inside-avoid">
-                      <h2 className="text-xl font-bold text-center border-b-2 border-black pb-2 mb-6 uppercase tracking-wider">{cat.title}</h2>
-                      <div className="flex flex-col gap-4">
-                          {cat.items.map((item, iIdx) => (
-                              <div key={iIdx} className="text-center mb-2 px-4 break-inside-avoid">
-                                  <h3 className="text-lg font-bold">{item.name}</h3>
-                                  <p className="text-sm text-gray-600 italic mb-1 max-w-lg mx-auto">{item.description}</p>
-                                  <div className="font-bold text-lg">{item.price}</div>
-                              </div>
-                          ))}
-                      </div>
-                  </div>
+      {/* --- Print View (Table QR Codes, A4) --- */}
+      {printMode === 'tables' && (
+        <div className="hidden print:block w-full max-w-[210mm] mx-auto bg-white text-black">
+          {tablePages.map((page, index) => (
+            <div key={index} className={`grid grid-cols-2 gap-6 p-8 ${index < tablePages.length - 1 ? 'break-after-page' : ''}`}>
+              {page.map(table => (
+                <div key={table.id} className="border-2 border-black rounded-2xl p-4 flex flex-col items-center text-center break-inside-avoid">
+                  <p className="text-xs font-bold uppercase tracking-widest text-gray-500">{menu.name}</p>
+                  <h2 className="text-2xl font-black my-2">{t.orderTable} {table.name}</h2>
+                  <QRCode value={getTableUrl(menuUrl, table)} size={140} level="M" />
+                  <p className="text-[10px] text-gray-500 mt-2 uppercase tracking-widest">{t.scanToOrder}</p>
+                </div>
               ))}
-          </div>
+            </div>
+          ))}
+        </div>
+      )}
 
-          {/* Print Footer */}
-          <div className="text-center mt-16 pt-8 border-t border-gray-100 break-inside-avoid">
-              <div className="inline-block p-2 bg-white border border-gray-200 rounded-lg">
-                 <QRCode value={qrValue} size={80} />
-              </div>
-              <p className="text-[10px] text-gray-400 mt-2 uppercase tracking-widest">Scan to view full digital menu</p>
-              <p className="text-[10px] text-gray-300 mt-1">{t.poweredBy}</p>
-          </div>
-      </div>
+      {/* --- Print View (Full Menu) --- */}
+      {/* The QR code leads to the published copy, so that is what gets printed */}
+      {printMode === 'menu' && publicMenu && <MenuPrintView menu={publicMenu} template={printTemplate} qrValue={qrValue} />}
 
     </div>
   );
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Language, MenuTable } from '../types';
+import { Plus, X } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { addTables, parseTableList } from '../utils/tables';
+
+interface TablesEditorProps {
+  tables: MenuTable[];
+  language?: Language;
+  onChange: (tables: MenuTable[]) => void;
+}
+
+const TablesEditor: React.FC<TablesEditorProps> = ({ tables, language, onChange }) => {
+  const [input, setInput] = useState('');
+  const t = getTranslations(language);
+
+  const handleAdd = () => {
+    const names = parseTableList(input);
+    if (names.length === 0) return;
+    onChange(addTables(tables, names));
+    setInput('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder={t.tablesPlaceholder}
+          className="flex-1 p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!input.trim()}
+          className="px-4 rounded-xl bg-slate-900 text-white text-sm font-bold flex items-center gap-1 disabled:opacity-40"
+        >
+          <Plus size={14} /> {t.addTables}
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-400 ml-1">{t.tablesHint}</p>
+
+      {tables.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tables.map(table => (
+            <span key={table.id} className="inline-flex items-center gap-1 bg-slate-100 text-slate-700 text-xs font-bold pl-2.5 pr-1 py-1 rounded-full">
+              {table.name}
+              <button
+                onClick={() => onChange(tables.filter(other => other.id !== table.id))}
+                title={t.removeTable}
+                className="p-0.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-white"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <button onClick={() => onChange([])} className="text-[11px] text-slate-400 hover:text-red-500 px-2">{t.removeAllTables}</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TablesEditor;
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FontPairing, Language, MenuTheme, RestaurantMenu, ThemeRadius } from '../types';
+import { Check, ImagePlus, Loader2, Sparkles, X } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { EditOptions } from '../utils/editHistory';
+import { isHexColor } from '../utils/color';
+import { FONT_PAIRINGS, THEME_PRESETS, THEME_RADII, getHeaderBackground, getThemePalette, loadThemeFonts } from '../utils/theme';
+import { suggestThemeFromLogo } from '../services/geminiService';
+
+interface ThemeEditorProps {
+  menu: RestaurantMenu;
+  language?: Language;
+  onChange: (theme: MenuTheme, options?: EditOptions) => void;
+  onCoverUpload: (file: File) => void;
+}
+
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ menu, language, onChange, onCoverUpload }) => {
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+  const t = getTranslations(language);
+  const theme = menu.theme;
+
+  // Font previews need every pairing loaded
+  useEffect(() => {
+    (Object.keys(FONT_PAIRINGS) as FontPairing[]).forEach(loadThemeFonts);
+  }, []);
+
+  const update = (changes: Partial<MenuTheme>, options?: EditOptions) => onChange({ ...theme, ...changes }, options);
+
+  const handleSuggest = async () => {
+    if (!menu.logo) return;
+    setIsSuggesting(true);
+    try {
+      update(await suggestThemeFromLogo(menu.logo, menu));
+    } catch (e) {
+      console.error(e);
+      alert(t.paletteSuggestionFailed);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const colorField = (key: 'primary' | 'accent', label: string) => (
+    <div>
+      <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">{label}</label>
+      <div className="flex items-center gap-2 p-1.5 bg-slate-50 border border-slate-200 rounded-xl">
+        <input
+          type="color"
+          value={theme[key]}
+          onChange={(e) => update({ [key]: e.target.value }, { coalesceKey: `theme:${key}` })}
+          className="w-9 h-9 rounded-lg cursor-pointer bg-transparent"
+        />
+        <input
+          type="text"
+          defaultValue={theme[key]}
+          key={theme[key]}
+          onBlur={(e) => isHexColor(e.target.value) && update({ [key]: e.target.value.toLowerCase() })}
+          className="flex-1 min-w-0 bg-transparent outline-none font-mono text-sm uppercase"
+        />
+      </div>
+    </div>
+  );
+
+  const preview = (dark: boolean) => {
+    const palette = getThemePalette(theme, dark);
+    const radius = THEME_RADII[theme.radius].size;
+    return (
+      <div className="rounded-xl overflow-hidden border border-slate-200 flex-1 min-w-0" style={{ backgroundColor: palette.background }}>
+        <div className="px-3 py-4 text-white font-bold text-sm truncate" style={{ background: getHeaderBackground(theme), fontFamily: FONT_PAIRINGS[theme.fonts].heading }}>
+          {menu.name}
+        </div>
+        <div className="p-3">
+          <div className="p-2.5 border" style={{ backgroundColor: palette.surface, borderColor: palette.border, borderRadius: radius, fontFamily: FONT_PAIRINGS[theme.fonts].body }}>
+            <p className="text-xs font-bold" style={{ color: palette.text }}>{t.themePreviewItem}</p>
+            <p className="text-[10px]" style={{ color: palette.muted }}>{t.themePreviewDescription}</p>
+            <span className="inline-block mt-2 px-2 py-0.5 rounded-md text-[10px] font-bold" style={{ backgroundColor: palette.primary, color: palette.onPrimary }}>+ {t.addItem}</span>
+          </div>
+          <p className="text-[10px] font-bold uppercase mt-2" style={{ color: palette.muted }}>{dark ? t.themeDark : t.themeLight}</p>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center gap-3 flex-wrap">
+        {Object.entries(THEME_PRESETS).map(([name, color]) => (
+          <button
+            key={name}
+            onClick={() => update({ primary: color })}
+            className={`w-10 h-10 rounded-full transition-all flex items-center justify-center ${theme.primary === color ? 'ring-4 ring-offset-2 ring-slate-200 scale-110 shadow-lg' : 'hover:scale-105 opacity-80 hover:opacity-100'}`}
+            style={{ backgroundColor: color }}
+            title={name}
+          >
+            {theme.primary === color && <Check size={18} className="text-white drop-shadow-md" />}
+          </button>
+        ))}
+        {menu.logo && (
+          <button
+            onClick={handleSuggest}
+            disabled={isSuggesting}
+            className="ml-auto px-3 py-2 rounded-xl text-xs font-bold bg-purple-50 text-purple-700 hover:bg-purple-100 flex items-center gap-1.5 disabled:opacity-50"
+          >
+            {isSuggesting ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} {t.suggestFromLogo}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {colorField('primary', t.primaryColor)}
+        {colorField('accent', t.accentColor)}
+      </div>
+
+      <div>
+        <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">{t.fontPairing}</label>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {(Object.keys(FONT_PAIRINGS) as FontPairing[]).map(fonts => (
+            <button
+              key={fonts}
+              onClick={() => update({ fonts })}
+              className={`p-2 rounded-xl border-2 text-left ${theme.fonts === fonts ? 'border-slate-900' : 'border-slate-200 hover:border-slate-300'}`}
+            >
+              <span className="block text-lg font-bold text-slate-800" style={{ fontFamily: FONT_PAIRINGS[fonts].heading }}>Aa</span>
+              <span className="block text-[11px] text-slate-500" style={{ fontFamily: FONT_PAIRINGS[fonts].body }}>{t[FONT_PAIRINGS[fonts].labelKey]}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">{t.cornerRadius}</label>
+        <div className="flex gap-2">
+          {(Object.keys(THEME_RADII) as ThemeRadius[]).map(radius => (
+            <button
+              key={radius}
+              onClick={() => update({ radius })}
+              className={`flex-1 py-2 border-2 text-xs font-bold ${theme.radius === radius ? 'border-slate-900 text-slate-900' : 'border-slate-200 text-slate-500 hover:border-slate-300'}`}
+              style={{ borderRadius: THEME_RADII[radius].size }}
+            >
+              {t[THEME_RADII[radius].labelKey]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">{t.coverImage}</label>
+        {theme.coverImage ? (
+          <div className="relative group h-24 rounded-xl overflow-hidden" style={{ background: getHeaderBackground(theme) }}>
+            <button
+              onClick={() => {
+                const { coverImage, ...rest } = theme;
+                onChange(rest);
+              }}
+              title={t.removeCoverImage}
+              className="absolute top-2 right-2 bg-red-500 text-white rounded-full p-1.5 opacity-0 group-hover:opacity-100 transition-opacity shadow-sm"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => coverInputRef.current?.click()}
+            className="w-full h-24 rounded-xl border-2 border-dashed border-slate-200 hover:border-brand-300 text-slate-400 hover:text-brand-600 flex flex-col items-center justify-center gap-1 text-xs font-bold"
+          >
+            <ImagePlus size={20} /> {t.addCoverImage}
+          </button>
+        )}
+        <input
+          type="file"
+          ref={coverInputRef}
+          className="hidden"
+          accept="image/*"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onCoverUpload(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div>
+        <div className="flex gap-3">
+          {preview(false)}
+          {preview(true)}
+        </div>
+        <p className="text-[10px] text-slate-400 mt-1.5 ml-1">{t.darkVariantHint}</p>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeEditor;
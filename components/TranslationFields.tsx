@@ -0,0 +1,46 @@
+import React from 'react';
+import { Language } from '../types';
+import { getLanguageName } from '../utils/localization';
+
+type TranslationValues<F extends string> = Record<Language, Partial<Record<F, string>>>;
+
+interface TranslationFieldsProps<F extends string> {
+  locales: Language[]; // Translated locales, without the base language
+  fields: { key: F; placeholder: string; className?: string }[]; // Placeholder shows the base text
+  values?: TranslationValues<F>;
+  language?: Language; // Language the locale names are shown in
+  onChange: (values: TranslationValues<F>) => void;
+}
+
+// One row of inputs per locale for the translatable fields of a category or item
+const TranslationFields = <F extends string>({ locales, fields, values, language, onChange }: TranslationFieldsProps<F>) => {
+  const update = (locale: Language, field: F, value: string) => {
+    onChange({ ...values, [locale]: { ...values?.[locale], [field]: value } });
+  };
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-lg p-2 space-y-2">
+      {locales.map(locale => (
+        <div key={locale} className="flex gap-2 items-start">
+          <span className="w-20 flex-shrink-0 pt-1 text-[10px] font-bold uppercase text-slate-400 truncate" title={locale}>
+            {getLanguageName(locale, language)}
+          </span>
+          <div className="flex-1 space-y-1">
+            {fields.map(field => (
+              <input
+                key={field.key}
+                type="text"
+                value={values?.[locale]?.[field.key] || ''}
+                onChange={(e) => update(locale, field.key, e.target.value)}
+                placeholder={field.placeholder}
+                className={`w-full bg-white border border-slate-200 rounded px-2 py-1 outline-none focus:border-brand-500 placeholder-slate-300 ${field.className || 'text-xs text-slate-600'}`}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranslationFields;
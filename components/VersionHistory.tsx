@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Language, MenuVersion, RestaurantMenu } from '../types';
+import { History, X, RotateCcw, Loader2, Plus, Minus, ArrowRight } from 'lucide-react';
+import { getTranslations } from '../utils/translations';
+import { formatPrice, getLocale } from '../utils/price';
+import { diffMenus, isDiffEmpty } from '../utils/menuDiff';
+import { listVersions } from '../services/storageService';
+
+interface VersionHistoryProps {
+  menu: RestaurantMenu; // Current (possibly unsaved) editor state
+  language?: Language;
+  onRestore: (version: MenuVersion) => Promise<void>;
+  onClose: () => void;
+  disabled?: boolean; // Another save is still in flight
+}
+
+const CURRENT = 'current';
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ menu, language, onRestore, onClose, disabled }) => {
+  const [versions, setVersions] = useState<MenuVersion[] | null>(null);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(CURRENT);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const t = getTranslations(language);
+
+  useEffect(() => {
+    listVersions(menu.id)
+      .then((list) => {
+        setVersions(list);
+        // Default to what changed in the latest save
+        if (list.length > 1) {
+          setFromId(list[1].id);
+          setToId(list[0].id);
+        } else if (list.length === 1) {
+          setFromId(list[0].id);
+        }
+      })
+      .catch((e) => {
+        console.error(e);
+        setVersions([]);
+      });
+  }, [menu.id]);
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(getLocale(language), { dateStyle: 'medium', timeStyle: 'short' });
+
+  const resolve = (id: string) => id === CURRENT ? menu : versions?.find(v => v.id === id)?.menu;
+  const fromMenu = resolve(fromId);
+  const toMenu = resolve(toId);
+  const diff = fromMenu && toMenu ? diffMenus(fromMenu, toMenu) : null;
+
+  const handleRestore = async (version: MenuVersion) => {
+    if (!window.confirm(`${t.confirmRestoreVersion} ${formatDate(version.savedAt)}?`)) return;
+    setRestoringId(version.id);
+    try {
+      await onRestore(version);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const versionOptions = (
+    <>
+      <option value={CURRENT}>{t.currentDraft}</option>
+      {(versions || []).map(v => <option key={v.id} value={v.id}>{formatDate(v.savedAt)}</option>)}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white w-full max-w-3xl rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2"><History size={18} /> {t.versionHistory}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 p-1 rounded hover:bg-slate-200"><X size={18} /></button>
+        </div>
+
+        {versions === null ? (
+          <div className="flex justify-center py-16 text-slate-400"><Loader2 className="animate-spin" size={24} /></div>
+        ) : versions.length === 0 ? (
+          <p className="p-10 text-center text-sm text-slate-500">{t.noVersionsYet}</p>
+        ) : (
+          <div className="flex-1 flex flex-col md:flex-row min-h-0">
+            {/* Saved versions */}
+            <ul className="md:w-64 border-b md:border-b-0 md:border-r border-slate-100 overflow-y-auto max-h-48 md:max-h-none divide-y divide-slate-100">
+              {versions.map((version, idx) => (
+                <li key={version.id} className="p-3 flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-slate-700">{formatDate(version.savedAt)}</p>
+                    <p className="text-[11px] text-slate-400 truncate">
+                      {version.authorEmail || t.guestAccount}{idx === 0 && ` · ${t.latestVersion}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(version)}
+                    disabled={disabled || restoringId !== null}
+                    title={t.restoreVersion}
+                    className="text-slate-400 hover:text-brand-600 p-1.5 rounded-lg hover:bg-brand-50 disabled:opacity-50"
+                  >
+                    {restoringId === version.id ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Diff between two versions */}
+            <div className="flex-1 flex flex-col min-h-0">
+              <div className="p-3 border-b border-slate-100 flex items-center gap-2 text-xs">
+                <select value={fromId} onChange={(e) => setFromId(e.target.value)} className="flex-1 min-w-0 p-1.5 border border-slate-200 rounded-lg bg-white">{versionOptions}</select>
+                <ArrowRight size={14} className="text-slate-400 flex-shrink-0" />
+                <select value={toId} onChange={(e) => setToId(e.target.value)} className="flex-1 min-w-0 p-1.5 border border-slate-200 rounded-lg bg-white">{versionOptions}</select>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+                {!diff || isDiffEmpty(diff) ? (
+                  <p className="text-center text-slate-400 py-8">{t.noItemChanges}</p>
+                ) : (
+                  <>
+                    {diff.added.length > 0 && (
+                      <section>
+                        <h4 className="text-[11px] font-bold uppercase text-green-600 mb-1">{t.itemsAdded}</h4>
+                        {diff.added.map(({ item, categoryTitle }) => (
+                          <p key={item.id} className="flex items-center gap-2 text-slate-700">
+                            <Plus size={12} className="text-green-600" /> {item.name}
+                            <span className="text-slate-400 text-xs">· {categoryTitle}</span>
+                          </p>
+                        ))}
+                      </section>
+                    )}
+                    {diff.removed.length > 0 && (
+                      <section>
+                        <h4 className="text-[11px] font-bold uppercase text-red-500 mb-1">{t.itemsRemoved}</h4>
+                        {diff.removed.map(({ item, categoryTitle }) => (
+                          <p key={item.id} className="flex items-center gap-2 text-slate-700">
+                            <Minus size={12} className="text-red-500" /> {item.name}
+                            <span className="text-slate-400 text-xs">· {categoryTitle}</span>
+                          </p>
+                        ))}
+                      </section>
+                    )}
+                    {diff.repriced.length > 0 && (
+                      <section>
+                        <h4 className="text-[11px] font-bold uppercase text-amber-600 mb-1">{t.itemsRepriced}</h4>
+                        {diff.repriced.map(({ item, from, to }) => (
+                          <p key={item.id} className="flex items-center gap-2 text-slate-700">
+                            {item.name}
+                            <span className="text-slate-400 text-xs line-through">{formatPrice(from, fromMenu!.currency, language)}</span>
+                            <ArrowRight size={10} className="text-slate-400" />
+                            <span className="font-bold text-xs">{formatPrice(to, toMenu!.currency, language)}</span>
+                          </p>
+                        ))}
+                      </section>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
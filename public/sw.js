@@ -0,0 +1,103 @@
+// FlashMenu service worker: keeps the app shell, visited menus and their photos available offline.
+// Bump SHELL_CACHE when the caching strategy changes; menu caches follow each menu's revision.
+const SHELL_CACHE = 'flashmenu-shell-v1';
+const MENU_CACHE_PREFIX = 'flashmenu-menu-';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+// Modules, styles and fonts the app shell loads from CDNs
+const SHELL_ORIGINS = [
+  'https://esm.sh',
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com',
+  'https://fonts.gstatic.com',
+];
+
+// Must match offlineMenuUrl in services/offlineCache.ts
+const offlineMenuUrl = (key, value) => `/__offline/menus/${key}/${encodeURIComponent(value)}.json`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith('flashmenu-shell-') && key !== SHELL_CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Serves the cached copy right away and refreshes it in the background
+const staleWhileRevalidate = async (request, fallbackUrl) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request) || (fallbackUrl && await cache.match(fallbackUrl));
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || refresh;
+};
+
+// Photo URLs never change content, so any cached copy is good
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  return fetch(request);
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // HashRouter: every page is the same document
+  if (request.mode === 'navigate') {
+    event.respondWith(staleWhileRevalidate(request, '/'));
+  } else if (request.destination === 'image') {
+    event.respondWith(cacheFirst(request));
+  } else if (url.origin === self.location.origin || SHELL_ORIGINS.includes(url.origin)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+const collectImages = (menu) => [
+  menu.logo,
+  menu.theme?.coverImage,
+  ...(menu.categories || []).flatMap(cat => (cat.items || []).map(item => item.image)),
+].filter(src => src && !src.startsWith('data:'));
+
+// Each menu gets its own cache. A new revision replaces it, carrying over photos that are still used.
+const cacheMenu = async (menu) => {
+  const cacheName = MENU_CACHE_PREFIX + menu.id;
+  const revision = String(menu.revision || 0);
+  const previous = await caches.open(cacheName);
+  const stored = await previous.match(offlineMenuUrl('id', menu.id));
+  if (stored && stored.headers.get('X-Menu-Revision') === revision) return;
+
+  const images = [...new Set(collectImages(menu))];
+  const photos = await Promise.all(images.map(async (src) => {
+    try {
+      return [src, await previous.match(src) || await fetch(src, { mode: 'no-cors' })];
+    } catch {
+      return [src, null]; // Offline right now; the photo is cached on a later visit
+    }
+  }));
+
+  await caches.delete(cacheName);
+  const cache = await caches.open(cacheName);
+  const body = JSON.stringify(menu);
+  const headers = { 'Content-Type': 'application/json', 'X-Menu-Revision': revision };
+  await cache.put(offlineMenuUrl('id', menu.id), new Response(body, { headers }));
+  await cache.put(offlineMenuUrl('slug', menu.slug), new Response(body, { headers }));
+  await Promise.all(photos.filter(([, response]) => response).map(([src, response]) => cache.put(src, response)));
+};
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'CACHE_MENU' && event.data.menu) {
+    event.waitUntil(cacheMenu(event.data.menu).catch(e => console.warn('Offline menu cache failed', e)));
+  }
+});
@@ -0,0 +1,36 @@
+/**
+ * Admin step for menus created before ownership existed: assigns an owner so they become editable again.
+ * Check who the menu belongs to before running it; the rules never let a client claim a menu itself.
+ *
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run claim-menu -- <menuId> <ownerUid>
+ */
+import { applicationDefault, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { migrateMenu } from '../utils/menuMigrations';
+import { getPublicRecord } from '../utils/publishing';
+
+const [menuId, ownerId] = process.argv.slice(2);
+
+const db = getFirestore(initializeApp({ credential: applicationDefault() }));
+
+const claim = async () => {
+  if (!menuId || !ownerId) throw new Error('Usage: npm run claim-menu -- <menuId> <ownerUid>');
+  const menuRef = db.collection('menus').doc(menuId);
+  await db.runTransaction(async transaction => {
+    const stored = await transaction.get(menuRef);
+    if (!stored.exists) throw new Error(`Menu ${menuId} not found`);
+    const raw = stored.data()!;
+    if (raw.ownerId) throw new Error(`Menu ${menuId} already belongs to ${raw.ownerId}`);
+
+    // The revision bump makes editors that loaded the unowned copy reload before saving
+    const claimed = migrateMenu({ ...raw, ownerId, revision: (raw.revision || 0) + 1 });
+    transaction.update(menuRef, { ownerId, revision: claimed.revision });
+    transaction.set(db.collection('publicMenus').doc(menuId), getPublicRecord(claimed));
+  });
+  console.log(`Menu ${menuId} now belongs to ${ownerId}`);
+};
+
+claim().catch(e => {
+  console.error('Claim failed', e);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+/**
+ * One-off admin migration for the private-draft rules: writes the /publicMenus copy of every
+ * menu, which diners read instead of the draft. Safe to run again; copies are rebuilt from the drafts.
+ *
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run migrate:public-menus
+ */
+import { applicationDefault, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { migrateMenu } from '../utils/menuMigrations';
+import { getPublicRecord } from '../utils/publishing';
+
+const BATCH_SIZE = 400; // Firestore allows 500 writes per batch
+
+const db = getFirestore(initializeApp({ credential: applicationDefault() }));
+
+const migrate = async () => {
+  const menus = await db.collection('menus').get();
+  for (let start = 0; start < menus.docs.length; start += BATCH_SIZE) {
+    const batch = db.batch();
+    menus.docs.slice(start, start + BATCH_SIZE).forEach(menuDoc => {
+      batch.set(db.collection('publicMenus').doc(menuDoc.id), getPublicRecord(migrateMenu(menuDoc.data())));
+    });
+    await batch.commit();
+  }
+  console.log(`Wrote ${menus.size} public menu copies`);
+};
+
+migrate().catch(e => {
+  console.error('Migration failed', e);
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+import { AnalyticsEvent, AnalyticsEventType } from "../types";
+import { db } from "./firebase";
+import { collection, doc, writeBatch, query, where, orderBy, limit, getDocs } from "firebase/firestore";
+import { createId } from "../utils/ids";
+
+const EVENTS_KEY = 'flashmenu_events_v1';
+const SESSION_KEY = 'flashmenu_session_v1';
+const MAX_LOCAL_EVENTS = 5000; // Across all menus; localStorage is small
+const MAX_LISTED_EVENTS = 20000;
+const FLUSH_DELAY = 10 * 1000;
+const MAX_QUEUED_EVENTS = 25; // Flushed right away beyond this
+const BATCH_SIZE = 400; // Firestore allows 500 writes per batch
+
+type EventDetails = Pick<AnalyticsEvent, 'source' | 'categoryId' | 'itemId' | 'tableId'>;
+
+let queue: AnalyticsEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let listensForPageHide = false;
+let memorySessionId: string | null = null;
+
+const readLocalEvents = (): AnalyticsEvent[] => {
+  const existingData = localStorage.getItem(EVENTS_KEY);
+  return existingData ? JSON.parse(existingData) : [];
+};
+
+const saveEventsLocally = (events: AnalyticsEvent[]) => {
+  try {
+    localStorage.setItem(EVENTS_KEY, JSON.stringify([...readLocalEvents(), ...events].slice(-MAX_LOCAL_EVENTS)));
+  } catch (e) {
+    console.warn("LocalStorage analytics save failed", e);
+  }
+};
+
+const getSessionId = () => {
+  try {
+    let id = sessionStorage.getItem(SESSION_KEY);
+    if (!id) {
+      id = createId();
+      sessionStorage.setItem(SESSION_KEY, id);
+    }
+    return id;
+  } catch {
+    memorySessionId = memorySessionId || createId(); // Private browsing can block sessionStorage
+    return memorySessionId;
+  }
+};
+
+export const flushEvents = async () => {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  const events = queue;
+  queue = [];
+  if (events.length === 0) return;
+
+  const firestore = db;
+  if (firestore) {
+    try {
+      for (let i = 0; i < events.length; i += BATCH_SIZE) {
+        const batch = writeBatch(firestore);
+        events.slice(i, i + BATCH_SIZE).forEach(event => batch.set(doc(firestore, "menus", event.menuId, "events", event.id), event));
+        await batch.commit();
+      }
+      return;
+    } catch (e) {
+      console.warn("Firestore analytics upload failed. Keeping events locally.", e);
+    }
+  }
+  saveEventsLocally(events);
+};
+
+// Events are queued and written in batches, and whatever is pending goes out when the page is hidden
+export const trackEvent = (menuId: string, type: AnalyticsEventType, details: EventDetails = {}) => {
+  const defined = Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined)) as EventDetails;
+  queue.push({ id: createId(), menuId, type, at: Date.now(), sessionId: getSessionId(), ...defined });
+
+  if (!listensForPageHide) {
+    listensForPageHide = true;
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flushEvents();
+    });
+  }
+  if (queue.length >= MAX_QUEUED_EVENTS) flushEvents();
+  else if (!flushTimer) flushTimer = setTimeout(flushEvents, FLUSH_DELAY);
+};
+
+// Events recorded since `since`, oldest first. Only the menu's owner can read them from Firestore.
+export const listEvents = async (menuId: string, since: number): Promise<AnalyticsEvent[]> => {
+  if (db) {
+    try {
+      const q = query(collection(db, "menus", menuId, "events"), where("at", ">=", since), orderBy("at"), limit(MAX_LISTED_EVENTS));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(d => d.data() as AnalyticsEvent);
+    } catch (e) {
+      console.warn("Firestore analytics failed or offline. Using local events.", e);
+    }
+  }
+
+  return readLocalEvents().filter(event => event.menuId === menuId && event.at >= since);
+};
@@ -0,0 +1,124 @@
+import { auth, db } from "./firebase";
+import {
+  User,
+  onAuthStateChanged,
+  signInAnonymously,
+  sendSignInLinkToEmail,
+  isSignInWithEmailLink,
+  signInWithEmailLink,
+  linkWithCredential,
+  EmailAuthProvider,
+  signOut as firebaseSignOut
+} from "firebase/auth";
+import { RestaurantMenu } from "../types";
+
+const LOCAL_OWNER_KEY = 'flashmenu_owner_v1';
+const EMAIL_FOR_SIGN_IN_KEY = 'flashmenu_signin_email';
+const SIGN_IN_RETURN_KEY = 'flashmenu_signin_return';
+
+export interface OwnerSession {
+  uid: string;
+  email: string | null;
+  isAnonymous: boolean;
+  isLocal: boolean; // True when Firebase is not configured and the owner only exists on this device
+}
+
+// Without Firebase, ownership is tied to a random id persisted on this device
+const getLocalOwnerId = () => {
+  let ownerId = localStorage.getItem(LOCAL_OWNER_KEY);
+  if (!ownerId) {
+    ownerId = `local-${crypto.randomUUID()}`;
+    localStorage.setItem(LOCAL_OWNER_KEY, ownerId);
+  }
+  return ownerId;
+};
+
+const toSession = (user: User): OwnerSession => ({
+  uid: user.uid,
+  email: user.email,
+  isAnonymous: user.isAnonymous,
+  isLocal: false
+});
+
+const waitForAuthReady = (): Promise<User | null> => new Promise((resolve) => {
+  if (!auth) return resolve(null);
+  const unsubscribe = onAuthStateChanged(auth, (user) => {
+    unsubscribe();
+    resolve(user);
+  });
+});
+
+/**
+ * Returns the current owner, signing in anonymously on first use so every menu
+ * can be stamped with an owner. Anonymous accounts can later be upgraded by email link.
+ */
+export const getOwnerSession = async (): Promise<OwnerSession> => {
+  if (!auth) return { uid: getLocalOwnerId(), email: null, isAnonymous: true, isLocal: true };
+
+  const user = await waitForAuthReady();
+  if (user) return toSession(user);
+
+  const credential = await signInAnonymously(auth);
+  return toSession(credential.user);
+};
+
+export const getCurrentOwnerId = async (): Promise<string> => (await getOwnerSession()).uid;
+
+export const onOwnerChange = (callback: (session: OwnerSession | null) => void): (() => void) => {
+  if (!auth) {
+    callback({ uid: getLocalOwnerId(), email: null, isAnonymous: true, isLocal: true });
+    return () => {};
+  }
+  return onAuthStateChanged(auth, (user) => callback(user ? toSession(user) : null));
+};
+
+// Menus created before ownership existed have no ownerId. On this device's own storage the first save claims
+// them; in Firestore they stay read-only until an admin assigns an owner.
+export const canEditMenu = (menu: RestaurantMenu, ownerId: string | null) =>
+  menu.ownerId ? menu.ownerId === ownerId : !db;
+
+export const sendEmailSignInLink = async (email: string): Promise<void> => {
+  if (!auth) throw new Error("Email sign-in requires Firebase to be configured");
+  await sendSignInLinkToEmail(auth, email, {
+    // The hash route is restored from localStorage after the link is opened
+    url: `${window.location.origin}${window.location.pathname}`,
+    handleCodeInApp: true
+  });
+  localStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, email);
+  localStorage.setItem(SIGN_IN_RETURN_KEY, window.location.hash);
+};
+
+/**
+ * Completes an email-link sign-in if the current URL is one. An anonymous session is
+ * upgraded in place so menus it already owns keep the same uid.
+ * Returns the hash route the user started from, or null when there was nothing to complete.
+ */
+export const completeEmailLinkSignIn = async (): Promise<string | null> => {
+  if (!auth || !isSignInWithEmailLink(auth, window.location.href)) return null;
+
+  const email = localStorage.getItem(EMAIL_FOR_SIGN_IN_KEY) || window.prompt('Confirm your email') || '';
+  if (!email) return null;
+
+  const current = await waitForAuthReady();
+  if (current?.isAnonymous) {
+    const credential = EmailAuthProvider.credentialWithLink(email, window.location.href);
+    try {
+      await linkWithCredential(current, credential);
+    } catch (e: any) {
+      // The email already belongs to another account: sign into that one instead
+      if (e?.code !== 'auth/credential-already-in-use' && e?.code !== 'auth/email-already-in-use') throw e;
+      await signInWithEmailLink(auth, email, window.location.href);
+    }
+  } else {
+    await signInWithEmailLink(auth, email, window.location.href);
+  }
+
+  localStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY);
+  const returnHash = localStorage.getItem(SIGN_IN_RETURN_KEY) || '#/';
+  localStorage.removeItem(SIGN_IN_RETURN_KEY);
+  return returnHash;
+};
+
+export const signOut = async (): Promise<void> => {
+  if (auth) await firebaseSignOut(auth);
+};
@@ -1,6 +1,7 @@
 import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
-import { getAuth } from "firebase/auth";
+import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
+import { getStorage, connectStorageEmulator } from "firebase/storage";
 
 const firebaseConfig = {
   apiKey: process.env.FIREBASE_API_KEY,
@@ -17,4 +18,13 @@ const app = (firebaseConfig.apiKey && firebaseConfig.projectId)
   : null;
 
 export const db = app ? getFirestore(app) : null;
-export const auth = app ? getAuth(app) : null;
\ No newline at end of file
+export const auth = app ? getAuth(app) : null;
+export const storage = (app && firebaseConfig.storageBucket) ? getStorage(app) : null;
+
+// Point the SDK at the local Firebase emulator suite (see firebase.json) when requested
+if (process.env.FIREBASE_EMULATOR_HOST) {
+  const host = process.env.FIREBASE_EMULATOR_HOST;
+  if (db) connectFirestoreEmulator(db, host, 8080);
+  if (auth) connectAuthEmulator(auth, `http://${host}:9099`, { disableWarnings: true });
+  if (storage) connectStorageEmulator(storage, host, 9199);
+}
@@ -1,6 +1,14 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { RestaurantMenu, Language } from "../types";
-import { translations } from "../utils/translations";
+import { RestaurantMenu, Language, CurrencyCode, MenuCategory, MenuItem, MenuTheme } from "../types";
+import { getTranslations } from "../utils/translations";
+import { CURRENCIES, formatPrice, getDefaultCurrency, isCurrencyCode, toMinorUnits } from "../utils/price";
+import { ALLERGEN_IDS, DIETARY_TAG_IDS, isAllergen, isDietaryTag, toSpiceLevel } from "../utils/dietary";
+import { createId } from "../utils/ids";
+import { MenuTranslation, getLanguageName } from "../utils/localization";
+import { MenuPage, PageBox, ReviewItem, ReviewCategory } from "../utils/menuImport";
+import { FONT_PAIRINGS, createTheme, isFontPairing } from "../utils/theme";
+import { isHexColor } from "../utils/color";
+import { blobToDataUrl, isDataUrl } from "./imageStorage";
 
 // Initialize Gemini Client
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -18,7 +26,8 @@ const menuSchema = {
   type: Type.OBJECT,
   properties: {
     name: { type: Type.STRING },
-    themeColor: { type: Type.STRING, enum: ["orange", "red", "slate", "emerald", "blue"] },
+    primary_color: { type: Type.STRING, description: "Brand color as a hex code such as #c2410c that suits the establishment." },
+    currency: { type: Type.STRING, enum: Object.keys(CURRENCIES) },
     categories: {
       type: Type.ARRAY,
       items: {
@@ -32,7 +41,11 @@ const menuSchema = {
               properties: {
                 name: { type: Type.STRING },
                 description: { type: Type.STRING },
-                price: { type: Type.STRING }
+                price: { type: Type.NUMBER, description: "Price as a plain number in major units (e.g. 12.5). For ranges, the lowest price." },
+                max_price: { type: Type.NUMBER, description: "Only for ranged prices: the highest price." },
+                dietary: { type: Type.ARRAY, items: { type: Type.STRING, enum: DIETARY_TAG_IDS }, description: "Only tags that clearly apply from the dish name and description." },
+                allergens: { type: Type.ARRAY, items: { type: Type.STRING, enum: ALLERGEN_IDS }, description: "EU allergens the dish very likely contains." },
+                spice_level: { type: Type.INTEGER, description: "0 (not spicy) to 3 (very spicy)." }
               },
               required: ["name", "price"]
             }
@@ -42,9 +55,38 @@ const menuSchema = {
       }
     }
   },
-  required: ["name", "categories", "themeColor"]
+  required: ["name", "categories", "primary_color", "currency"]
 };
 
+interface AIMenuItem { name: string; description?: string; price: number; max_price?: number; dietary?: string[]; allergens?: string[]; spice_level?: number; }
+interface AIMenuCategory { title: string; items: AIMenuItem[]; }
+
+// Converts the AI's major-unit prices into the structured price model and keeps only known tags
+const toMenuItem = (item: AIMenuItem, currency: CurrencyCode): MenuItem => {
+  const amount = toMinorUnits(item.price || 0, currency);
+  const maxAmount = item.max_price ? toMinorUnits(item.max_price, currency) : undefined;
+  const menuItem: MenuItem = {
+    id: createId(),
+    name: item.name,
+    description: item.description || '',
+    price: maxAmount && maxAmount > amount ? { amount, maxAmount } : { amount }
+  };
+  const dietary = (item.dietary || []).filter(isDietaryTag);
+  const allergens = (item.allergens || []).filter(isAllergen);
+  const spiceLevel = toSpiceLevel(item.spice_level);
+  if (dietary.length > 0) menuItem.dietary = dietary;
+  if (allergens.length > 0) menuItem.allergens = allergens;
+  if (spiceLevel) menuItem.spiceLevel = spiceLevel;
+  return menuItem;
+};
+
+const toMenuCategories = (categories: AIMenuCategory[], currency: CurrencyCode): MenuCategory[] =>
+  categories.map(cat => ({
+    id: createId(),
+    title: cat.title,
+    items: cat.items.map(item => toMenuItem(item, currency))
+  }));
+
 export const generateSlug = async (establishmentName: string): Promise<string> => {
   try {
     const response = await ai.models.generateContent({
@@ -66,55 +108,29 @@ export const generateMenuFromAI = async (
   establishmentName: string, 
   businessType: string,
   extraDetails: string = "", 
-  language: Language = 'pt',
-  menuImage?: string // Optional base64 image string
+  language: Language = 'pt'
 ): Promise<Omit<RestaurantMenu, 'id' | 'createdAt' | 'slug'>> => {
   try {
-    const t = translations[language];
-    const langName = language === 'pt' ? 'Portuguese' : 'English';
-    let contents: any;
-
-    if (menuImage) {
-        // Vision Mode: Analyze the uploaded image
-        const base64Data = menuImage.split(',')[1];
-        const mimeType = menuImage.split(';')[0].split(':')[1];
-        
-        const prompt = `Function: generate_menu_from_image
-        Context: Business Type is "${businessType}". Name is "${establishmentName}".
-        Task: Extract menu items, prices and categories from the image. 
-        Language: ${langName}.
-        
-        Rules:
-        - Normalize prices to standard format (e.g. $10.00 or R$10,00).
-        - Create short descriptions if missing.
-        - Infer a theme color.`;
-
-        contents = {
-          parts: [
-            { inlineData: { mimeType, data: base64Data } },
-            { text: prompt }
-          ]
-        };
-    } else {
-        // Text Generation Mode
-        const prompt = `Function: generate_menu_from_text
-        Context: Business Type is "${businessType}". Name is "${establishmentName}".
-        Extra Info: ${extraDetails}
-        Language: ${langName}.
-
-        Task: Create a structured menu.
-        - 3 to 6 categories.
-        - 3 to 5 items per category.
-        - Generate commercial descriptions (max 15 words).
-        - Assign realistic prices.
-        - Choose a theme color (orange, red, slate, emerald, blue).`;
-        
-        contents = prompt;
-    }
+    const t = getTranslations(language);
+    const langName = getLanguageName(language, 'en');
+    const defaultCurrency = getDefaultCurrency(language);
+
+    const prompt = `Function: generate_menu_from_text
+    Context: Business Type is "${businessType}". Name is "${establishmentName}".
+    Extra Info: ${extraDetails}
+    Language: ${langName}.
+
+    Task: Create a structured menu.
+    - 3 to 6 categories.
+    - 3 to 5 items per category.
+    - Generate commercial descriptions (max 15 words).
+    - Assign realistic prices as plain numbers in ${defaultCurrency}.
+    - Tag dietary info, EU allergens and spice level for each item.
+    - Choose a brand color as a hex code.`;
 
     const response = await ai.models.generateContent({
       model: "gemini-2.5-flash",
-      contents: contents,
+      contents: prompt,
       config: {
         responseMimeType: "application/json",
         responseSchema: menuSchema
@@ -123,8 +139,12 @@ export const generateMenuFromAI = async (
 
     if (response.text) {
       const data = JSON.parse(response.text);
+      const currency = isCurrencyCode(data.currency) ? data.currency : defaultCurrency;
       return {
-          ...data,
+          name: data.name,
+          theme: createTheme(data.primary_color),
+          currency,
+          categories: toMenuCategories(data.categories || [], currency),
           businessType
       };
     }
@@ -132,15 +152,18 @@ export const generateMenuFromAI = async (
   } catch (error) {
     console.error("Gemini generation failed", error);
     // Fallback if AI fails (basic template)
+    const t = getTranslations(language);
     return {
       name: establishmentName,
       businessType: businessType,
-      themeColor: "orange",
+      theme: createTheme(),
+      currency: getDefaultCurrency(language),
       categories: [
         {
-          title: language === 'pt' ? "Populares" : "Popular Items",
+          id: createId(),
+          title: t.popularItems,
           items: [
-            { name: "Signature Dish", description: language === 'pt' ? "Especial da casa." : "Our house special.", price: "12.00" }
+            { id: createId(), name: "Signature Dish", description: t.houseSpecial, price: { amount: 1200 } }
           ]
         }
       ]
@@ -148,6 +171,149 @@ export const generateMenuFromAI = async (
   }
 };
 
+const pageSchema = {
+  type: Type.OBJECT,
+  properties: {
+    primary_color: { type: Type.STRING, description: "The dominant brand color printed on the page as a hex code, when there is one." },
+    currency: { type: Type.STRING, enum: Object.keys(CURRENCIES), description: "Only when a currency symbol is visible." },
+    categories: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          items: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                ...menuSchema.properties.categories.items.properties.items.items.properties,
+                box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "[ymin, xmin, ymax, xmax] of the item's name and price on the page, scaled 0-1000." },
+                price_confidence: { type: Type.STRING, enum: ["high", "low"], description: "low when the price is blurry, cut off, handwritten or ambiguous." }
+              },
+              required: ["name", "price", "price_confidence"]
+            }
+          }
+        },
+        required: ["title", "items"]
+      }
+    }
+  },
+  required: ["categories"]
+};
+
+interface AIPageItem extends AIMenuItem { box_2d?: number[]; price_confidence?: string; }
+
+export interface ExtractedPage {
+  primaryColor?: string; // #rrggbb
+  currency?: CurrencyCode;
+  categories: ReviewCategory[]; // Without crops
+}
+
+const toPageBox = (box?: number[]): PageBox | undefined => {
+  if (!box || box.length !== 4 || box.some(n => typeof n !== 'number')) return undefined;
+  const [top, left, bottom, right] = box.map(n => Math.min(1000, Math.max(0, n)) / 1000);
+  return bottom > top && right > left ? [top, left, bottom, right] : undefined;
+};
+
+// Reads one page of an existing menu. Each item keeps where it was found and whether its price is trustworthy.
+export const extractMenuPage = async (
+  page: MenuPage,
+  context: { establishmentName: string; businessType: string; language: Language; currency?: CurrencyCode }
+): Promise<ExtractedPage> => {
+  const [header, base64Data] = page.image.split(',');
+  const mimeType = header.split(';')[0].split(':')[1];
+  const prompt = `Function: extract_menu_page
+  Context: Business Type is "${context.businessType}". Name is "${context.establishmentName}".
+  Task: Extract every menu item, price and category printed on this page.
+  Language: keep names as printed; write missing descriptions in ${getLanguageName(context.language, 'en')}.
+
+  Rules:
+  - Return prices as plain numbers (e.g. 10 or 10.5), without currency symbols.
+  - Use the category heading printed on the page. Items above the first heading belong to the heading that continues from the previous page; name it as printed, or "Menu" if unknown.
+  - Do not invent items or prices. If a price is unreadable, give your best guess and mark price_confidence as low.
+  - Tag dietary info, EU allergens and spice level only when the dish makes them clear.`;
+
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data: base64Data } },
+        { text: prompt }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: pageSchema
+    }
+  });
+  if (!response.text) throw new Error("No data returned from AI");
+
+  const data = JSON.parse(response.text);
+  const currency = isCurrencyCode(data.currency) ? data.currency : context.currency || getDefaultCurrency(context.language);
+  return {
+    ...(isHexColor(data.primary_color) && { primaryColor: data.primary_color }),
+    currency: isCurrencyCode(data.currency) ? data.currency : undefined,
+    categories: (data.categories || []).map((cat: { title: string; items: AIPageItem[] }) => ({
+      id: createId(),
+      title: cat.title,
+      items: (cat.items || []).map(item => {
+        const entry: ReviewItem = {
+          item: toMenuItem(item, currency),
+          pageId: page.id,
+          lowConfidence: item.price_confidence !== 'high' || !item.price
+        };
+        const box = toPageBox(item.box_2d);
+        if (box) entry.box = box;
+        return entry;
+      })
+    }))
+  };
+};
+
+const paletteSchema = {
+  type: Type.OBJECT,
+  properties: {
+    primary: { type: Type.STRING, description: "The logo's main brand color as a hex code (#rrggbb)." },
+    accent: { type: Type.STRING, description: "A second color from the logo, or one that complements the main color, as a hex code." },
+    fonts: { type: Type.STRING, enum: Object.keys(FONT_PAIRINGS), description: "The font pairing closest to the logo's lettering and mood." }
+  },
+  required: ["primary", "accent", "fonts"]
+};
+
+// Reads brand colors and a matching font pairing off the logo. Contrast is fixed later when the palettes are derived.
+export const suggestThemeFromLogo = async (logo: string, menu: RestaurantMenu): Promise<Pick<MenuTheme, 'primary' | 'accent' | 'fonts'>> => {
+  const dataUrl = isDataUrl(logo) ? logo : await blobToDataUrl(await (await fetch(logo)).blob());
+  const [header, base64Data] = dataUrl.split(',');
+  const mimeType = header.split(';')[0].split(':')[1];
+  const prompt = `Function: suggest_palette
+  Restaurant: "${menu.name}" (${menu.businessType || 'restaurant'}).
+  Task: Suggest a digital menu theme from this logo. Ignore white or transparent backgrounds when picking colors.`;
+
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data: base64Data } },
+        { text: prompt }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: paletteSchema
+    }
+  });
+  if (!response.text) throw new Error("No data returned from AI");
+
+  const data = JSON.parse(response.text);
+  if (!isHexColor(data.primary)) throw new Error("AI returned no usable color");
+  return {
+    primary: data.primary.toLowerCase(),
+    accent: isHexColor(data.accent) ? data.accent.toLowerCase() : createTheme().accent,
+    fonts: isFontPairing(data.fonts) ? data.fonts : menu.theme.fonts
+  };
+};
+
 export const generateMenuItemImage = async (itemName: string, itemDesc: string): Promise<string | null> => {
   try {
     const prompt = `Professional food photography, close up, studio lighting, appetizing view of: ${itemName}. ${itemDesc}. High resolution, delicious.`;
@@ -183,7 +349,7 @@ export const generateItemDescription = async (
     language: Language
   ): Promise<string> => {
     try {
-      const langName = language === 'pt' ? 'Portuguese' : 'English';
+      const langName = getLanguageName(language, 'en');
       const prompt = `Write a concise, mouth-watering, appetizing description (max 15 words) for a menu item named "${itemName}". The establishment is a ${businessType}. Language: ${langName}. Return ONLY the text, no quotes.`;
       
       const response = await ai.models.generateContent({
@@ -197,14 +363,96 @@ export const generateItemDescription = async (
     }
 };
 
+const translationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    categories: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { id: { type: Type.STRING }, title: { type: Type.STRING } },
+        required: ["id", "title"]
+      }
+    },
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { id: { type: Type.STRING }, name: { type: Type.STRING }, description: { type: Type.STRING } },
+        required: ["id", "name"]
+      }
+    }
+  },
+  required: ["categories", "items"]
+};
+
+// Translates every category title, item name and description in one request. Results are keyed by the original ids.
+export const translateMenu = async (menu: RestaurantMenu, targetLocale: Language): Promise<MenuTranslation> => {
+  const source = menu.categories.map(cat => ({
+    id: cat.id,
+    title: cat.title,
+    items: cat.items.map(item => ({ id: item.id, name: item.name, description: item.description || undefined }))
+  }));
+  const prompt = `Function: translate_menu
+  Restaurant: "${menu.name}" (${menu.businessType || 'restaurant'}).
+  Translate this menu from ${getLanguageName(menu.language || 'pt', 'en')} to ${getLanguageName(targetLocale, 'en')} (${targetLocale}).
+
+  Rules:
+  - Keep every id exactly as given.
+  - Keep brand names and dish names that are usually not translated (e.g. "Sushi", "Pad Thai"), adapting only the rest.
+  - Keep descriptions appetizing and about the same length.
+
+  Menu: ${JSON.stringify(source)}`;
+
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: translationSchema
+    }
+  });
+  if (!response.text) throw new Error("No data returned from AI");
+
+  const data = JSON.parse(response.text);
+  const translation: MenuTranslation = { categories: {}, items: {} };
+  for (const cat of data.categories || []) {
+    if (cat.id && cat.title) translation.categories[cat.id] = { title: String(cat.title) };
+  }
+  for (const item of data.items || []) {
+    if (!item.id || !item.name) continue;
+    translation.items[item.id] = item.description
+      ? { name: String(item.name), description: String(item.description) }
+      : { name: String(item.name) };
+  }
+  return translation;
+};
+
+// Only what the waiter needs to answer questions: no images, ids or owner data
+const buildChatContext = (menu: RestaurantMenu, language: Language) => JSON.stringify(
+  menu.categories.map(cat => ({
+    category: cat.title,
+    items: cat.items.map(item => ({
+      name: item.name,
+      description: item.description || undefined,
+      price: formatPrice(item.price, menu.currency, language),
+      dietary: item.dietary?.length ? item.dietary : undefined,
+      contains_allergens: item.allergens?.length ? item.allergens : undefined,
+      spice_level: item.spiceLevel || undefined,
+      sold_out: item.soldOut || undefined
+    }))
+  }))
+);
+
 export const chatWithMenu = async (message: string, menuContext: RestaurantMenu, language: Language): Promise<string> => {
   try {
-    const menuString = JSON.stringify(menuContext);
+    const menuString = buildChatContext(menuContext, language);
     const systemInstruction = `You are a helpful, polite waiter AI for the restaurant "${menuContext.name}". 
     Answer questions based ONLY on this menu data: ${menuString}. 
+    "dietary" and "contains_allergens" are the restaurant's own tags (EU allergen list; a missing field means no information, not "free from").
     If asked about items not on the menu, politely say you don't serve that. 
     Keep answers concise (max 3 sentences). 
-    Respond in ${language === 'pt' ? 'Portuguese' : 'English'}.`;
+    Respond in ${getLanguageName(language, 'en')}.`;
 
     const response = await ai.models.generateContent({
       model: "gemini-3-pro-preview",
@@ -218,6 +466,6 @@ export const chatWithMenu = async (message: string, menuContext: RestaurantMenu,
     return response.text || "Sorry, I am busy right now.";
   } catch (error) {
     console.error("Chat failed", error);
-    return language === 'pt' ? "Desculpe, estou tendo problemas para responder agora." : "Sorry, I'm having trouble responding right now.";
+    return getTranslations(language).chatUnavailable;
   }
 };
\ No newline at end of file
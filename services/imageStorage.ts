@@ -0,0 +1,193 @@
+import { storage } from "./firebase";
+import { ref, uploadBytes, getDownloadURL, listAll, deleteObject, getMetadata } from "firebase/storage";
+import { getCurrentOwnerId } from "./authService";
+import { createId } from "../utils/ids";
+import { RestaurantMenu, PublishedMenu } from "../types";
+
+export interface ImageStore {
+  // Persists the image and returns the URL to save on the menu
+  save: (image: Blob, path: string) => Promise<string>;
+  // Deletes every image saved under the folder
+  removeFolder: (path: string) => Promise<void>;
+  // Deletes the given images; URLs the store did not create are ignored
+  remove: (urls: string[]) => Promise<void>;
+  // Deletes images under the folder that are not in `keep` and were created before `createdBefore`
+  removeUnused: (path: string, keep: string[], createdBefore: number) => Promise<void>;
+}
+
+export const isDataUrl = (src?: string) => !!src && src.startsWith('data:');
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Download URLs carry the object path; anything else (data URLs, external links) has none
+const storagePathOf = (url: string) => {
+  try {
+    return ref(storage!, url).fullPath;
+  } catch {
+    return null;
+  }
+};
+
+const firebaseImageStore: ImageStore = {
+  save: async (image, path) => {
+    const fileRef = ref(storage!, path);
+    await uploadBytes(fileRef, image, { contentType: image.type || 'image/jpeg', cacheControl: 'public, max-age=31536000' });
+    return getDownloadURL(fileRef);
+  },
+  removeFolder: async (path) => {
+    const { items } = await listAll(ref(storage!, path));
+    await Promise.all(items.map(item => deleteObject(item)));
+  },
+  remove: async (urls) => {
+    await Promise.allSettled(urls.map(async url => deleteObject(ref(storage!, url))));
+  },
+  removeUnused: async (path, keep, createdBefore) => {
+    const kept = new Set(keep.map(storagePathOf));
+    const { items } = await listAll(ref(storage!, path));
+    await Promise.all(items.filter(item => !kept.has(item.fullPath)).map(async item => {
+      const { timeCreated } = await getMetadata(item);
+      if (Date.parse(timeCreated) < createdBefore) await deleteObject(item);
+    }));
+  }
+};
+
+// Without Firebase Storage, images stay inline next to the locally stored menu
+export const inlineImageStore: ImageStore = {
+  save: (image) => blobToDataUrl(image),
+  removeFolder: async () => {},
+  remove: async () => {},
+  removeUnused: async () => {}
+};
+
+let activeStore: ImageStore = storage ? firebaseImageStore : inlineImageStore;
+
+export const setImageStore = (store: ImageStore) => {
+  activeStore = store;
+};
+
+const menuImageFolder = (ownerId: string, menuId: string) => `menuImages/${ownerId}/${menuId}`;
+
+const extensionFor = (type: string) => type === 'image/png' ? 'png' : type === 'image/webp' ? 'webp' : 'jpg';
+
+/**
+ * Stores a logo or item photo (a blob from the resizer or a data URL from Gemini)
+ * and returns the URL to put on the menu.
+ */
+export const uploadMenuImage = async (menuId: string, image: Blob | string): Promise<string> => {
+  const blob = typeof image === 'string' ? await dataUrlToBlob(image) : image;
+  const ownerId = await getCurrentOwnerId();
+  return activeStore.save(blob, `${menuImageFolder(ownerId, menuId)}/${createId()}.${extensionFor(blob.type)}`);
+};
+
+// Removes every image uploaded for a menu, e.g. when it is deleted
+export const deleteMenuImages = async (menu: RestaurantMenu): Promise<void> => {
+  await activeStore.removeFolder(menuImageFolder(menu.ownerId || await getCurrentOwnerId(), menu.id));
+};
+
+// --- Menu images ---
+
+const getContentImages = (content: PublishedMenu) => [
+  content.logo,
+  content.theme?.coverImage,
+  ...content.categories.flatMap(cat => cat.items.map(item => item.image))
+].filter((src): src is string => !!src);
+
+// Every image the draft and its published copy point at
+export const getMenuImageUrls = (menu: RestaurantMenu): string[] =>
+  [...getContentImages(menu), ...(menu.published ? getContentImages(menu.published) : [])];
+
+// True when the menu still carries inline images that belong in the image store
+export const needsImageUpload = (menu: RestaurantMenu) =>
+  activeStore !== inlineImageStore && getMenuImageUrls(menu).some(src => isDataUrl(src));
+
+// Applies `transform` to the logo, the cover and every item photo
+const mapContentImages = async <T extends PublishedMenu>(content: T, transform: (src: string) => Promise<string>): Promise<T> => {
+  const categories = await Promise.all(content.categories.map(async cat => ({
+    ...cat,
+    items: await Promise.all(cat.items.map(async item =>
+      item.image ? { ...item, image: await transform(item.image) } : item
+    ))
+  })));
+  const mapped = { ...content, categories };
+  if (content.logo) mapped.logo = await transform(content.logo);
+  if (content.theme.coverImage) mapped.theme = { ...content.theme, coverImage: await transform(content.theme.coverImage) };
+  return mapped;
+};
+
+// The draft and the published copy usually share images, so each one is transformed once
+const mapMenuImages = async (menu: RestaurantMenu, transform: (src: string) => Promise<string>): Promise<RestaurantMenu> => {
+  const results = new Map<string, Promise<string>>();
+  const once = (src: string) => {
+    if (!results.has(src)) results.set(src, transform(src));
+    return results.get(src)!;
+  };
+
+  const mapped = await mapContentImages(menu, once);
+  if (menu.published) mapped.published = await mapContentImages(menu.published, once);
+  return mapped;
+};
+
+/**
+ * Moves any inline data-URL images (from menus saved before image uploads existed)
+ * into the image store, returning the menu with URLs in their place and the URLs
+ * that were uploaded. Failed uploads keep the data URL so the image is never lost;
+ * the next save retries.
+ */
+export const externalizeMenuImages = async (menu: RestaurantMenu): Promise<{ menu: RestaurantMenu; uploaded: string[] }> => {
+  if (!needsImageUpload(menu)) return { menu, uploaded: [] };
+
+  const uploaded: string[] = [];
+  const migrated = await mapMenuImages(menu, async src => {
+    if (!isDataUrl(src)) return src;
+    try {
+      const url = await uploadMenuImage(menu.id, src);
+      uploaded.push(url);
+      return url;
+    } catch (e) {
+      console.warn("Image upload failed, keeping inline copy", e);
+      return src;
+    }
+  });
+  return { menu: migrated, uploaded };
+};
+
+/**
+ * Gives a duplicated menu its own copy of every stored image, so deleting or
+ * cleaning up one menu never breaks the other. Inline images are left for the
+ * save to upload.
+ */
+export const copyMenuImages = async (menu: RestaurantMenu): Promise<RestaurantMenu> => {
+  if (activeStore === inlineImageStore) return menu;
+
+  return mapMenuImages(menu, async src => {
+    if (isDataUrl(src)) return src;
+    try {
+      const response = await fetch(src);
+      return response.ok ? await uploadMenuImage(menu.id, await response.blob()) : src;
+    } catch (e) {
+      console.warn("Image copy failed, sharing the original", e);
+      return src;
+    }
+  });
+};
+
+// Deletes uploads that never made it onto a saved menu
+export const deleteImages = async (urls: string[]): Promise<void> => {
+  await activeStore.remove(urls);
+};
+
+/**
+ * Deletes the menu's stored images that none of `keep` points at. Files created
+ * after `createdBefore` are left alone: the editor uploads a photo before the
+ * save that puts it on the menu.
+ */
+export const removeUnusedMenuImages = async (menu: RestaurantMenu, keep: string[], createdBefore: number): Promise<void> => {
+  await activeStore.removeUnused(menuImageFolder(menu.ownerId || await getCurrentOwnerId(), menu.id), keep, createdBefore);
+};
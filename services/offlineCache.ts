@@ -0,0 +1,36 @@
+import { RestaurantMenu } from "../types";
+import { migrateContent } from "../utils/menuMigrations";
+
+// Must match offlineMenuUrl in public/sw.js
+const offlineMenuUrl = (key: 'id' | 'slug', value: string) => `/__offline/menus/${key}/${encodeURIComponent(value)}.json`;
+
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  // The dev server rebuilds modules on every change; caching them would serve stale code
+  if (['localhost', '127.0.0.1'].includes(location.hostname)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(e => console.warn("Service worker registration failed", e));
+  });
+};
+
+// Hands a published menu to the service worker, which stores it with its photos until the revision changes
+export const cacheMenuForOffline = (menu: RestaurantMenu) => {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.ready
+    .then(registration => registration.active?.postMessage({ type: 'CACHE_MENU', menu }))
+    .catch(e => console.warn("Offline menu cache failed", e));
+};
+
+// The copy saved on a previous visit, if any
+export const getOfflineMenu = async (target: { id?: string; slug?: string }): Promise<RestaurantMenu | null> => {
+  if (!('caches' in window)) return null;
+  const url = target.id ? offlineMenuUrl('id', target.id) : target.slug ? offlineMenuUrl('slug', target.slug) : null;
+  if (!url) return null;
+  try {
+    const response = await caches.match(url);
+    return response ? migrateContent(await response.json()) : null;
+  } catch (e) {
+    console.warn("Offline menu read failed", e);
+    return null;
+  }
+};
@@ -1,13 +1,29 @@
-import { RestaurantMenu } from "../types";
+import { RestaurantMenu, MenuVersion } from "../types";
 import { db } from "./firebase";
-import { doc, getDoc, setDoc, collection, query, where, getDocs } from "firebase/firestore";
+import { migrateMenu, migratePublicRecord } from "../utils/menuMigrations";
+import { canEditMenu, getCurrentOwnerId, getOwnerSession, OwnerSession } from "./authService";
+import { copyMenuImages, deleteImages, deleteMenuImages, externalizeMenuImages, getMenuImageUrls, needsImageUpload, removeUnusedMenuImages } from "./imageStorage";
+import { doc, getDoc, setDoc, collection, query, where, getDocs, orderBy, limit, runTransaction, onSnapshot, writeBatch, Firestore } from "firebase/firestore";
+import { createId } from "../utils/ids";
+import { canonical, getPublicMenu, getPublicRecord } from "../utils/publishing";
+
+// Drafts live in `menus` (owner only); diners read `publicMenus`
+const PUBLIC_MENUS = "publicMenus";
 
 const STORAGE_KEY = 'flashmenu_db_v1';
+const VERSIONS_KEY = 'flashmenu_versions_v1';
+const MAX_LOCAL_VERSIONS = 20; // Per menu; localStorage is small
+const MAX_LISTED_VERSIONS = 50;
+const DELETE_BATCH_SIZE = 400; // Firestore allows 500 writes per batch
+
+const readLocalMenus = (): Record<string, RestaurantMenu> => {
+  const existingData = localStorage.getItem(STORAGE_KEY);
+  return existingData ? JSON.parse(existingData) : {};
+};
 
 const saveMenuLocally = (menu: RestaurantMenu) => {
   try {
-    const existingData = localStorage.getItem(STORAGE_KEY);
-    const menus: Record<string, RestaurantMenu> = existingData ? JSON.parse(existingData) : {};
+    const menus = readLocalMenus();
     menus[menu.id] = menu;
     localStorage.setItem(STORAGE_KEY, JSON.stringify(menus));
   } catch (e) {
@@ -15,18 +31,164 @@ const saveMenuLocally = (menu: RestaurantMenu) => {
   }
 };
 
-export const saveMenu = async (menu: RestaurantMenu): Promise<void> => {
-  // Optimistic update: save locally first
-  saveMenuLocally(menu);
+const deleteMenuLocally = (id: string) => {
+  try {
+    const menus = readLocalMenus();
+    delete menus[id];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(menus));
+    const versions = readLocalVersions();
+    delete versions[id];
+    localStorage.setItem(VERSIONS_KEY, JSON.stringify(versions));
+  } catch (e) {
+    console.warn("LocalStorage delete failed", e);
+  }
+};
+
+const readLocalVersions = (): Record<string, MenuVersion[]> => {
+  const existingData = localStorage.getItem(VERSIONS_KEY);
+  return existingData ? JSON.parse(existingData) : {};
+};
+
+const saveVersionLocally = (version: MenuVersion) => {
+  try {
+    const versions = readLocalVersions();
+    versions[version.menuId] = [version, ...(versions[version.menuId] || [])].slice(0, MAX_LOCAL_VERSIONS);
+    localStorage.setItem(VERSIONS_KEY, JSON.stringify(versions));
+  } catch (e) {
+    console.warn("LocalStorage version save failed", e);
+  }
+};
 
-  // Sync to Firestore if available
+const recordVersion = async (menu: RestaurantMenu, session: OwnerSession) => {
+  const version: MenuVersion = {
+    id: createId(),
+    menuId: menu.id,
+    savedAt: menu.updatedAt || Date.now(),
+    authorId: session.uid,
+    authorEmail: session.email,
+    menu: { ...menu, published: null } // History tracks the draft; the live copy is kept separately
+  };
+  saveVersionLocally(version);
   if (db) {
     try {
-      await setDoc(doc(db, "menus", menu.id), menu);
+      await setDoc(doc(db, "menus", menu.id, "versions", version.id), version);
     } catch (e) {
+      console.error("Firestore version save failed", e);
+    }
+  }
+};
+
+// Adds an already saved copy to the history, e.g. the last of a run of autosaves
+export const saveMenuVersion = async (menu: RestaurantMenu): Promise<void> => recordVersion(menu, await getOwnerSession());
+
+export class MenuPermissionError extends Error {
+  constructor(message = "You don't have permission to edit this menu.") {
+    super(message);
+    this.name = 'MenuPermissionError';
+  }
+}
+
+// Someone else saved the menu since this copy was loaded; `remote` is what they saved
+export class MenuConflictError extends Error {
+  constructor(public remote: RestaurantMenu, message = "This menu was changed by someone else.") {
+    super(message);
+    this.name = 'MenuConflictError';
+  }
+}
+
+export interface SaveOptions {
+  recordVersion?: boolean; // Quick service toggles (the 86 list) and most autosaves skip the history
+}
+
+const isStale = (menu: RestaurantMenu, stored: RestaurantMenu) => (stored.revision || 0) !== (menu.revision || 0);
+
+// Checks the save would be accepted before any image is uploaded for it
+const assertCanSave = async (firestore: Firestore, menu: RestaurantMenu) => {
+  try {
+    const stored = await getDoc(doc(firestore, "menus", menu.id));
+    if (stored.exists()) {
+      const remote = migrateMenu(stored.data());
+      if (isStale(menu, remote)) throw new MenuConflictError(remote);
+    }
+  } catch (e: any) {
+    if (e instanceof MenuConflictError) throw e;
+    if (e?.code === 'permission-denied') throw new MenuPermissionError();
+    // Offline: the save itself reports the failure
+  }
+};
+
+// Uploads newer than this are left alone; the editor stores a photo before the save that uses it
+const IMAGE_CLEANUP_GRACE = 60 * 60 * 1000;
+
+// Deletes stored images that neither the menu nor any snapshot in its history points at
+const removeUnusedImages = async (firestore: Firestore, menu: RestaurantMenu) => {
+  const versions = await getDocs(collection(firestore, "menus", menu.id, "versions"));
+  const keep = [menu, ...versions.docs.map(d => (d.data() as MenuVersion).menu)].flatMap(getMenuImageUrls);
+  await removeUnusedMenuImages(menu, keep, Date.now() - IMAGE_CLEANUP_GRACE);
+};
+
+const replacesImages = (previous: RestaurantMenu | null, menu: RestaurantMenu) => {
+  const current = new Set(getMenuImageUrls(menu));
+  return !!previous && getMenuImageUrls(previous).some(src => !current.has(src));
+};
+
+export const saveMenu = async (menu: RestaurantMenu, options: SaveOptions = {}): Promise<RestaurantMenu> => {
+  const session = await getOwnerSession();
+  const ownerId = session.uid;
+  if (!canEditMenu(menu, ownerId)) throw new MenuPermissionError();
+
+  // Unowned (legacy) menus are claimed by whoever saves them first; only possible without Firestore
+  const draft: RestaurantMenu = {
+    ...menu,
+    ownerId: menu.ownerId || ownerId,
+    updatedAt: Date.now(),
+    revision: (menu.revision || 0) + 1
+  };
+
+  // Inline images are uploaded so only their URLs end up in the document
+  if (db && needsImageUpload(draft)) await assertCanSave(db, menu);
+  const { menu: ownedMenu, uploaded } = await externalizeMenuImages(draft);
+
+  // Sync to Firestore if available; the revision check and both writes happen atomically.
+  // The local copy only moves to the new revision once Firestore has it.
+  if (db) {
+    const firestore = db;
+    const menuRef = doc(firestore, "menus", ownedMenu.id);
+    const publicRef = doc(firestore, PUBLIC_MENUS, ownedMenu.id);
+    try {
+      const previous = await runTransaction(firestore, async (transaction) => {
+        const stored = await transaction.get(menuRef);
+        const remote = stored.exists() ? migrateMenu(stored.data()) : null;
+        if (remote && isStale(menu, remote)) throw new MenuConflictError(remote);
+        transaction.set(menuRef, ownedMenu);
+        transaction.set(publicRef, getPublicRecord(ownedMenu));
+        return remote;
+      });
+      // Autosaves only sweep when they drop an image; the rest wait for the next snapshot
+      if (options.recordVersion !== false || replacesImages(previous, ownedMenu)) {
+        removeUnusedImages(firestore, ownedMenu).catch(e => console.warn("Image cleanup failed", e));
+      }
+    } catch (e: any) {
+      const rejected = e instanceof MenuConflictError || e?.code === 'permission-denied';
+      // A rejected save must not leave its uploads behind
+      if (rejected) await deleteImages(uploaded);
+      if (e instanceof MenuConflictError) throw e;
+      // Security rules reject writes from non-owners
+      if (e?.code === 'permission-denied') throw new MenuPermissionError();
+      // Offline or a network error: nothing was stored, so the caller keeps its revision and retries
       console.error("Firestore save failed", e);
+      throw e;
     }
+  } else {
+    // Other tabs in this browser share the local copy
+    const local = readLocalMenus()[menu.id];
+    if (local && isStale(menu, local)) throw new MenuConflictError(migrateMenu(local));
   }
+
+  saveMenuLocally(ownedMenu);
+
+  if (options.recordVersion !== false) await recordVersion(ownedMenu, session);
+  return ownedMenu;
 };
 
 export const getMenu = async (id: string): Promise<RestaurantMenu | null> => {
@@ -36,8 +198,17 @@ export const getMenu = async (id: string): Promise<RestaurantMenu | null> => {
       const docRef = doc(db, "menus", id);
       const docSnap = await getDoc(docRef);
       if (docSnap.exists()) {
-        const menu = docSnap.data() as RestaurantMenu;
+        const menu = migrateMenu(docSnap.data());
         saveMenuLocally(menu); 
+        // Menus from before image uploads still carry inline images, so the owner's copy moves them
+        // to storage as soon as it is opened instead of diners downloading them with every view
+        if (needsImageUpload(menu) && canEditMenu(menu, await getCurrentOwnerId())) {
+          try {
+            return await saveMenu(menu, { recordVersion: false });
+          } catch (e) {
+            console.warn("Image migration failed", e);
+          }
+        }
         return menu;
       }
     } catch (e) {
@@ -49,36 +220,177 @@ export const getMenu = async (id: string): Promise<RestaurantMenu | null> => {
   const existingData = localStorage.getItem(STORAGE_KEY);
   if (!existingData) return null;
   const menus: Record<string, RestaurantMenu> = JSON.parse(existingData);
-  return menus[id] || null;
+  return menus[id] ? migrateMenu(menus[id]) : null;
+};
+
+export const isSlugAvailable = async (slug: string): Promise<boolean> => {
+    if (!db) return !Object.values(readLocalMenus()).some(m => m.slug === slug);
+    const q = query(collection(db, PUBLIC_MENUS), where("slug", "==", slug));
+    const snapshot = await getDocs(q);
+    return snapshot.empty;
+};
+
+// Menus owned by the signed-in owner; falls back to every menu stored on this device when offline
+export const listMenus = async (): Promise<RestaurantMenu[]> => {
+    const byRecent = (a: RestaurantMenu, b: RestaurantMenu) => (b.updatedAt || b.createdAt) - (a.updatedAt || a.createdAt);
+
+    if (db) {
+        try {
+            const ownerId = await getCurrentOwnerId();
+            const q = query(collection(db, "menus"), where("ownerId", "==", ownerId));
+            const snapshot = await getDocs(q);
+            const menus = snapshot.docs.map(d => migrateMenu(d.data()));
+            menus.forEach(saveMenuLocally);
+            return menus.sort(byRecent);
+        } catch (e) {
+            console.warn("Firestore list failed or offline. Using local backup.", e);
+        }
+    }
+
+    return Object.values(readLocalMenus()).map(migrateMenu).sort(byRecent);
+};
+
+// Firestore does not delete subcollections with their document, so they are cleared page by page
+const deleteSubcollection = async (firestore: Firestore, menuId: string, name: string) => {
+    while (true) {
+        const page = await getDocs(query(collection(firestore, "menus", menuId, name), limit(DELETE_BATCH_SIZE)));
+        if (page.empty) return;
+        const batch = writeBatch(firestore);
+        page.docs.forEach(d => batch.delete(d.ref));
+        await batch.commit();
+    }
+};
+
+// Removes the menu with its history, analytics and uploaded images. The menu document goes last,
+// so a failed delete can simply be retried.
+export const deleteMenu = async (menu: RestaurantMenu): Promise<void> => {
+    const ownerId = await getCurrentOwnerId();
+    if (!canEditMenu(menu, ownerId)) throw new MenuPermissionError();
+
+    if (db) {
+        try {
+            await deleteSubcollection(db, menu.id, "versions");
+            await deleteSubcollection(db, menu.id, "events");
+            await deleteMenuImages(menu);
+            const batch = writeBatch(db);
+            batch.delete(doc(db, PUBLIC_MENUS, menu.id));
+            batch.delete(doc(db, "menus", menu.id));
+            await batch.commit();
+        } catch (e: any) {
+            if (e?.code === 'permission-denied') throw new MenuPermissionError();
+            throw e;
+        }
+    }
+    deleteMenuLocally(menu.id);
+};
+
+export const duplicateMenu = async (menu: RestaurantMenu): Promise<RestaurantMenu> => {
+    let slug = `${menu.slug}-copy`;
+    while (!(await isSlugAvailable(slug))) {
+        slug = `${menu.slug}-copy-${Math.floor(Math.random() * 1000)}`;
+    }
+
+    const { publishedAt, revision, ...draft } = menu;
+    const now = Date.now();
+    const copy: RestaurantMenu = {
+        ...draft,
+        id: createId(),
+        slug,
+        name: `${menu.name} (copy)`,
+        ownerId: await getCurrentOwnerId(),
+        createdAt: now,
+        updatedAt: now,
+        published: null
+    };
+    return saveMenu(await copyMenuImages(copy));
 };
 
-// New function to support public slug URLs
-export const getMenuBySlug = async (slug: string): Promise<RestaurantMenu | null> => {
+// Saved snapshots of a menu, newest first
+export const listVersions = async (menuId: string): Promise<MenuVersion[]> => {
     if (db) {
         try {
-            const q = query(collection(db, "menus"), where("slug", "==", slug));
-            const querySnapshot = await getDocs(q);
-            if (!querySnapshot.empty) {
-                return querySnapshot.docs[0].data() as RestaurantMenu;
+            const q = query(collection(db, "menus", menuId, "versions"), orderBy("savedAt", "desc"), limit(MAX_LISTED_VERSIONS));
+            const snapshot = await getDocs(q);
+            if (!snapshot.empty) {
+                return snapshot.docs.map(d => {
+                    const version = d.data() as MenuVersion;
+                    return { ...version, menu: migrateMenu(version.menu) };
+                });
             }
         } catch (e) {
-            console.error("Error fetching by slug", e);
+            console.warn("Firestore history failed or offline. Using local backup.", e);
         }
     }
-    
-    // Fallback to local search
-    const existingData = localStorage.getItem(STORAGE_KEY);
-    if (existingData) {
-        const menus: Record<string, RestaurantMenu> = JSON.parse(existingData);
-        return Object.values(menus).find(m => m.slug === slug) || null;
+
+    return (readLocalVersions()[menuId] || []).map(version => ({ ...version, menu: migrateMenu(version.menu) }));
+};
+
+// Restoring saves the old snapshot as the latest version, so a restore can itself be undone.
+// Only the draft is restored; the published copy stays live until the owner publishes again.
+export const restoreVersion = async (version: MenuVersion, current: RestaurantMenu): Promise<RestaurantMenu> => {
+    const { publishedAt, revision, ...draft } = version.menu;
+    const restored: RestaurantMenu = { ...draft, published: current.published ?? null };
+    if (current.publishedAt) restored.publishedAt = current.publishedAt;
+    if (current.revision) restored.revision = current.revision;
+    return saveMenu(restored);
+};
+
+const findLocalMenu = (target: { id?: string; slug?: string }) =>
+    Object.values(readLocalMenus()).find(menu => target.id ? menu.id === target.id : menu.slug === target.slug);
+
+// The public routes only ever see the published snapshot; the draft document is not readable by diners
+const getPublicMenuBy = async (target: { id?: string; slug?: string }): Promise<RestaurantMenu | null> => {
+    if (db) {
+        try {
+            const snapshot = target.id
+                ? await getDoc(doc(db, PUBLIC_MENUS, target.id))
+                : (await getDocs(query(collection(db, PUBLIC_MENUS), where("slug", "==", target.slug)))).docs[0];
+            if (snapshot?.exists()) return getPublicMenu(migratePublicRecord(snapshot.data()));
+        } catch (e) {
+            console.warn("Firestore access failed or offline. Using local backup.", e);
+        }
     }
-    
-    return null;
+
+    // Menus edited on this device
+    const local = findLocalMenu(target);
+    return local ? getPublicMenu(migrateMenu(local)) : null;
 };
 
-export const isSlugAvailable = async (slug: string): Promise<boolean> => {
-    if (!db) return true; // Can't check
-    const q = query(collection(db, "menus"), where("slug", "==", slug));
-    const snapshot = await getDocs(q);
-    return snapshot.empty;
-};
\ No newline at end of file
+export const getPublishedMenu = (id: string) => getPublicMenuBy({ id });
+
+export const getPublishedMenuBySlug = (slug: string) => getPublicMenuBy({ slug });
+
+// Calls `onChange` whenever the published copy changes: live from Firestore, or through other tabs'
+// localStorage writes when running without Firestore. Draft-only saves are not reported.
+export const subscribeToPublishedMenu = (
+    target: { id?: string; slug?: string },
+    onChange: (menu: RestaurantMenu) => void
+): (() => void) => {
+    let lastSeen = '';
+    const emit = (menu: RestaurantMenu | null) => {
+        if (!menu) return;
+        const { revision, ...content } = menu; // Bumped by draft saves too
+        const snapshot = canonical(content);
+        if (snapshot === lastSeen) return;
+        lastSeen = snapshot;
+        onChange(menu);
+    };
+    const onError = (e: Error) => console.warn("Live menu updates unavailable", e);
+
+    if (db) {
+        const emitRecord = (stored: unknown) => emit(stored ? getPublicMenu(migratePublicRecord(stored)) : null);
+        if (target.id) {
+            return onSnapshot(doc(db, PUBLIC_MENUS, target.id), snap => emitRecord(snap.data()), onError);
+        }
+        const q = query(collection(db, PUBLIC_MENUS), where("slug", "==", target.slug));
+        return onSnapshot(q, snap => emitRecord(snap.docs[0]?.data()), onError);
+    }
+
+    const handleStorage = (e: StorageEvent) => {
+        if (e.key !== STORAGE_KEY) return;
+        const local = findLocalMenu(target);
+        emit(local ? getPublicMenu(migrateMenu(local)) : null);
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+};
@@ -0,0 +1,114 @@
+// Runs against the Firestore emulator: npm run test:rules
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { deleteDoc, doc, getDoc, setDoc, writeBatch } from 'firebase/firestore';
+
+const MENU_ID = 'menu-1';
+
+const storedMenu = (overrides: Record<string, unknown> = {}) => ({
+  id: MENU_ID,
+  slug: 'cafe',
+  name: 'Café',
+  ownerId: 'alice',
+  revision: 1,
+  categories: [],
+  published: null,
+  ...overrides,
+});
+
+let env: RulesTestEnvironment;
+
+const seed = (data: Record<string, unknown>) => env.withSecurityRulesDisabled(async context => {
+  await setDoc(doc(context.firestore(), 'menus', MENU_ID), data);
+});
+
+// Saves the way the app does: the draft and its public copy in one write
+const save = (uid: string, menu: Record<string, unknown>) => {
+  const db = env.authenticatedContext(uid).firestore();
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'menus', MENU_ID), menu);
+  batch.set(doc(db, 'publicMenus', MENU_ID), { id: menu.id, slug: menu.slug, ownerId: menu.ownerId, published: menu.published, revision: menu.revision });
+  return batch.commit();
+};
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-flashmenu',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+beforeEach(() => env.clearFirestore());
+
+afterAll(() => env?.cleanup());
+
+describe('menus', () => {
+  it('lets the owner update with the next revision', async () => {
+    await seed(storedMenu());
+    await assertSucceeds(save('alice', storedMenu({ name: 'Café Central', revision: 2 })));
+  });
+
+  it('rejects updates from someone else', async () => {
+    await seed(storedMenu());
+    await assertFails(save('mallory', storedMenu({ revision: 2 })));
+    await assertFails(save('mallory', storedMenu({ ownerId: 'mallory', revision: 2 })));
+  });
+
+  it('rejects updates that do not bump the revision by one', async () => {
+    await seed(storedMenu());
+    await assertFails(save('alice', storedMenu({ revision: 1 })));
+    await assertFails(save('alice', storedMenu({ revision: 3 })));
+  });
+
+  it('never lets a client claim a menu without an owner', async () => {
+    const { ownerId, ...legacy } = storedMenu();
+    await seed(legacy);
+    await assertFails(save('mallory', storedMenu({ ownerId: 'mallory', revision: 2 })));
+    await assertFails(getDoc(doc(env.authenticatedContext('mallory').firestore(), 'menus', MENU_ID)));
+  });
+
+  it('keeps drafts private to their owner', async () => {
+    await seed(storedMenu());
+    await assertSucceeds(getDoc(doc(env.authenticatedContext('alice').firestore(), 'menus', MENU_ID)));
+    await assertFails(getDoc(doc(env.authenticatedContext('mallory').firestore(), 'menus', MENU_ID)));
+    await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), 'menus', MENU_ID)));
+  });
+
+  it('lets only the owner delete the menu with its history and analytics', async () => {
+    await seed(storedMenu());
+    await env.withSecurityRulesDisabled(async context => {
+      await setDoc(doc(context.firestore(), 'menus', MENU_ID, 'versions', 'v1'), { authorId: 'alice' });
+      await setDoc(doc(context.firestore(), 'menus', MENU_ID, 'events', 'e1'), { id: 'e1', menuId: MENU_ID });
+    });
+    const mallory = env.authenticatedContext('mallory').firestore();
+    await assertFails(deleteDoc(doc(mallory, 'menus', MENU_ID, 'versions', 'v1')));
+    await assertFails(deleteDoc(doc(mallory, 'menus', MENU_ID, 'events', 'e1')));
+    await assertFails(deleteDoc(doc(mallory, 'menus', MENU_ID)));
+
+    const alice = env.authenticatedContext('alice').firestore();
+    await assertSucceeds(deleteDoc(doc(alice, 'menus', MENU_ID, 'versions', 'v1')));
+    await assertSucceeds(deleteDoc(doc(alice, 'menus', MENU_ID, 'events', 'e1')));
+    await assertSucceeds(deleteDoc(doc(alice, 'menus', MENU_ID)));
+  });
+
+  it('lets anyone create a menu in their own name only', async () => {
+    await assertSucceeds(save('alice', storedMenu()));
+    await env.clearFirestore();
+    await assertFails(save('mallory', storedMenu()));
+  });
+});
+
+describe('publicMenus', () => {
+  it('is readable by diners', async () => {
+    await save('alice', storedMenu());
+    await assertSucceeds(getDoc(doc(env.unauthenticatedContext().firestore(), 'publicMenus', MENU_ID)));
+  });
+
+  it('must match the saved draft', async () => {
+    await seed(storedMenu());
+    const db = env.authenticatedContext('alice').firestore();
+    await assertFails(setDoc(doc(db, 'publicMenus', MENU_ID), { id: MENU_ID, slug: 'other', ownerId: 'alice', published: null, revision: 1 }));
+    await assertFails(setDoc(doc(db, 'publicMenus', MENU_ID), { id: MENU_ID, slug: 'cafe', ownerId: 'alice', published: null, revision: 2 }));
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { MenuCategory, MenuItem, RestaurantMenu } from '../types';
+import { mergeMenus } from '../utils/menuMerge';
+import { rebaseDraft } from '../utils/publishing';
+
+const item = (id: string, overrides: Partial<MenuItem> = {}): MenuItem => ({
+  id,
+  name: `Item ${id}`,
+  description: '',
+  price: { amount: 1000 },
+  ...overrides,
+});
+
+const category = (id: string, items: MenuItem[], overrides: Partial<MenuCategory> = {}): MenuCategory => ({
+  id,
+  title: `Category ${id}`,
+  items,
+  ...overrides,
+});
+
+const menu = (categories: MenuCategory[], overrides: Partial<RestaurantMenu> = {}): RestaurantMenu => ({
+  id: 'menu-1',
+  slug: 'cafe',
+  ownerId: 'alice',
+  name: 'Café',
+  theme: { primary: '#000000', accent: '#ffffff', fonts: 'modern', radius: 'rounded' },
+  currency: 'BRL',
+  categories,
+  createdAt: 1,
+  revision: 1,
+  published: null,
+  ...overrides,
+});
+
+// Items of the first category, by id
+const itemIds = (result: RestaurantMenu) => result.categories[0].items.map(entry => entry.id);
+
+describe('mergeMenus', () => {
+  const base = menu([category('c1', [item('a'), item('b'), item('c')])]);
+
+  it('keeps edits both sides made to different fields', () => {
+    const ours = { ...base, name: 'Café Central' };
+    const theirs = { ...base, whatsapp: '5511999999999' };
+    const result = mergeMenus(base, ours, theirs);
+    expect(result.name).toBe('Café Central');
+    expect(result.whatsapp).toBe('5511999999999');
+  });
+
+  it('prefers our value when both sides changed the same field', () => {
+    const result = mergeMenus(base, { ...base, name: 'Ours' }, { ...base, name: 'Theirs' });
+    expect(result.name).toBe('Ours');
+  });
+
+  it('merges fields inside an item both sides edited', () => {
+    const ours = menu([category('c1', [item('a', { name: 'Espresso' }), item('b'), item('c')])]);
+    const theirs = menu([category('c1', [item('a', { price: { amount: 1200 } }), item('b'), item('c')])]);
+    const merged = mergeMenus(base, ours, theirs).categories[0].items[0];
+    expect(merged.name).toBe('Espresso');
+    expect(merged.price).toEqual({ amount: 1200 });
+  });
+
+  it('drops an item the other side deleted when we left it alone', () => {
+    const theirs = menu([category('c1', [item('a'), item('c')])]);
+    expect(itemIds(mergeMenus(base, base, theirs))).toEqual(['a', 'c']);
+  });
+
+  it('keeps an item the other side deleted when we edited it, after their items', () => {
+    const ours = menu([category('c1', [item('a'), item('b', { name: 'Latte' }), item('c')])]);
+    const theirs = menu([category('c1', [item('a'), item('c')])]);
+    const result = mergeMenus(base, ours, theirs);
+    expect(itemIds(result)).toEqual(['a', 'c', 'b']);
+    expect(result.categories[0].items[2].name).toBe('Latte');
+  });
+
+  it('keeps an item we deleted when the other side edited it', () => {
+    const ours = menu([category('c1', [item('a'), item('c')])]);
+    const theirs = menu([category('c1', [item('a'), item('b', { soldOut: true }), item('c')])]);
+    const result = mergeMenus(base, ours, theirs);
+    expect(itemIds(result)).toEqual(['a', 'b', 'c']);
+    expect(result.categories[0].items[1].soldOut).toBe(true);
+  });
+
+  it('follows our order when we reordered, appending what only they added', () => {
+    const ours = menu([category('c1', [item('c'), item('a'), item('b')])]);
+    const theirs = menu([category('c1', [item('a'), item('b'), item('c'), item('d')])]);
+    expect(itemIds(mergeMenus(base, ours, theirs))).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('follows their order when only they reordered, appending what only we added', () => {
+    const ours = menu([category('c1', [item('a'), item('b'), item('c'), item('e')])]);
+    const theirs = menu([category('c1', [item('b'), item('c'), item('a')])]);
+    expect(itemIds(mergeMenus(base, ours, theirs))).toEqual(['b', 'c', 'a', 'e']);
+  });
+
+  it('does not count a deletion as a reorder', () => {
+    const ours = menu([category('c1', [item('a'), item('c')])]);
+    const theirs = menu([category('c1', [item('c'), item('a'), item('b')])]);
+    expect(itemIds(mergeMenus(base, ours, theirs))).toEqual(['c', 'a']);
+  });
+
+  it('keeps categories added on either side', () => {
+    const ours = menu([...base.categories, category('c2', [item('x')])]);
+    const theirs = menu([...base.categories, category('c3', [item('y')])]);
+    expect(mergeMenus(base, ours, theirs).categories.map(cat => cat.id)).toEqual(['c1', 'c3', 'c2']);
+  });
+
+  it("takes the other side's revision and publish state", () => {
+    const published = { ...base, name: 'Live' };
+    const theirs = menu(base.categories, { revision: 4, published, publishedAt: 50, updatedAt: 60 });
+    const ours = menu(base.categories, { revision: 1, name: 'Ours', updatedAt: 10 });
+    const result = mergeMenus(base, ours, theirs);
+    expect(result.revision).toBe(4);
+    expect(result.published).toEqual(published);
+    expect(result.publishedAt).toBe(50);
+    expect(result.updatedAt).toBe(60);
+    expect(result.name).toBe('Ours');
+  });
+
+  it('leaves out publish fields the other side does not have', () => {
+    const ours = menu(base.categories, { publishedAt: 20 });
+    const result = mergeMenus(base, ours, base);
+    expect(result.published).toBeNull();
+    expect('publishedAt' in result).toBe(false);
+  });
+});
+
+describe('rebaseDraft', () => {
+  it('keeps the draft content but takes the stored revision and publish state', () => {
+    const stored = menu([], { revision: 7, published: menu([]), publishedAt: 70 });
+    const draft = menu([category('c1', [item('a')])], { name: 'Draft', revision: 3, published: null });
+    const result = rebaseDraft(draft, stored);
+    expect(result.name).toBe('Draft');
+    expect(result.categories).toEqual(draft.categories);
+    expect(result.revision).toBe(7);
+    expect(result.published).toEqual(stored.published);
+    expect(result.publishedAt).toBe(70);
+  });
+
+  it('drops a publish time the stored copy no longer has', () => {
+    const draft = menu([], { published: menu([]), publishedAt: 70, revision: 2 });
+    const result = rebaseDraft(draft, menu([], { revision: 2 }));
+    expect(result.published).toBeNull();
+    expect('publishedAt' in result).toBe(false);
+  });
+});
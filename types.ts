@@ -1,16 +1,87 @@
-export type Language = 'en' | 'pt';
+export type Language = string; // BCP 47 code, e.g. 'pt', 'en' or 'es-MX'
+
+export type CurrencyCode = 'BRL' | 'USD' | 'EUR' | 'GBP';
+
+export interface Price {
+  amount: number; // Minor units (e.g. cents)
+  maxAmount?: number; // Upper bound for ranged prices such as "12-15"
+}
+
+export interface ItemOption {
+  id: string;
+  name: string;
+  priceDelta: number; // Minor units added to the item price when selected
+}
+
+export interface OptionGroup {
+  id: string;
+  name: string; // e.g. 'Size', 'Extras', 'Remove'
+  required: boolean;
+  min: number; // Minimum selections once the customer picks from this group
+  max: number; // 1 behaves as a single choice (radio)
+  options: ItemOption[];
+}
+
+export type DietaryTag = 'vegan' | 'vegetarian' | 'glutenFree' | 'lactoseFree';
+
+// The 14 allergens EU law requires menus to declare
+export type Allergen =
+  | 'gluten' | 'crustaceans' | 'eggs' | 'fish' | 'peanuts' | 'soybeans' | 'milk'
+  | 'nuts' | 'celery' | 'mustard' | 'sesame' | 'sulphites' | 'lupin' | 'molluscs';
+
+export type SpiceLevel = 0 | 1 | 2 | 3;
+
+// A recurring time window, e.g. weekdays 11:30-15:00. Windows ending before they start run past midnight.
+export interface ScheduleWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"
+}
 
 export interface MenuItem {
+  id: string;
   name: string;
   description: string;
-  price: string;
-  image?: string; // Base64 data URL
+  price: Price;
+  image?: string; // Uploaded image URL (or a legacy base64 data URL)
+  optionGroups?: OptionGroup[];
+  dietary?: DietaryTag[];
+  allergens?: Allergen[]; // Allergens the item contains
+  spiceLevel?: SpiceLevel; // 0 or missing means not spicy
+  soldOut?: boolean; // Flipped from the 86 list during service
+  schedule?: ScheduleWindow[]; // Empty or missing means always available
+  i18n?: Record<Language, { name?: string; description?: string }>; // Translations keyed by locale
 }
 
 export interface MenuCategory {
+  id: string;
   title: string;
   items: MenuItem[];
   highlight?: boolean; // Used for Specials/Highlights
+  schedule?: ScheduleWindow[]; // Applies to every item in the category
+  i18n?: Record<Language, { title?: string }>;
+}
+
+export type FontPairing = 'modern' | 'classic' | 'friendly' | 'elegant';
+
+export type ThemeRadius = 'sharp' | 'rounded' | 'round';
+
+// The viewer derives its light and dark palettes from these
+export interface MenuTheme {
+  primary: string; // Brand color, #rrggbb
+  accent: string; // #rrggbb, used for highlighted categories
+  fonts: FontPairing;
+  radius: ThemeRadius;
+  coverImage?: string; // Uploaded image URL shown behind the header gradient
+}
+
+// How the viewer arranges items: list with thumbnails, photo grid, dense text rows, or centered without prices or a cart
+export type MenuLayout = 'list' | 'grid' | 'compact' | 'centered';
+
+// A dine-in table with its own QR code
+export interface MenuTable {
+  id: string; // Encoded in the table's menu URL
+  name: string; // e.g. "12" or "Patio 3"
 }
 
 export interface RestaurantMenu {
@@ -21,14 +92,64 @@ export interface RestaurantMenu {
   businessType?: string; // e.g., 'Hamburgueria', 'Sushi Bar'
   whatsapp?: string;
   customQrUrl?: string; // Overrides the default menu link in the QR code
-  themeColor: string; // e.g., 'blue', 'orange', 'green'
-  logo?: string; // Base64 data URL for the establishment logo
+  theme: MenuTheme;
+  layout?: MenuLayout; // Defaults to 'list'
+  currency: CurrencyCode;
+  timezone?: string; // IANA zone schedules are evaluated in; defaults to the viewer's device
+  logo?: string; // Uploaded image URL (older menus may still hold a base64 data URL)
   categories: MenuCategory[];
   createdAt: number;
-  language?: Language;
+  updatedAt?: number;
+  revision?: number; // Bumped on every save; a save based on an older revision is rejected
+  language?: Language; // Locale the base content is written in
+  locales?: Language[]; // Extra locales the content is translated into
+  tables?: MenuTable[]; // Live right away, like sold-out flags; not part of the published snapshot
+  published?: PublishedMenu | null; // Snapshot shown on the public routes; null until first published
+  publishedAt?: number;
+}
+
+// The menu as diners see it, frozen at the last publish
+export type PublishedMenu = Omit<RestaurantMenu, 'ownerId' | 'published' | 'publishedAt' | 'updatedAt' | 'revision' | 'tables'>;
+
+// The only copy of a menu anyone can read, stored apart from the owner's draft.
+// Rewritten on every save, so unpublished menus still hold their slug.
+export interface PublicMenuRecord {
+  id: string;
+  slug: string;
+  ownerId?: string; // Missing on menus created before ownership existed
+  published: PublishedMenu | null;
+  publishedAt?: number;
+  revision?: number;
+  tables?: MenuTable[];
+}
+
+// Snapshot of a menu recorded on every save
+export interface MenuVersion {
+  id: string;
+  menuId: string;
+  savedAt: number;
+  authorId: string;
+  authorEmail?: string | null;
+  menu: RestaurantMenu;
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
-}
\ No newline at end of file
+}
+export type AnalyticsEventType = 'menuOpen' | 'categoryView' | 'imageView' | 'cartAdd' | 'cartRemove' | 'chatQuestion';
+
+export type ScanSource = 'qr' | 'link';
+
+// Anonymous viewer activity. Sessions are random per browser tab and never tied to a person.
+export interface AnalyticsEvent {
+  id: string;
+  menuId: string;
+  type: AnalyticsEventType;
+  at: number;
+  sessionId: string;
+  source?: ScanSource; // menuOpen
+  categoryId?: string; // categoryView
+  itemId?: string; // imageView, cartAdd, cartRemove
+  tableId?: string; // Set when the diner scanned a table's QR code
+}
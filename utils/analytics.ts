@@ -0,0 +1,104 @@
+import { AnalyticsEvent, RestaurantMenu, ScanSource } from '../types';
+import { getDeviceTimezone, isValidTimezone } from './availability';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyScans {
+  date: string; // YYYY-MM-DD in the menu's timezone
+  scans: number;
+}
+
+export interface ItemStats {
+  itemId: string;
+  name: string;
+  views: number; // Photo enlargements
+  adds: number; // Cart adds
+}
+
+export interface TableStats {
+  tableId: string;
+  name: string;
+  opens: number;
+  adds: number; // Cart adds
+}
+
+export interface AnalyticsSummary {
+  scans: number;
+  sessions: number;
+  sources: Record<ScanSource, number>;
+  daily: DailyScans[]; // Oldest first, one entry per day in the range
+  topItems: ItemStats[];
+  cartSessions: number; // Sessions that added at least one item
+  conversion: number; // 0..1
+  hours: number[]; // Menu opens per hour of day, 0..23
+  chatQuestions: number;
+  tables: TableStats[]; // Busiest first, only tables that still exist
+}
+
+// Day and hour as seen by the restaurant, which may differ from the owner's device
+const getZonedDateHour = (at: number, timezone?: string) => {
+  const zone = timezone && isValidTimezone(timezone) ? timezone : getDeviceTimezone();
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: zone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', hourCycle: 'h23' })
+    .formatToParts(new Date(at));
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, hour: parseInt(get('hour'), 10) % 24 };
+};
+
+export const getRangeStart = (days: number, now = Date.now()) => now - days * DAY_MS;
+
+export const summarizeEvents = (events: AnalyticsEvent[], menu: RestaurantMenu, days: number, now = Date.now()): AnalyticsSummary => {
+  const opens = events.filter(event => event.type === 'menuOpen');
+  const sessions = new Set(events.map(event => event.sessionId));
+  const cartSessions = new Set(events.filter(event => event.type === 'cartAdd').map(event => event.sessionId));
+
+  const daily: DailyScans[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const { date } = getZonedDateHour(now - i * DAY_MS, menu.timezone);
+    if (!daily.some(day => day.date === date)) daily.push({ date, scans: 0 });
+  }
+  const hours = new Array(24).fill(0);
+  opens.forEach(event => {
+    const { date, hour } = getZonedDateHour(event.at, menu.timezone);
+    const day = daily.find(d => d.date === date);
+    if (day) day.scans++;
+    hours[hour]++;
+  });
+
+  // Items that were removed from the menu since are left out
+  const itemNames = new Map(menu.categories.flatMap(cat => cat.items.map(item => [item.id, item.name] as const)));
+  const stats = new Map<string, ItemStats>();
+  events.forEach(event => {
+    if (!event.itemId || !itemNames.has(event.itemId) || (event.type !== 'imageView' && event.type !== 'cartAdd')) return;
+    const entry = stats.get(event.itemId) || { itemId: event.itemId, name: itemNames.get(event.itemId)!, views: 0, adds: 0 };
+    if (event.type === 'imageView') entry.views++;
+    else entry.adds++;
+    stats.set(event.itemId, entry);
+  });
+  const topItems = [...stats.values()].sort((a, b) => (b.adds - a.adds) || (b.views - a.views)).slice(0, 10);
+
+  const tables = (menu.tables || [])
+    .map(table => ({
+      tableId: table.id,
+      name: table.name,
+      opens: opens.filter(event => event.tableId === table.id).length,
+      adds: events.filter(event => event.tableId === table.id && event.type === 'cartAdd').length,
+    }))
+    .filter(table => table.opens > 0)
+    .sort((a, b) => (b.opens - a.opens) || (b.adds - a.adds));
+
+  return {
+    scans: opens.length,
+    sessions: sessions.size,
+    sources: {
+      qr: opens.filter(event => event.source === 'qr').length,
+      link: opens.filter(event => event.source !== 'qr').length,
+    },
+    daily,
+    topItems,
+    cartSessions: cartSessions.size,
+    conversion: sessions.size > 0 ? cartSessions.size / sessions.size : 0,
+    hours,
+    chatQuestions: events.filter(event => event.type === 'chatQuestion').length,
+    tables,
+  };
+};
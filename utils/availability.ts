@@ -0,0 +1,93 @@
+import { Language, MenuCategory, MenuItem, RestaurantMenu, ScheduleWindow } from '../types';
+import { getLocale } from './price';
+
+export type ItemAvailability = 'available' | 'soldOut' | 'outOfSchedule';
+
+export interface ZonedTime {
+  day: number; // 0 = Sunday
+  minutes: number; // Minutes since midnight
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const getDeviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Day and time of day in the menu's timezone, regardless of where the diner's phone is set
+export const getZonedTime = (timezone?: string, date: Date = new Date()): ZonedTime => {
+  const zone = timezone && isValidTimezone(timezone) ? timezone : getDeviceTimezone();
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: zone, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+  return {
+    day: WEEKDAYS.indexOf(get('weekday')),
+    minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10)
+  };
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+const isWithinWindow = (window: ScheduleWindow, now: ZonedTime) => {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  if (start === end) return window.days.includes(now.day); // All day
+  if (start < end) return window.days.includes(now.day) && now.minutes >= start && now.minutes < end;
+  // Overnight: the window belongs to the day it starts on
+  const previousDay = (now.day + 6) % 7;
+  return (window.days.includes(now.day) && now.minutes >= start) || (window.days.includes(previousDay) && now.minutes < end);
+};
+
+export const isWithinSchedule = (schedule: ScheduleWindow[] | undefined, now: ZonedTime) =>
+  !schedule || schedule.length === 0 || schedule.some(window => isWithinWindow(window, now));
+
+export const getItemAvailability = (item: MenuItem, category: MenuCategory, now: ZonedTime): ItemAvailability => {
+  if (item.soldOut) return 'soldOut';
+  if (!isWithinSchedule(category.schedule, now) || !isWithinSchedule(item.schedule, now)) return 'outOfSchedule';
+  return 'available';
+};
+
+export const getWeekdayNames = (language?: Language) => {
+  // Jan 4th 1970 was a Sunday
+  const formatter = new Intl.DateTimeFormat(getLocale(language), { weekday: 'short', timeZone: 'UTC' });
+  return WEEKDAYS.map((_, day) => formatter.format(new Date(Date.UTC(1970, 0, 4 + day))));
+};
+
+// e.g. "Mon, Tue, Wed 11:30–15:00"
+export const describeSchedule = (schedule: ScheduleWindow[] | undefined, language?: Language) => {
+  if (!schedule || schedule.length === 0) return '';
+  const names = getWeekdayNames(language);
+  return schedule
+    .map(window => {
+      const days = window.days.length === 7 ? '' : `${[...window.days].sort().map(day => names[day]).join(', ')} `;
+      return window.start === window.end ? days.trim() : `${days}${window.start}–${window.end}`;
+    })
+    .join(' · ');
+};
+
+/**
+ * Marks items sold out (or back in stock) on both the draft and the published copy,
+ * so the 86 list takes effect on the public menu without a full publish.
+ */
+export const setItemsSoldOut = (menu: RestaurantMenu, itemIds: string[], soldOut: boolean): RestaurantMenu => {
+  const ids = new Set(itemIds);
+  const apply = (categories: MenuCategory[]) => categories.map(cat => ({
+    ...cat,
+    items: cat.items.map(item => ids.has(item.id) ? { ...item, soldOut } : item)
+  }));
+  return {
+    ...menu,
+    categories: apply(menu.categories),
+    published: menu.published ? { ...menu.published, categories: apply(menu.published.categories) } : menu.published
+  };
+};
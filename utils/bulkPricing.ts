@@ -0,0 +1,60 @@
+import { CurrencyCode, MenuItem, Price, RestaurantMenu } from '../types';
+import { CURRENCIES } from './price';
+
+// Cents a rounded price ends in, e.g. '90' turns 12.37 into 11.90 or 12.90, whichever is closer
+export type PriceRounding = 'none' | '00' | '50' | '90' | '99';
+
+export const PRICE_ROUNDINGS: PriceRounding[] = ['none', '90', '99', '50', '00'];
+
+export interface PriceAdjustment {
+  kind: 'percent' | 'fixed';
+  value: number; // Percent (10 = +10%) or minor units; negative values lower prices
+  rounding: PriceRounding;
+}
+
+export interface PriceChange {
+  item: MenuItem;
+  categoryTitle: string;
+  before: Price;
+  after: Price;
+}
+
+const roundAmount = (amount: number, rounding: PriceRounding, currency: CurrencyCode) => {
+  const digits = CURRENCIES[currency].fractionDigits;
+  if (rounding === 'none' || digits < 2) return amount;
+  const unit = Math.pow(10, digits);
+  const ending = Number(rounding) * Math.pow(10, digits - 2);
+  const rounded = Math.round((amount - ending) / unit) * unit + ending;
+  // Never round a positive price down to nothing
+  return rounded > 0 ? rounded : amount;
+};
+
+export const adjustAmount = (amount: number, adjustment: PriceAdjustment, currency: CurrencyCode) => {
+  const raw = adjustment.kind === 'percent'
+    ? amount * (1 + adjustment.value / 100)
+    : amount + adjustment.value;
+  return roundAmount(Math.max(0, Math.round(raw)), adjustment.rounding, currency);
+};
+
+export const adjustPrice = (price: Price, adjustment: PriceAdjustment, currency: CurrencyCode): Price => {
+  const amount = adjustAmount(price.amount, adjustment, currency);
+  if (price.maxAmount === undefined) return { amount };
+  const maxAmount = adjustAmount(price.maxAmount, adjustment, currency);
+  return maxAmount > amount ? { amount, maxAmount } : { amount };
+};
+
+// Before/after for every selected item, in menu order
+export const previewPriceAdjustment = (menu: RestaurantMenu, itemIds: string[], adjustment: PriceAdjustment): PriceChange[] =>
+  menu.categories.flatMap(cat => cat.items
+    .filter(item => itemIds.includes(item.id))
+    .map(item => ({ item, categoryTitle: cat.title, before: item.price, after: adjustPrice(item.price, adjustment, menu.currency) })));
+
+export const applyPriceAdjustment = (menu: RestaurantMenu, itemIds: string[], adjustment: PriceAdjustment): RestaurantMenu => ({
+  ...menu,
+  categories: menu.categories.map(cat => ({
+    ...cat,
+    items: cat.items.map(item => itemIds.includes(item.id)
+      ? { ...item, price: adjustPrice(item.price, adjustment, menu.currency) }
+      : item),
+  })),
+});
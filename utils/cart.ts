@@ -0,0 +1,90 @@
+import { MenuItem, OptionGroup, RestaurantMenu } from '../types';
+
+// Selected option ids, keyed by option group id
+export type OptionSelections = Record<string, string[]>;
+
+export interface CartLine {
+  key: string;
+  itemId: string;
+  selections: OptionSelections;
+  quantity: number;
+}
+
+export const hasOptions = (item: MenuItem) =>
+  (item.optionGroups || []).some(group => group.options.length > 0);
+
+// Identical configurations of the same item share one cart line
+export const getCartLineKey = (itemId: string, selections: OptionSelections) => {
+  const config = Object.keys(selections)
+    .filter(groupId => selections[groupId].length > 0)
+    .sort()
+    .map(groupId => `${groupId}:${[...selections[groupId]].sort().join(',')}`)
+    .join('|');
+  return config ? `${itemId}#${config}` : itemId;
+};
+
+export const getSelectedOptions = (item: MenuItem, selections: OptionSelections) =>
+  (item.optionGroups || []).flatMap(group =>
+    group.options.filter(option => (selections[group.id] || []).includes(option.id))
+  );
+
+export const getUnitPrice = (item: MenuItem, selections: OptionSelections) =>
+  getSelectedOptions(item, selections).reduce((sum, option) => sum + option.priceDelta, item.price.amount);
+
+export const describeSelections = (item: MenuItem, selections: OptionSelections) =>
+  getSelectedOptions(item, selections).map(option => option.name).join(', ');
+
+export const getGroupMinimum = (group: OptionGroup) => group.required ? Math.max(1, group.min) : group.min;
+
+export const isGroupSatisfied = (group: OptionGroup, selected: string[] = []) => {
+  if (selected.length > group.max) return false;
+  // Optional groups may be skipped entirely, but once used they must reach the minimum
+  if (!group.required && selected.length === 0) return true;
+  return selected.length >= getGroupMinimum(group);
+};
+
+export const areSelectionsValid = (item: MenuItem, selections: OptionSelections) =>
+  (item.optionGroups || []).every(group => isGroupSatisfied(group, selections[group.id]));
+
+// --- Live menu updates ---
+export type CartNoticeKind = 'priceChanged' | 'soldOut' | 'removed';
+
+export interface CartNotice {
+  key: string; // Cart line key
+  kind: CartNoticeKind;
+  itemName: string;
+  before?: number; // Unit prices in minor units, for price changes
+  after?: number;
+}
+
+const findMenuItem = (menu: RestaurantMenu, itemId: string) => {
+  for (const category of menu.categories) {
+    const item = category.items.find(i => i.id === itemId);
+    if (item) return item;
+  }
+  return undefined;
+};
+
+// Brings the cart in line with an updated menu. Lines whose item or chosen options are gone are dropped;
+// lines whose price changed or that sold out are kept (checkout already blocks unavailable lines) and reported.
+export const reconcileCart = (cart: Record<string, CartLine>, before: RestaurantMenu, after: RestaurantMenu) => {
+  const reconciled: Record<string, CartLine> = {};
+  const notices: CartNotice[] = [];
+  (Object.values(cart) as CartLine[]).forEach(line => {
+    const previous = findMenuItem(before, line.itemId);
+    const item = findMenuItem(after, line.itemId);
+    const selectedCount = Object.values(line.selections).reduce((sum, ids) => sum + ids.length, 0);
+    if (!item || getSelectedOptions(item, line.selections).length !== selectedCount) {
+      notices.push({ key: line.key, kind: 'removed', itemName: (item || previous)?.name || '' });
+      return;
+    }
+    reconciled[line.key] = line;
+    if (item.soldOut && !previous?.soldOut) notices.push({ key: line.key, kind: 'soldOut', itemName: item.name });
+    const oldPrice = previous ? getUnitPrice(previous, line.selections) : undefined;
+    const newPrice = getUnitPrice(item, line.selections);
+    if (oldPrice !== undefined && oldPrice !== newPrice) {
+      notices.push({ key: line.key, kind: 'priceChanged', itemName: item.name, before: oldPrice, after: newPrice });
+    }
+  });
+  return { cart: reconciled, notices };
+};
@@ -0,0 +1,72 @@
+// Hex color helpers shared by themes and QR exports. Colors are #rrggbb strings.
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+export const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const toHex = (channel: number) => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0');
+
+export const rgbToHex = (r: number, g: number, b: number) => `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+
+// Hue in degrees, saturation and lightness in 0..100
+export const hexToHsl = (hex: string): [number, number, number] => {
+  const [r, g, b] = hexToRgb(hex).map(channel => channel / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l * 100];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return [h * 60, s * 100, l * 100];
+};
+
+export const hslToHex = (h: number, s: number, l: number) => {
+  const sat = Math.min(100, Math.max(0, s)) / 100;
+  const light = Math.min(100, Math.max(0, l)) / 100;
+  const a = sat * Math.min(light, 1 - light);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return (light - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return rgbToHex(f(0), f(8), f(4));
+};
+
+// `amount` of b mixed into a, 0..1
+export const mixColors = (a: string, b: string, amount: number) => {
+  const from = hexToRgb(a);
+  const to = hexToRgb(b);
+  return rgbToHex(...from.map((channel, i) => channel + (to[i] - channel) * amount) as [number, number, number]);
+};
+
+export const luminance = (hex: string) => {
+  const [r, g, b] = hexToRgb(hex).map(channel => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// WCAG contrast ratio, 1..21
+export const getContrastRatio = (a: string, b: string) => {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// Darkens (on light backgrounds) or lightens (on dark ones) a color until it reaches the ratio, keeping its hue
+export const ensureContrast = (color: string, background: string, ratio: number) => {
+  const [h, s, l] = hexToHsl(color);
+  const step = luminance(background) > 0.18 ? -2 : 2;
+  let result = color;
+  for (let light = l; getContrastRatio(result, background) < ratio && light >= 0 && light <= 100; light += step) {
+    result = hslToHex(h, s, light);
+  }
+  return result;
+};
+
+// Black-ish or white text, whichever reads better on the color
+export const readableTextOn = (background: string) =>
+  getContrastRatio('#ffffff', background) >= getContrastRatio('#0f172a', background) ? '#ffffff' : '#0f172a';
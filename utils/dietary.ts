@@ -0,0 +1,62 @@
+import { Allergen, DietaryTag, MenuItem, SpiceLevel } from '../types';
+import { TranslationKey } from './translations';
+
+export const DIETARY_TAGS: Record<DietaryTag, { icon: string; labelKey: TranslationKey }> = {
+  vegan: { icon: '🌱', labelKey: 'tagVegan' },
+  vegetarian: { icon: '🥕', labelKey: 'tagVegetarian' },
+  glutenFree: { icon: '🌾', labelKey: 'tagGlutenFree' },
+  lactoseFree: { icon: '🥛', labelKey: 'tagLactoseFree' },
+};
+
+export const ALLERGENS: Record<Allergen, { icon: string; labelKey: TranslationKey }> = {
+  gluten: { icon: '🍞', labelKey: 'allergenGluten' },
+  crustaceans: { icon: '🦐', labelKey: 'allergenCrustaceans' },
+  eggs: { icon: '🥚', labelKey: 'allergenEggs' },
+  fish: { icon: '🐟', labelKey: 'allergenFish' },
+  peanuts: { icon: '🥜', labelKey: 'allergenPeanuts' },
+  soybeans: { icon: '🫘', labelKey: 'allergenSoybeans' },
+  milk: { icon: '🧀', labelKey: 'allergenMilk' },
+  nuts: { icon: '🌰', labelKey: 'allergenNuts' },
+  celery: { icon: '🥬', labelKey: 'allergenCelery' },
+  mustard: { icon: '🟡', labelKey: 'allergenMustard' },
+  sesame: { icon: '⚪', labelKey: 'allergenSesame' },
+  sulphites: { icon: '🍷', labelKey: 'allergenSulphites' },
+  lupin: { icon: '🌼', labelKey: 'allergenLupin' },
+  molluscs: { icon: '🦪', labelKey: 'allergenMolluscs' },
+};
+
+export const DIETARY_TAG_IDS = Object.keys(DIETARY_TAGS) as DietaryTag[];
+export const ALLERGEN_IDS = Object.keys(ALLERGENS) as Allergen[];
+export const SPICE_LEVELS: SpiceLevel[] = [0, 1, 2, 3];
+
+export const isDietaryTag = (value: unknown): value is DietaryTag => DIETARY_TAG_IDS.includes(value as DietaryTag);
+export const isAllergen = (value: unknown): value is Allergen => ALLERGEN_IDS.includes(value as Allergen);
+
+export const toSpiceLevel = (value: unknown): SpiceLevel | undefined => {
+  const level = Math.round(Number(value));
+  return level >= 1 && level <= 3 ? level as SpiceLevel : undefined;
+};
+
+export const spiceIcons = (level?: SpiceLevel) => '🌶️'.repeat(level || 0);
+
+export interface ItemFilter {
+  dietary: DietaryTag[]; // Item must carry every selected tag
+  avoidAllergens: Allergen[]; // Item must not list any of these
+  mildOnly: boolean;
+}
+
+export const emptyItemFilter: ItemFilter = { dietary: [], avoidAllergens: [], mildOnly: false };
+
+export const isFilterActive = (filter: ItemFilter) =>
+  filter.dietary.length > 0 || filter.avoidAllergens.length > 0 || filter.mildOnly;
+
+// Vegan dishes are also vegetarian, even when only "vegan" was tagged
+const hasDietaryTag = (item: MenuItem, tag: DietaryTag) => {
+  const tags = item.dietary || [];
+  return tags.includes(tag) || (tag === 'vegetarian' && tags.includes('vegan'));
+};
+
+export const matchesFilter = (item: MenuItem, filter: ItemFilter) =>
+  filter.dietary.every(tag => hasDietaryTag(item, tag)) &&
+  !filter.avoidAllergens.some(allergen => (item.allergens || []).includes(allergen)) &&
+  (!filter.mildOnly || !item.spiceLevel);
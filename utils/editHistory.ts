@@ -0,0 +1,75 @@
+import { useCallback, useState } from 'react';
+
+const HISTORY_LIMIT = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  coalesceKey?: string; // Key of the edit that produced `present`
+}
+
+export interface EditOptions {
+  // Consecutive edits with the same key (e.g. keystrokes in one field) become a single undo step
+  coalesceKey?: string;
+}
+
+export type EditUpdate<T> = T | ((current: T) => T);
+
+export const useEditHistory = <T>(initial: T) => {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((update: EditUpdate<T>, options: EditOptions = {}) => {
+    setState(prev => {
+      const next = typeof update === 'function' ? (update as (current: T) => T)(prev.present) : update;
+      if (next === prev.present) return prev;
+      const coalesce = options.coalesceKey !== undefined && options.coalesceKey === prev.coalesceKey;
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        coalesceKey: options.coalesceKey,
+      };
+    });
+  }, []);
+
+  // Replaces the value and forgets the history, e.g. after loading or saving
+  const reset = useCallback((value: T) => {
+    setState({ past: [], present: value, future: [] });
+  }, []);
+
+  // Swaps the current value without recording a step, e.g. for the copy a save returned
+  const replace = useCallback((update: EditUpdate<T>) => {
+    setState(prev => {
+      const next = typeof update === 'function' ? (update as (current: T) => T)(prev.present) : update;
+      return next === prev.present ? prev : { ...prev, present: next };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future],
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1),
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    reset,
+    replace,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+};
@@ -0,0 +1,5 @@
+// Persistent identifiers for categories, items and option groups
+export const createId = () => crypto.randomUUID();
+
+// Shorter ids for values that end up in URLs and QR codes, where length makes the code denser
+export const createShortId = () => crypto.randomUUID().replace(/-/g, '').slice(0, 10);
@@ -0,0 +1,112 @@
+import { Language, MenuCategory, MenuItem, RestaurantMenu } from '../types';
+
+// Locales offered when adding a translation; any BCP 47 code is accepted
+export const COMMON_LOCALES: Language[] = ['pt', 'en', 'es', 'fr', 'de', 'it', 'nl', 'ja', 'zh', 'ko', 'ar', 'ru'];
+
+const baseLanguage = (locale: string) => locale.toLowerCase().split('-')[0];
+
+export const normalizeLocale = (locale: string) => {
+  try {
+    return Intl.getCanonicalLocales(locale.trim())[0] || null;
+  } catch {
+    return null;
+  }
+};
+
+// e.g. "es" -> "Spanish" (or "Espanhol" when displayed in Portuguese)
+export const getLanguageName = (locale: Language, displayIn: Language = locale) => {
+  try {
+    const name = new Intl.DisplayNames([displayIn], { type: 'language' }).of(locale);
+    return name ? name.charAt(0).toUpperCase() + name.slice(1) : locale;
+  } catch {
+    return locale;
+  }
+};
+
+// Base content language first, followed by the translated locales
+export const getMenuLocales = (menu: Pick<RestaurantMenu, 'language' | 'locales'>): Language[] => {
+  const base = menu.language || 'pt';
+  return [base, ...(menu.locales || []).filter(locale => locale !== base)];
+};
+
+/**
+ * Picks the best available locale for the preferred list (usually navigator.languages):
+ * exact matches win, then a shared base language ("pt-PT" matches "pt"). Falls back to the first available.
+ */
+export const pickLocale = (available: Language[], preferred: readonly string[] = []): Language => {
+  for (const wanted of preferred) {
+    const exact = available.find(locale => locale.toLowerCase() === wanted.toLowerCase());
+    if (exact) return exact;
+    const sameBase = available.find(locale => baseLanguage(locale) === baseLanguage(wanted));
+    if (sameBase) return sameBase;
+  }
+  return available[0];
+};
+
+// --- Applying translations ---
+
+const localizeItem = (item: MenuItem, locale: Language): MenuItem => {
+  const translation = item.i18n?.[locale];
+  return translation
+    ? { ...item, name: translation.name || item.name, description: translation.description || item.description }
+    : item;
+};
+
+const localizeCategory = (category: MenuCategory, locale: Language): MenuCategory => ({
+  ...category,
+  title: category.i18n?.[locale]?.title || category.title,
+  items: category.items.map(item => localizeItem(item, locale)),
+});
+
+// Returns the menu as seen in the given locale; untranslated fields keep the base text
+export const localizeMenu = <T extends RestaurantMenu>(menu: T, locale: Language): T => {
+  if (locale === (menu.language || 'pt')) return menu;
+  return { ...menu, language: locale, categories: menu.categories.map(category => localizeCategory(category, locale)) };
+};
+
+export interface MenuTranslation {
+  categories: Record<string, { title?: string }>; // Keyed by category id
+  items: Record<string, { name?: string; description?: string }>; // Keyed by item id
+}
+
+// Merges a translation (e.g. from Gemini) into the draft and registers its locale
+export const applyMenuTranslation = (menu: RestaurantMenu, locale: Language, translation: MenuTranslation): RestaurantMenu => ({
+  ...menu,
+  locales: getMenuLocales(menu).includes(locale) ? (menu.locales || []) : [...(menu.locales || []), locale],
+  categories: menu.categories.map(category => {
+    const title = translation.categories[category.id]?.title;
+    return {
+      ...category,
+      ...(title && { i18n: { ...category.i18n, [locale]: { title } } }),
+      items: category.items.map(item => {
+        const { name, description } = translation.items[item.id] || {};
+        if (!name && !description) return item;
+        const fields = { ...item.i18n?.[locale], ...(name && { name }), ...(description && { description }) };
+        return { ...item, i18n: { ...item.i18n, [locale]: fields } };
+      }),
+    };
+  }),
+});
+
+// Drops a locale and every translation stored for it
+export const removeMenuLocale = (menu: RestaurantMenu, locale: Language): RestaurantMenu => {
+  const withoutLocale = <T extends { i18n?: Record<string, unknown> }>(entry: T): T => {
+    if (!entry.i18n || !(locale in entry.i18n)) return entry;
+    const { [locale]: _removed, ...rest } = entry.i18n;
+    return { ...entry, i18n: rest };
+  };
+  return {
+    ...menu,
+    locales: (menu.locales || []).filter(l => l !== locale),
+    categories: menu.categories.map(category => ({
+      ...withoutLocale(category),
+      items: category.items.map(withoutLocale),
+    })),
+  };
+};
+
+// How many items have a translated name in the locale
+export const getTranslationCoverage = (menu: RestaurantMenu, locale: Language) => {
+  const items = menu.categories.flatMap(category => category.items);
+  return { translated: items.filter(item => item.i18n?.[locale]?.name).length, total: items.length };
+};
@@ -0,0 +1,48 @@
+import { MenuItem, Price, RestaurantMenu } from '../types';
+
+export interface DiffedItem {
+  item: MenuItem;
+  categoryTitle: string;
+}
+
+export interface RepricedItem extends DiffedItem {
+  from: Price;
+  to: Price;
+}
+
+export interface MenuDiff {
+  added: DiffedItem[];
+  removed: DiffedItem[];
+  repriced: RepricedItem[];
+}
+
+const indexItems = (menu: RestaurantMenu) => {
+  const index = new Map<string, DiffedItem>();
+  menu.categories.forEach(cat => cat.items.forEach(item => index.set(item.id, { item, categoryTitle: cat.title })));
+  return index;
+};
+
+const samePrice = (a: Price, b: Price) => a.amount === b.amount && (a.maxAmount ?? null) === (b.maxAmount ?? null);
+
+// Items are matched by id, so renaming or moving an item between categories is not an add/remove
+export const diffMenus = (from: RestaurantMenu, to: RestaurantMenu): MenuDiff => {
+  const before = indexItems(from);
+  const after = indexItems(to);
+  const diff: MenuDiff = { added: [], removed: [], repriced: [] };
+
+  after.forEach((entry, id) => {
+    const previous = before.get(id);
+    if (!previous) diff.added.push(entry);
+    else if (!samePrice(previous.item.price, entry.item.price)) {
+      diff.repriced.push({ ...entry, from: previous.item.price, to: entry.item.price });
+    }
+  });
+  before.forEach((entry, id) => {
+    if (!after.has(id)) diff.removed.push(entry);
+  });
+
+  return diff;
+};
+
+export const isDiffEmpty = (diff: MenuDiff) =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.repriced.length === 0;
@@ -0,0 +1,132 @@
+import { MenuCategory, MenuItem } from '../types';
+import { createId } from './ids';
+
+// One photographed or PDF page of an existing menu
+export interface MenuPage {
+  id: string;
+  image: string; // JPEG data URL sent to the AI and used for crops
+  label: string; // e.g. "menu.pdf · 2"
+}
+
+// Normalized [top, left, bottom, right], 0-1 of the page size
+export type PageBox = [number, number, number, number];
+
+export interface ReviewItem {
+  item: MenuItem;
+  pageId: string;
+  box?: PageBox;
+  crop?: string; // Source crop shown next to the item while reviewing
+  lowConfidence: boolean; // The price was hard to read and needs a second look
+}
+
+export interface ReviewCategory {
+  id: string;
+  title: string;
+  items: ReviewItem[];
+}
+
+const MAX_PAGE_SIZE = 1600; // Longest side in px; enough to read prices without huge payloads
+
+// --- Loading pages ---
+
+const canvasToDataUrl = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/jpeg', 0.85);
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const imageFileToPage = async (file: File): Promise<MenuPage> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, MAX_PAGE_SIZE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return { id: createId(), image: canvasToDataUrl(canvas), label: file.name };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// pdf.js is only loaded when a PDF is picked
+const pdfFileToPages = async (file: File): Promise<MenuPage[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: MenuPage[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: MAX_PAGE_SIZE / Math.max(base.width, base.height) });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) continue;
+      await page.render({ canvasContext: context, viewport }).promise;
+      pages.push({ id: createId(), image: canvasToDataUrl(canvas), label: `${file.name} · ${pageNumber}` });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+// Turns picked photos and PDFs into page images, keeping the picking order
+export const loadMenuPages = async (files: File[]): Promise<MenuPage[]> => {
+  const pages: MenuPage[] = [];
+  for (const file of files) {
+    if (file.type === 'application/pdf') pages.push(...await pdfFileToPages(file));
+    else if (file.type.startsWith('image/')) pages.push(await imageFileToPage(file));
+  }
+  return pages;
+};
+
+// --- Review ---
+
+// Cuts the item's region (with some margin) out of its page
+export const cropPage = async (page: MenuPage, box: PageBox): Promise<string> => {
+  const img = await loadImage(page.image);
+  const margin = 0.01;
+  const [top, left, bottom, right] = [
+    Math.max(0, box[0] - margin), Math.max(0, box[1] - margin),
+    Math.min(1, box[2] + margin), Math.min(1, box[3] + margin)
+  ];
+  const width = Math.max(1, Math.round((right - left) * img.width));
+  const height = Math.max(1, Math.round((bottom - top) * img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(img, left * img.width, top * img.height, width, height, 0, 0, width, height);
+  return canvasToDataUrl(canvas);
+};
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Merges per-page results in page order; a category continuing on the next page keeps one entry
+export const mergeReviewCategories = (pages: ReviewCategory[][]): ReviewCategory[] => {
+  const merged: ReviewCategory[] = [];
+  for (const categories of pages) {
+    for (const category of categories) {
+      const existing = merged.find(c => normalizeTitle(c.title) === normalizeTitle(category.title));
+      if (existing) existing.items.push(...category.items);
+      else merged.push({ ...category, items: [...category.items] });
+    }
+  }
+  return merged.filter(category => category.items.length > 0);
+};
+
+export const countLowConfidence = (categories: ReviewCategory[]) =>
+  categories.reduce((sum, category) => sum + category.items.filter(entry => entry.lowConfidence).length, 0);
+
+export const fromReviewCategories = (categories: ReviewCategory[]): MenuCategory[] =>
+  categories
+    .filter(category => category.items.length > 0)
+    .map(category => ({ id: category.id, title: category.title, items: category.items.map(entry => entry.item) }));
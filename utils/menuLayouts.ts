@@ -0,0 +1,24 @@
+import { MenuLayout, RestaurantMenu } from '../types';
+import { TranslationKey } from './translations';
+
+export interface MenuLayoutOptions {
+  labelKey: TranslationKey;
+  hintKey: TranslationKey;
+  showImages: boolean;
+  showPrices: boolean;
+  showCart: boolean; // The cart lists prices and a total, so no-price layouts go without it
+}
+
+export const MENU_LAYOUTS: Record<MenuLayout, MenuLayoutOptions> = {
+  list: { labelKey: 'layoutList', hintKey: 'layoutListHint', showImages: true, showPrices: true, showCart: true },
+  grid: { labelKey: 'layoutGrid', hintKey: 'layoutGridHint', showImages: true, showPrices: true, showCart: true },
+  compact: { labelKey: 'layoutCompact', hintKey: 'layoutCompactHint', showImages: false, showPrices: true, showCart: true },
+  centered: { labelKey: 'layoutCentered', hintKey: 'layoutCenteredHint', showImages: false, showPrices: false, showCart: false },
+};
+
+export const MENU_LAYOUT_IDS = Object.keys(MENU_LAYOUTS) as MenuLayout[];
+
+export const isMenuLayout = (value: unknown): value is MenuLayout => typeof value === 'string' && value in MENU_LAYOUTS;
+
+// Imported backups may carry layouts this version does not know
+export const getMenuLayout = (menu: Pick<RestaurantMenu, 'layout'>): MenuLayout => isMenuLayout(menu.layout) ? menu.layout : 'list';
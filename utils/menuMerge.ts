@@ -0,0 +1,61 @@
+import { MenuCategory, RestaurantMenu } from '../types';
+import { canonical } from './publishing';
+
+const same = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+// Three-way pick: the side that changed a value since `base` wins; when both did, ours wins
+const pick = <T>(base: T | undefined, ours: T | undefined, theirs: T | undefined) =>
+  same(ours, base) ? theirs : ours;
+
+const mergeFields = <T extends object>(base: T | undefined, ours: T, theirs: T, skip: (keyof T)[] = []): T => {
+  const merged: Partial<T> = {};
+  const keys = new Set([...Object.keys(ours), ...Object.keys(theirs)] as (keyof T)[]);
+  keys.forEach(key => {
+    if (skip.includes(key)) return;
+    const value = pick(base?.[key], ours[key], theirs[key]);
+    if (value !== undefined) merged[key] = value;
+  });
+  return merged as T;
+};
+
+// Lists are matched by id. An entry deleted on one side stays deleted unless the other side edited it.
+// Whoever reordered the list decides the order; entries only the other side has are appended.
+const mergeList = <T extends { id: string }>(
+  base: T[],
+  ours: T[],
+  theirs: T[],
+  mergeEntry: (base: T | undefined, ours: T, theirs: T) => T
+): T[] => {
+  const byId = (list: T[]) => new Map(list.map(entry => [entry.id, entry]));
+  const [baseById, oursById, theirsById] = [byId(base), byId(ours), byId(theirs)];
+  const weReordered = !same(ours.map(e => e.id).filter(id => baseById.has(id)), base.map(e => e.id).filter(id => oursById.has(id)));
+  const order = weReordered ? [...ours, ...theirs] : [...theirs, ...ours];
+  const ids = [...new Set(order.map(entry => entry.id))];
+
+  return ids.flatMap(id => {
+    const [baseEntry, ourEntry, theirEntry] = [baseById.get(id), oursById.get(id), theirsById.get(id)];
+    if (ourEntry && theirEntry) return [mergeEntry(baseEntry, ourEntry, theirEntry)];
+    const survivor = (ourEntry || theirEntry)!;
+    return baseEntry && same(survivor, baseEntry) ? [] : [survivor];
+  });
+};
+
+const mergeCategory = (base: MenuCategory | undefined, ours: MenuCategory, theirs: MenuCategory): MenuCategory => ({
+  ...mergeFields(base, ours, theirs, ['items']),
+  items: mergeList(base?.items || [], ours.items, theirs.items, mergeFields),
+});
+
+// Combines our unsaved draft with what someone else saved, both starting from `base`.
+// The result carries their revision and publish state, so it can be saved on top of their copy.
+export const mergeMenus = (base: RestaurantMenu, ours: RestaurantMenu, theirs: RestaurantMenu): RestaurantMenu => {
+  const { published, publishedAt, revision, updatedAt, ownerId } = theirs;
+  return {
+    ...mergeFields(base, ours, theirs, ['categories', 'published', 'publishedAt', 'revision', 'updatedAt', 'ownerId']),
+    categories: mergeList(base.categories, ours.categories, theirs.categories, mergeCategory),
+    published: published ?? null,
+    ...(publishedAt ? { publishedAt } : {}),
+    ...(revision ? { revision } : {}),
+    ...(updatedAt ? { updatedAt } : {}),
+    ...(ownerId ? { ownerId } : {}),
+  };
+};
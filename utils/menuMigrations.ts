@@ -0,0 +1,71 @@
+import { RestaurantMenu, MenuItem, MenuCategory, Price, CurrencyCode, PublishedMenu, PublicMenuRecord } from '../types';
+import { detectCurrency, getDefaultCurrency, isCurrencyCode, parsePrice, toMinorUnits } from './price';
+import { createId } from './ids';
+import { migrateTheme } from './theme';
+
+// Menus saved before prices were structured stored them as free text ("R$ 12,00")
+const migratePrice = (price: unknown, currency: CurrencyCode): Price => {
+  if (typeof price === 'string') return parsePrice(price, currency) || { amount: 0 };
+  if (typeof price === 'number') return { amount: toMinorUnits(price, currency) };
+  if (price && typeof (price as Price).amount === 'number') return price as Price;
+  return { amount: 0 };
+};
+
+const inferCurrency = (raw: any): CurrencyCode => {
+  if (isCurrencyCode(raw.currency)) return raw.currency;
+  for (const cat of raw.categories || []) {
+    for (const item of cat.items || []) {
+      const detected = typeof item.price === 'string' ? detectCurrency(item.price) : null;
+      if (detected) return detected;
+    }
+  }
+  return getDefaultCurrency(raw.language);
+};
+
+// Menus saved before ids existed get position-based ids, so they stay stable across loads
+// until the owner saves (which persists them). Duplicates are replaced with fresh ids.
+const ensureUniqueId = (id: unknown, fallback: string, seen: Set<string>) => {
+  let result = typeof id === 'string' && id ? id : fallback;
+  if (seen.has(result)) result = createId();
+  seen.add(result);
+  return result;
+};
+
+// Normalizes currency, ids, prices and theme of menu content, e.g. from a stored menu or an imported backup
+export const migrateContent = (raw: any): RestaurantMenu => {
+  const currency = inferCurrency(raw);
+  const seenIds = new Set<string>();
+  const categories: MenuCategory[] = (raw.categories || []).map((cat: any, catIdx: number) => ({
+    ...cat,
+    id: ensureUniqueId(cat.id, `legacy-c${catIdx}`, seenIds),
+    items: (cat.items || []).map((item: any, itemIdx: number): MenuItem => ({
+      ...item,
+      id: ensureUniqueId(item.id, `legacy-c${catIdx}-i${itemIdx}`, seenIds),
+      description: item.description || '',
+      price: migratePrice(item.price, currency),
+    })),
+  }));
+
+  const { themeColor, ...content } = raw; // Replaced by `theme`
+  return { ...content, currency, theme: migrateTheme(raw), categories };
+};
+
+/**
+ * Brings menus stored by older versions of the app (Firestore or localStorage)
+ * up to the current data model. Safe to run on already-migrated menus.
+ */
+export const migrateMenu = (raw: any): RestaurantMenu => {
+  const menu = migrateContent(raw);
+
+  // Menus saved before drafts existed were live as saved, so they start out published
+  if (!('published' in raw)) {
+    const { ownerId, updatedAt, ...content } = menu;
+    return { ...menu, published: content, publishedAt: updatedAt || menu.createdAt };
+  }
+  return { ...menu, published: raw.published ? migrateContent(raw.published) as PublishedMenu : null };
+};
+
+export const migratePublicRecord = (raw: any): PublicMenuRecord => ({
+  ...raw,
+  published: raw.published ? migrateContent(raw.published) as PublishedMenu : null
+});
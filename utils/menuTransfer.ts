@@ -0,0 +1,361 @@
+import { CurrencyCode, MenuCategory, MenuItem, PublishedMenu, RestaurantMenu } from '../types';
+import { CURRENCIES, fromMinorUnits, parsePrice } from './price';
+import { ALLERGEN_IDS, DIETARY_TAG_IDS, isAllergen, isDietaryTag, toSpiceLevel } from './dietary';
+import { getDraftContent } from './publishing';
+import { migrateContent } from './menuMigrations';
+import { createId } from './ids';
+import { blobToDataUrl } from '../services/imageStorage';
+
+// Bump when the backup layout changes; older backups must keep importing
+export const MENU_EXPORT_VERSION = 1;
+const EXPORT_FORMAT = 'flashmenu-menu';
+
+// The draft plus its tables, so a restored menu keeps its table list
+export type BackupMenu = PublishedMenu & Pick<RestaurantMenu, 'tables'>;
+
+export interface MenuBackup {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  menu: BackupMenu;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export type ImportErrorReason =
+  | 'invalidFile' | 'unsupportedVersion' | 'missingColumns'
+  | 'missingCategory' | 'missingName' | 'invalidPrice'
+  | 'unknownDietary' | 'unknownAllergen' | 'invalidSpiceLevel';
+
+export interface ImportError {
+  line?: number; // 1-based line in the file; missing for file-level errors
+  reason: ImportErrorReason;
+  value?: string;
+}
+
+export interface ImportResult {
+  categories: MenuCategory[];
+  errors: ImportError[];
+  rowCount: number; // Item rows read, including the rejected ones
+  backup?: Omit<BackupMenu, 'id' | 'slug'>; // Set for JSON backups, which carry the whole menu
+}
+
+const COLUMNS = ['category', 'item_id', 'name', 'description', 'price', 'dietary', 'allergens', 'spice_level'] as const;
+type Column = typeof COLUMNS[number];
+
+// Header names owners are likely to type, mapped to our columns
+const COLUMN_ALIASES: Record<string, Column> = {
+  category: 'category', categoria: 'category', section: 'category',
+  item_id: 'item_id', id: 'item_id',
+  name: 'name', item: 'name', nome: 'name',
+  description: 'description', descrição: 'description', descricao: 'description',
+  price: 'price', preço: 'price', preco: 'price',
+  dietary: 'dietary', tags: 'dietary',
+  allergens: 'allergens', alérgenos: 'allergens', alergenos: 'allergens',
+  spice_level: 'spice_level', spice: 'spice_level',
+};
+
+export const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Firefox and Safari cancel the download if the URL is revoked while it starts
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const exportFileName = (menu: RestaurantMenu, extension: string) => `${menu.slug || 'menu'}.${extension}`;
+
+// --- Export ---
+
+// Backups inline uploaded images so they survive without the original storage bucket
+const embedImage = async (url?: string) => {
+  if (!url || url.startsWith('data:')) return url;
+  try {
+    const response = await fetch(url);
+    return response.ok ? await blobToDataUrl(await response.blob()) : url;
+  } catch (e) {
+    console.error('Could not embed image', e);
+    return url;
+  }
+};
+
+export const buildMenuBackup = async (menu: RestaurantMenu): Promise<MenuBackup> => {
+  const content = getDraftContent(menu);
+  const categories = await Promise.all(content.categories.map(async cat => ({
+    ...cat,
+    items: await Promise.all(cat.items.map(async item => item.image ? { ...item, image: await embedImage(item.image) } : item)),
+  })));
+  const logo = await embedImage(content.logo);
+  const coverImage = await embedImage(content.theme.coverImage);
+  return {
+    format: EXPORT_FORMAT,
+    version: MENU_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    menu: {
+      ...content,
+      ...(logo && { logo }),
+      theme: { ...content.theme, ...(coverImage && { coverImage }) },
+      ...(menu.tables?.length ? { tables: menu.tables } : {}),
+      categories,
+    },
+  };
+};
+
+export const exportMenuJson = async (menu: RestaurantMenu) => {
+  const backup = await buildMenuBackup(menu);
+  downloadFile(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), exportFileName(menu, 'json'));
+};
+
+// Machine-friendly price such as "12.50" or "12.50-15.00"; parsePrice reads it back
+const formatPriceCell = (item: MenuItem, currency: CurrencyCode) => {
+  const digits = CURRENCIES[currency].fractionDigits;
+  const format = (amount: number) => fromMinorUnits(amount, currency).toFixed(digits);
+  return item.price.maxAmount !== undefined && item.price.maxAmount > item.price.amount
+    ? `${format(item.price.amount)}-${format(item.price.maxAmount)}`
+    : format(item.price.amount);
+};
+
+const toRows = (menu: RestaurantMenu): string[][] => [
+  [...COLUMNS],
+  ...menu.categories.flatMap(cat => cat.items.map(item => [
+    cat.title,
+    item.id,
+    item.name,
+    item.description,
+    formatPriceCell(item, menu.currency),
+    (item.dietary || []).join('; '),
+    (item.allergens || []).join('; '),
+    item.spiceLevel ? String(item.spiceLevel) : '',
+  ])),
+];
+
+const escapeCsvCell = (cell: string) => /[",\r\n;]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+export const exportMenuCsv = (menu: RestaurantMenu) => {
+  const csv = toRows(menu).map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+  // The BOM makes Excel open the file as UTF-8
+  downloadFile(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), exportFileName(menu, 'csv'));
+};
+
+// SheetJS is only loaded when a spreadsheet is exported or imported. It comes from the SheetJS CDN:
+// the npm registry's `xlsx` stopped at 0.18.5, which has known parsing vulnerabilities.
+export const exportMenuXlsx = async (menu: RestaurantMenu) => {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(toRows(menu)), 'Menu');
+  const data = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  downloadFile(new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), exportFileName(menu, 'xlsx'));
+};
+
+// --- Import ---
+
+// RFC 4180 parsing; Excel in many locales separates cells with ";" so the delimiter is detected from the header
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else cell += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const splitList = (cell: string) => cell.split(/[;,|]/).map(value => value.trim()).filter(Boolean);
+
+// Tag cells hold ids such as "glutenFree"; matching ignores case, spaces and dashes
+const matchId = <T extends string>(value: string, ids: readonly T[]) => {
+  const key = value.toLowerCase().replace(/[\s_-]/g, '');
+  return ids.find(candidate => candidate.toLowerCase() === key) || null;
+};
+
+// Validates item rows and groups them into categories in the order they first appear.
+// Tag columns that are present overwrite the item's tags on merge, even when empty.
+export const rowsToCategories = (rows: string[][], currency: CurrencyCode): ImportResult => {
+  const errors: ImportError[] = [];
+  const header = (rows[0] || []).map(cell => COLUMN_ALIASES[cell.trim().toLowerCase()]);
+  if (!header.includes('category') || !header.includes('name') || !header.includes('price')) {
+    return { categories: [], errors: [{ line: 1, reason: 'missingColumns' }], rowCount: 0 };
+  }
+
+  const categories: MenuCategory[] = [];
+  const seenIds = new Set<string>();
+  let rowCount = 0;
+  rows.slice(1).forEach((cells, index) => {
+    const line = index + 2;
+    if (cells.every(cell => !cell.trim())) return;
+    rowCount++;
+    const get = (column: Column) => (cells[header.indexOf(column)] || '').trim();
+
+    const categoryTitle = get('category');
+    const name = get('name');
+    const price = parsePrice(get('price'), currency);
+    const rowErrors: ImportError[] = [];
+    if (!categoryTitle) rowErrors.push({ line, reason: 'missingCategory' });
+    if (!name) rowErrors.push({ line, reason: 'missingName' });
+    if (!price) rowErrors.push({ line, reason: 'invalidPrice', value: get('price') });
+
+    const dietary = splitList(get('dietary')).map(value => {
+      const tag = matchId(value, DIETARY_TAG_IDS);
+      if (!tag) rowErrors.push({ line, reason: 'unknownDietary', value });
+      return tag;
+    }).filter(isDietaryTag);
+    const allergens = splitList(get('allergens')).map(value => {
+      const allergen = matchId(value, ALLERGEN_IDS);
+      if (!allergen) rowErrors.push({ line, reason: 'unknownAllergen', value });
+      return allergen;
+    }).filter(isAllergen);
+    const spiceCell = get('spice_level');
+    const spiceLevel = toSpiceLevel(spiceCell);
+    if (spiceCell && spiceCell !== '0' && !spiceLevel) rowErrors.push({ line, reason: 'invalidSpiceLevel', value: spiceCell });
+
+    errors.push(...rowErrors);
+    if (rowErrors.length > 0 || !price) return;
+
+    // Repeated ids (e.g. a copied row) become new items
+    const rowId = get('item_id');
+    const id = rowId && !seenIds.has(rowId) ? rowId : createId();
+    seenIds.add(id);
+
+    const item: MenuItem = { id, name, description: get('description'), price };
+    if (header.includes('dietary')) item.dietary = dietary;
+    if (header.includes('allergens')) item.allergens = allergens;
+    if (header.includes('spice_level')) item.spiceLevel = spiceLevel || 0;
+
+    let category = categories.find(cat => cat.title.toLowerCase() === categoryTitle.toLowerCase());
+    if (!category) {
+      category = { id: createId(), title: categoryTitle, items: [] };
+      categories.push(category);
+    }
+    category.items.push(item);
+  });
+
+  return { categories, errors, rowCount };
+};
+
+// Only the envelope is checked here; migrateContent fills in whatever the menu is missing
+const isBackupFile = (data: unknown): data is { version: unknown; menu: { categories: unknown[] } } => {
+  const file = data as { format?: unknown; menu?: { categories?: unknown } } | null;
+  return !!file && typeof file === 'object' && file.format === EXPORT_FORMAT
+    && !!file.menu && typeof file.menu === 'object' && Array.isArray(file.menu.categories);
+};
+
+const parseBackup = (text: string): ImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { categories: [], errors: [{ reason: 'invalidFile' }], rowCount: 0 };
+  }
+  if (!isBackupFile(data)) {
+    return { categories: [], errors: [{ reason: 'invalidFile' }], rowCount: 0 };
+  }
+  if (typeof data.version !== 'number' || data.version > MENU_EXPORT_VERSION) {
+    return { categories: [], errors: [{ reason: 'unsupportedVersion', value: String(data.version) }], rowCount: 0 };
+  }
+  const { id, slug, ownerId, published, publishedAt, updatedAt, ...content } = migrateContent(data.menu);
+  return {
+    categories: content.categories,
+    errors: [],
+    rowCount: content.categories.reduce((sum, cat) => sum + cat.items.length, 0),
+    backup: content,
+  };
+};
+
+// Reads a .json backup, .csv or .xlsx file; rows are priced in the given currency
+export const parseMenuFile = async (file: File, currency: CurrencyCode): Promise<ImportResult> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.json')) return parseBackup(await file.text());
+  if (name.endsWith('.csv')) return rowsToCategories(parseCsv(await file.text()), currency);
+  if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' })
+      .map(row => row.map(cell => String(cell ?? '')));
+    return rowsToCategories(rows, currency);
+  }
+  return { categories: [], errors: [{ reason: 'invalidFile' }], rowCount: 0 };
+};
+
+// --- Applying ---
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Replace swaps every category for the imported ones. Merge matches categories by title and items by id, then by
+ * name (in the same category first), anywhere in the menu, so an item moved to another category in the file is
+ * moved rather than duplicated. Matched items are updated; the rest are appended and nothing is removed.
+ */
+export const applyImportedCategories = (menu: RestaurantMenu, imported: MenuCategory[], mode: ImportMode): RestaurantMenu => {
+  const existingIds = new Set(menu.categories.flatMap(cat => [cat.id, ...cat.items.map(item => item.id)]));
+  if (mode === 'replace') return { ...menu, categories: imported };
+
+  const categories = menu.categories.map(cat => ({ ...cat, items: [...cat.items] }));
+  const updatedIds = new Set<string>(); // Each existing item takes at most one row
+  const findItem = (inCategories: MenuCategory[], matches: (item: MenuItem) => boolean) => {
+    for (const cat of inCategories) {
+      const index = cat.items.findIndex(item => !updatedIds.has(item.id) && matches(item));
+      if (index !== -1) return { cat, index };
+    }
+    return null;
+  };
+
+  for (const importedCat of imported) {
+    let target = categories.find(cat => sameName(cat.title, importedCat.title));
+    if (!target) {
+      target = { ...importedCat, id: existingIds.has(importedCat.id) ? createId() : importedCat.id, items: [] };
+      categories.push(target);
+    }
+    for (const item of importedCat.items) {
+      const found = findItem(categories, existing => existing.id === item.id)
+        || findItem([target], existing => sameName(existing.name, item.name))
+        || findItem(categories, existing => sameName(existing.name, item.name));
+      if (!found) {
+        const added = { ...item, id: existingIds.has(item.id) ? createId() : item.id };
+        updatedIds.add(added.id);
+        target.items.push(added);
+        continue;
+      }
+      const existing = found.cat.items[found.index];
+      // Files without a description column must not wipe existing descriptions
+      const updated = { ...existing, ...item, id: existing.id, description: item.description || existing.description };
+      updatedIds.add(existing.id);
+      if (found.cat === target) {
+        target.items[found.index] = updated;
+      } else {
+        found.cat.items.splice(found.index, 1);
+        target.items.push(updated);
+      }
+    }
+  }
+  return { ...menu, categories };
+};
@@ -0,0 +1,113 @@
+import { CurrencyCode, Language, Price } from '../types';
+
+export const CURRENCIES: Record<CurrencyCode, { label: string; symbol: string; fractionDigits: number }> = {
+  BRL: { label: 'Real (R$)', symbol: 'R$', fractionDigits: 2 },
+  USD: { label: 'US Dollar ($)', symbol: '$', fractionDigits: 2 },
+  EUR: { label: 'Euro (€)', symbol: '€', fractionDigits: 2 },
+  GBP: { label: 'Pound (£)', symbol: '£', fractionDigits: 2 },
+};
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === 'string' && value in CURRENCIES;
+
+// Bare language codes get a regional default for number and date formatting
+const DEFAULT_REGIONS: Record<string, string> = { pt: 'pt-BR', en: 'en-US', es: 'es-ES', fr: 'fr-FR', de: 'de-DE', it: 'it-IT' };
+
+export const getLocale = (language: Language = 'pt') => DEFAULT_REGIONS[language] || language;
+
+const EURO_LANGUAGES = ['es', 'fr', 'de', 'it', 'nl'];
+
+export const getDefaultCurrency = (language: Language = 'pt'): CurrencyCode => {
+  const base = language.toLowerCase().split('-')[0];
+  if (base === 'pt') return language.toLowerCase() === 'pt-pt' ? 'EUR' : 'BRL';
+  if (language.toLowerCase() === 'en-gb') return 'GBP';
+  return EURO_LANGUAGES.includes(base) ? 'EUR' : 'USD';
+};
+
+const factor = (currency: CurrencyCode) => Math.pow(10, CURRENCIES[currency].fractionDigits);
+
+export const toMinorUnits = (major: number, currency: CurrencyCode) => Math.round(major * factor(currency));
+
+export const fromMinorUnits = (amount: number, currency: CurrencyCode) => amount / factor(currency);
+
+// --- Formatting ---
+
+export const formatAmount = (amount: number, currency: CurrencyCode, language: Language = 'pt') =>
+  new Intl.NumberFormat(getLocale(language), { style: 'currency', currency }).format(fromMinorUnits(amount, currency));
+
+export const formatPrice = (price: Price, currency: CurrencyCode, language: Language = 'pt') => {
+  const base = formatAmount(price.amount, currency, language);
+  return price.maxAmount !== undefined && price.maxAmount > price.amount
+    ? `${base} – ${formatAmount(price.maxAmount, currency, language)}`
+    : base;
+};
+
+// Number-only representation used by editable price fields (e.g. "1.234,50" or "12,00-15,00")
+export const formatPriceInput = (price: Price, currency: CurrencyCode, language: Language = 'pt') => {
+  const digits = CURRENCIES[currency].fractionDigits;
+  const format = (amount: number) => new Intl.NumberFormat(getLocale(language), {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(fromMinorUnits(amount, currency));
+  return price.maxAmount !== undefined && price.maxAmount > price.amount
+    ? `${format(price.amount)}-${format(price.maxAmount)}`
+    : format(price.amount);
+};
+
+// --- Parsing ---
+
+export const detectCurrency = (input: string): CurrencyCode | null => {
+  if (/R\$/i.test(input)) return 'BRL';
+  if (/€|EUR/i.test(input)) return 'EUR';
+  if (/£|GBP/i.test(input)) return 'GBP';
+  if (/\$|USD/i.test(input)) return 'USD';
+  return null;
+};
+
+const parseNumber = (raw: string): number | null => {
+  const cleaned = raw.replace(/[^0-9.,]/g, '');
+  if (!/[0-9]/.test(cleaned)) return null;
+
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+  let normalized: string;
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    // Both separators present: whichever comes last is the decimal separator
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    normalized = cleaned.split(thousands).join('').replace(decimal, '.');
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const parts = cleaned.split(separator);
+    const fraction = parts[parts.length - 1];
+    // A single separator followed by 1-2 digits is a decimal mark; otherwise it groups thousands
+    normalized = parts.length === 2 && fraction.length > 0 && fraction.length <= 2
+      ? `${parts[0]}.${fraction}`
+      : parts.join('');
+  } else {
+    normalized = cleaned;
+  }
+
+  const value = parseFloat(normalized);
+  return isNaN(value) ? null : value;
+};
+
+/**
+ * Parses free-text prices such as "R$ 1.234,50", "$10", "12,5" or ranges like "12-15"
+ * into a structured price. Returns null when no number can be found.
+ */
+export const parsePrice = (input: string, currency: CurrencyCode): Price | null => {
+  const parts = input.split(/\s*[-–—]\s*|\s+(?:a|to|até)\s+/i).filter(part => /[0-9]/.test(part));
+  if (parts.length === 0) return null;
+
+  const min = parseNumber(parts[0]);
+  if (min === null) return null;
+
+  const price: Price = { amount: toMinorUnits(min, currency) };
+  if (parts.length > 1) {
+    const max = parseNumber(parts[1]);
+    if (max !== null && max > min) price.maxAmount = toMinorUnits(max, currency);
+  }
+  return price;
+};
@@ -0,0 +1,63 @@
+import { TranslationKey } from './translations';
+
+export type PrintTemplate = 'single' | 'twoColumn' | 'chalkboard';
+
+export interface PrintTemplateStyle {
+  labelKey: TranslationKey;
+  page: string; // CSS for @page; chalkboard prints edge to edge
+  background?: string; // Repeated on every printed page
+  body: string;
+  content: string; // Wraps the categories; multi-column templates flow here
+  header: string;
+  category: string;
+  categoryTitle: string;
+  itemName: string;
+  price: string;
+  muted: string;
+  tag: string;
+}
+
+export const PRINT_TEMPLATES: Record<PrintTemplate, PrintTemplateStyle> = {
+  single: {
+    labelKey: 'templateSingle',
+    page: 'size: A4; margin: 16mm 18mm;',
+    body: 'text-black font-sans',
+    content: 'max-w-[150mm] mx-auto space-y-8',
+    header: 'text-center mb-10',
+    category: 'break-inside-avoid',
+    categoryTitle: 'text-xl font-bold text-center border-b-2 border-black pb-2 mb-5 uppercase tracking-wider',
+    itemName: 'font-bold',
+    price: 'font-bold whitespace-nowrap',
+    muted: 'text-gray-600',
+    tag: 'border border-gray-300 text-gray-700',
+  },
+  twoColumn: {
+    labelKey: 'templateTwoColumn',
+    page: 'size: A4; margin: 14mm;',
+    body: 'text-black font-sans',
+    content: 'columns-2 gap-10 [column-rule:1px_solid_#e5e7eb]',
+    header: 'flex items-center gap-5 border-b-4 border-black pb-5 mb-8',
+    category: 'break-inside-avoid mb-7',
+    categoryTitle: 'text-base font-black uppercase tracking-widest mb-3 break-after-avoid',
+    itemName: 'font-bold text-sm',
+    price: 'font-bold text-sm whitespace-nowrap',
+    muted: 'text-gray-600 text-xs',
+    tag: 'bg-gray-100 text-gray-700',
+  },
+  chalkboard: {
+    labelKey: 'templateChalkboard',
+    page: 'size: A4; margin: 0;',
+    background: 'bg-[#23302b]',
+    body: 'text-[#f5f1e6] p-[16mm] font-serif [box-decoration-break:clone] [-webkit-box-decoration-break:clone]', // Padding repeats on every page
+    content: 'space-y-9',
+    header: 'text-center mb-10 border-b border-dashed border-[#f5f1e6]/40 pb-8',
+    category: 'break-inside-avoid',
+    categoryTitle: 'text-3xl italic text-center text-[#f3d98b] mb-5 [font-family:"Bradley_Hand","Segoe_Print","Comic_Sans_MS",cursive]',
+    itemName: 'font-bold text-lg',
+    price: 'font-bold text-lg text-[#f3d98b] whitespace-nowrap',
+    muted: 'text-[#f5f1e6]/70 italic',
+    tag: 'border border-[#f5f1e6]/40 text-[#f5f1e6]/80',
+  },
+};
+
+export const PRINT_TEMPLATE_IDS = Object.keys(PRINT_TEMPLATES) as PrintTemplate[];
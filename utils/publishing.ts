@@ -0,0 +1,62 @@
+import { PublicMenuRecord, PublishedMenu, RestaurantMenu } from '../types';
+
+// Fields that describe the draft itself rather than what diners see
+export const getDraftContent = (menu: RestaurantMenu): PublishedMenu => {
+  const { ownerId, published, publishedAt, updatedAt, revision, tables, ...content } = menu;
+  return content;
+};
+
+// Drafts can come back from the undo history, so the publish state and revision are taken from the stored copy
+export const rebaseDraft = (draft: RestaurantMenu, stored: RestaurantMenu): RestaurantMenu => {
+  const { published, publishedAt, revision, ...content } = draft;
+  return {
+    ...content,
+    published: stored.published ?? null,
+    ...(stored.publishedAt ? { publishedAt: stored.publishedAt } : {}),
+    ...(stored.revision ? { revision: stored.revision } : {}),
+  };
+};
+
+// Firestore does not preserve key order, so snapshots are compared with sorted keys
+export const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonical(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const publishMenu = (menu: RestaurantMenu): RestaurantMenu => ({
+  ...menu,
+  published: getDraftContent(menu),
+  publishedAt: Date.now()
+});
+
+export const hasUnpublishedChanges = (menu: RestaurantMenu) =>
+  !menu.published || canonical(getDraftContent(menu)) !== canonical(menu.published);
+
+export const getPublicRecord = (menu: RestaurantMenu): PublicMenuRecord => ({
+  id: menu.id,
+  slug: menu.slug,
+  ...(menu.ownerId ? { ownerId: menu.ownerId } : {}),
+  published: menu.published ?? null,
+  ...(menu.publishedAt ? { publishedAt: menu.publishedAt } : {}),
+  ...(menu.revision ? { revision: menu.revision } : {}),
+  ...(menu.tables?.length ? { tables: menu.tables } : {})
+});
+
+// What the public routes render: the published snapshot, never the draft, plus the live table list.
+// The revision tells offline copies apart.
+export const getPublicMenu = (menu: RestaurantMenu | PublicMenuRecord): RestaurantMenu | null =>
+  menu.published ? {
+    ...menu.published,
+    id: menu.id,
+    slug: menu.slug,
+    ...(menu.tables?.length ? { tables: menu.tables } : {}),
+    ...(menu.revision ? { revision: menu.revision } : {})
+  } : null;
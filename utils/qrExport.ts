@@ -0,0 +1,322 @@
+import qrcode from 'qrcode-generator';
+import { MenuTheme, RestaurantMenu } from '../types';
+import { downloadFile } from './menuTransfer';
+import { ensureContrast, getContrastRatio, hexToRgb, luminance } from './color';
+
+// Print files for the menu's QR code. Everything is laid out in millimetres and
+// written either as SVG or as a one-page PDF, so print shops get vector output.
+
+export type QrExportSize = 'tent' | 'poster' | 'sticker';
+export type QrLevel = 'M' | 'Q' | 'H';
+export type QrIssue = 'tooLong' | 'inverted' | 'lowContrast' | 'tooDense' | 'logoTooLarge';
+
+export interface QrExportOptions {
+  size: QrExportSize;
+  level: QrLevel;
+  foreground: string; // #rrggbb
+  background: string; // #rrggbb
+  withLogo: boolean;
+}
+
+interface SizeSpec {
+  width: number;
+  height: number;
+  qr: number; // Code width including the quiet zone
+  title: number; // Font sizes, 0 leaves the text out
+  label: number;
+  hint: number;
+}
+
+export const QR_EXPORT_SIZES: Record<QrExportSize, SizeSpec> = {
+  tent: { width: 100, height: 150, qr: 70, title: 8, label: 6, hint: 3.5 }, // One face of a folded table tent
+  poster: { width: 210, height: 297, qr: 150, title: 16, label: 11, hint: 6 }, // A4
+  sticker: { width: 50, height: 50, qr: 46, title: 0, label: 0, hint: 0 },
+};
+
+const QUIET_ZONE = 4; // Modules of background around the code, as the QR spec asks
+const LOGO_SCALE = 0.22; // Share of the code's width given to the logo
+const MIN_CONTRAST = 4;
+const MIN_MODULE_MM = 0.4;
+// Share of the code each level can rebuild, kept at half to leave room for print defects
+const RECOVERY: Record<QrLevel, number> = { M: 0.15, Q: 0.25, H: 0.3 };
+const FONT = 'Helvetica, Arial, sans-serif';
+const MM_TO_PT = 72 / 25.4;
+
+// The brand color, darkened when needed so codes keep their contrast on white
+export const getQrColors = (theme: MenuTheme) => ({
+  foreground: ensureContrast(theme.primary, '#ffffff', 7),
+  background: '#ffffff',
+});
+
+// --- Encoding ---
+
+qrcode.stringToBytes = (s: string) => Array.from(new TextEncoder().encode(s));
+
+const encode = (value: string, level: QrLevel) => {
+  const qr = qrcode(0, level);
+  qr.addData(value);
+  qr.make();
+  return qr;
+};
+
+// Logo side in modules. Odd when the code is odd so the logo stays centred on the grid.
+const getLogoModules = (moduleCount: number) => {
+  const modules = Math.round(moduleCount * LOGO_SCALE);
+  return modules % 2 === moduleCount % 2 ? modules : modules + 1;
+};
+
+// --- Scanability ---
+
+// Problems that would make the exported code hard or impossible to scan; export is blocked while any remain
+export const checkScanability = (value: string, options: QrExportOptions): QrIssue[] => {
+  let moduleCount: number;
+  try {
+    moduleCount = encode(value, options.level).getModuleCount();
+  } catch {
+    return ['tooLong'];
+  }
+
+  const issues: QrIssue[] = [];
+  if (luminance(options.foreground) > luminance(options.background)) issues.push('inverted');
+  else if (getContrastRatio(options.foreground, options.background) < MIN_CONTRAST) issues.push('lowContrast');
+
+  if (QR_EXPORT_SIZES[options.size].qr / (moduleCount + QUIET_ZONE * 2) < MIN_MODULE_MM) issues.push('tooDense');
+
+  if (options.withLogo) {
+    const covered = Math.pow(getLogoModules(moduleCount) + 2, 2) / Math.pow(moduleCount, 2); // Includes the padding
+    if (covered > RECOVERY[options.level] / 2) issues.push('logoTooLarge');
+  }
+  return issues;
+};
+
+// --- Layout ---
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TextLine {
+  text: string;
+  x: number; // Centre
+  y: number; // Baseline
+  size: number;
+}
+
+export interface QrLogo {
+  src: string; // PNG data URL, used by SVG
+  jpeg: Uint8Array; // Flattened onto the background, used by PDF
+  width: number;
+  height: number;
+}
+
+interface QrLayout {
+  width: number;
+  height: number;
+  modules: Box[]; // Dark runs of the code
+  logoPad?: Box;
+  logo?: Box;
+  texts: TextLine[];
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Width in mm of bold text at `size` mm. Arial shares Helvetica's metrics, which PDF uses.
+const measureText = (text: string, size: number) => {
+  measureContext = measureContext || document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * size * 0.6;
+  measureContext.font = `bold 100px ${FONT}`;
+  return measureContext.measureText(text).width / 100 * size;
+};
+
+const fitText = (text: string, size: number, maxWidth: number) => Math.min(size, size * maxWidth / Math.max(1, measureText(text, size)));
+
+const buildLayout = (value: string, title: string, label: string, hint: string, options: QrExportOptions, logo: QrLogo | null): QrLayout => {
+  const spec = QR_EXPORT_SIZES[options.size];
+  const qr = encode(value, options.level);
+  const count = qr.getModuleCount();
+  const moduleSize = spec.qr / (count + QUIET_ZONE * 2);
+  const maxTextWidth = spec.width * 0.86;
+
+  const blocks = [
+    { text: title, size: spec.title },
+    { text: label, size: spec.label },
+    { text: hint, size: spec.hint },
+  ].map(block => ({ ...block, size: block.text && block.size ? fitText(block.text, block.size, maxTextWidth) : 0 }));
+  const [titleBlock, labelBlock, hintBlock] = blocks;
+  const lineHeight = (size: number) => size ? size * 1.5 : 0;
+  const contentHeight = lineHeight(titleBlock.size) + spec.qr + lineHeight(labelBlock.size) + lineHeight(hintBlock.size);
+
+  let y = (spec.height - contentHeight) / 2;
+  const texts: TextLine[] = [];
+  const addText = (block: { text: string; size: number }) => {
+    if (!block.size) return;
+    texts.push({ text: block.text, x: spec.width / 2, y: y + block.size * 1.1, size: block.size });
+    y += lineHeight(block.size);
+  };
+
+  addText(titleBlock);
+  const left = (spec.width - spec.qr) / 2 + QUIET_ZONE * moduleSize;
+  const top = y + QUIET_ZONE * moduleSize;
+  y += spec.qr;
+  addText(labelBlock);
+  addText(hintBlock);
+
+  const logoModules = logo ? getLogoModules(count) : 0;
+  const logoStart = (count - logoModules) / 2;
+  const isUnderLogo = (row: number, col: number) => logoModules > 0
+    && row >= logoStart - 1 && row < logoStart + logoModules + 1
+    && col >= logoStart - 1 && col < logoStart + logoModules + 1;
+
+  // Runs of dark modules per row keep the files small
+  const modules: Box[] = [];
+  for (let row = 0; row < count; row++) {
+    let runStart = -1;
+    for (let col = 0; col <= count; col++) {
+      const dark = col < count && qr.isDark(row, col) && !isUnderLogo(row, col);
+      if (dark && runStart < 0) runStart = col;
+      if (!dark && runStart >= 0) {
+        modules.push({ x: left + runStart * moduleSize, y: top + row * moduleSize, width: (col - runStart) * moduleSize, height: moduleSize });
+        runStart = -1;
+      }
+    }
+  }
+
+  if (!logo) return { width: spec.width, height: spec.height, modules, texts };
+
+  const padStart = logoStart - 1;
+  const logoPad = { x: left + padStart * moduleSize, y: top + padStart * moduleSize, width: (logoModules + 2) * moduleSize, height: (logoModules + 2) * moduleSize };
+  const box = logoModules * moduleSize;
+  const scale = Math.min(box / logo.width, box / logo.height);
+  const logoBox = {
+    width: logo.width * scale,
+    height: logo.height * scale,
+    x: left + logoStart * moduleSize + (box - logo.width * scale) / 2,
+    y: top + logoStart * moduleSize + (box - logo.height * scale) / 2,
+  };
+  return { width: spec.width, height: spec.height, modules, logoPad, logo: logoBox, texts };
+};
+
+// --- Logo ---
+
+// Logos come from storage URLs or data URLs; both are redrawn so the files are self-contained
+export const loadQrLogo = (src: string, background: string) => new Promise<QrLogo>((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => {
+    const scale = Math.min(1, 600 / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return reject(new Error('Canvas is not available'));
+
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const png = canvas.toDataURL('image/png');
+    ctx.globalCompositeOperation = 'destination-over'; // PDF JPEGs have no transparency
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const jpeg = Uint8Array.from(atob(canvas.toDataURL('image/jpeg', 0.92).split(',')[1]), c => c.charCodeAt(0));
+    resolve({ src: png, jpeg, width: canvas.width, height: canvas.height });
+  };
+  img.onerror = () => reject(new Error('Could not load logo'));
+  img.src = src;
+});
+
+// --- SVG ---
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+export const buildQrSvg = (value: string, title: string, label: string, hint: string, options: QrExportOptions, logo: QrLogo | null) => {
+  const layout = buildLayout(value, title, label, hint, options, logo);
+  const path = layout.modules.map(m => `M${round(m.x)} ${round(m.y)}h${round(m.width)}v${round(m.height)}h${round(-m.width)}z`).join('');
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}mm" height="${layout.height}mm" viewBox="0 0 ${layout.width} ${layout.height}">`,
+    `<rect width="${layout.width}" height="${layout.height}" fill="${options.background}"/>`,
+    `<path d="${path}" fill="${options.foreground}" shape-rendering="crispEdges"/>`,
+    ...layout.texts.map(line => `<text x="${round(line.x)}" y="${round(line.y)}" font-family="${FONT}" font-weight="700" font-size="${round(line.size)}" text-anchor="middle" fill="${options.foreground}">${escapeXml(line.text)}</text>`),
+  ];
+  if (layout.logo && layout.logoPad && logo) {
+    const pad = layout.logoPad;
+    parts.push(`<rect x="${round(pad.x)}" y="${round(pad.y)}" width="${round(pad.width)}" height="${round(pad.height)}" fill="${options.background}"/>`);
+    parts.push(`<image href="${logo.src}" x="${round(layout.logo.x)}" y="${round(layout.logo.y)}" width="${round(layout.logo.width)}" height="${round(layout.logo.height)}"/>`);
+  }
+  parts.push('</svg>');
+  return parts.join('\n');
+};
+
+// --- PDF ---
+
+// The standard Helvetica font reads single bytes; characters outside Latin-1 can't be shown
+const toLatin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) <= 255 ? c.charCodeAt(0) : 63);
+const escapePdfText = (text: string) => text.replace(/[^\x00-\xff]/g, '?').replace(/[\\()]/g, c => `\\${c}`);
+const pdfColor = (hex: string) => hexToRgb(hex).map(c => (c / 255).toFixed(3)).join(' ');
+
+export const buildQrPdf = (value: string, title: string, label: string, hint: string, options: QrExportOptions, logo: QrLogo | null): Blob => {
+  const layout = buildLayout(value, title, label, hint, options, logo);
+  const pageWidth = layout.width * MM_TO_PT;
+  const pageHeight = layout.height * MM_TO_PT;
+  const pt = (mm: number) => round(mm * MM_TO_PT);
+  const rect = (box: Box) => `${pt(box.x)} ${pt(layout.height - box.y - box.height)} ${pt(box.width)} ${pt(box.height)} re`;
+
+  const content = [
+    `${pdfColor(options.background)} rg 0 0 ${round(pageWidth)} ${round(pageHeight)} re f`,
+    `${pdfColor(options.foreground)} rg`,
+    ...layout.modules.map(rect),
+    'f',
+    ...layout.texts.map(line => `BT /F1 ${pt(line.size)} Tf ${pt(line.x - measureText(line.text, line.size) / 2)} ${pt(layout.height - line.y)} Td (${escapePdfText(line.text)}) Tj ET`),
+  ];
+  if (layout.logo && layout.logoPad) {
+    const box = layout.logo;
+    content.push(`${pdfColor(options.background)} rg ${rect(layout.logoPad)} f`);
+    content.push(`q ${pt(box.width)} 0 0 ${pt(box.height)} ${pt(box.x)} ${pt(layout.height - box.y - box.height)} cm /Im1 Do Q`);
+  }
+  const stream = toLatin1(content.join('\n'));
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${round(pageWidth)} ${round(pageHeight)}] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >>${logo ? ' /XObject << /Im1 6 0 R >>' : ''} >> >>`],
+    [`<< /Length ${stream.length} >>\nstream\n`, stream, '\nendstream'],
+    ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'],
+  ];
+  if (logo) {
+    objects.push([`<< /Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${logo.jpeg.length} >>\nstream\n`, logo.jpeg, '\nendstream']);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? toLatin1(part) : part;
+    chunks.push(bytes);
+    offset += bytes.length;
+  };
+
+  write('%PDF-1.4\n');
+  const offsets = objects.map((parts, index) => {
+    const start = offset;
+    write(`${index + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+    return start;
+  });
+  const xref = offset;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`);
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`);
+  return new Blob(chunks, { type: 'application/pdf' });
+};
+
+// --- Export ---
+
+export const exportQrCode = async (format: 'svg' | 'pdf', menu: RestaurantMenu, value: string, label: string, hint: string, options: QrExportOptions) => {
+  const logo = options.withLogo && menu.logo ? await loadQrLogo(menu.logo, options.background) : null;
+  const fileName = `${menu.slug || 'menu'}-qr-${options.size}.${format}`;
+  if (format === 'svg') {
+    downloadFile(new Blob([buildQrSvg(value, menu.name, label, hint, options, logo)], { type: 'image/svg+xml' }), fileName);
+  } else {
+    downloadFile(buildQrPdf(value, menu.name, label, hint, options, logo), fileName);
+  }
+};
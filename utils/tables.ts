@@ -0,0 +1,38 @@
+import { MenuTable, RestaurantMenu } from '../types';
+import { createShortId } from './ids';
+
+const MAX_RANGE = 200; // Guards against typos like "1-10000"
+
+// "1-12, Patio 1-3, Bar" becomes 1..12, Patio 1..Patio 3 and Bar. Entries are separated by commas or new lines.
+export const parseTableList = (input: string): string[] => input
+  .split(/[,\n;]/)
+  .map(entry => entry.trim())
+  .filter(Boolean)
+  .flatMap(entry => {
+    const range = entry.match(/^(.*?)(\d+)\s*-\s*(\d+)$/);
+    if (!range) return [entry];
+    const [, prefix, from, to] = range;
+    const start = parseInt(from, 10);
+    const end = parseInt(to, 10);
+    if (end < start || end - start >= MAX_RANGE) return [entry];
+    return Array.from({ length: end - start + 1 }, (_, i) => `${prefix}${start + i}`);
+  });
+
+// New names are appended; names that already exist are skipped
+export const addTables = (tables: MenuTable[], names: string[]): MenuTable[] => {
+  const taken = new Set(tables.map(table => table.name.toLowerCase()));
+  const added: MenuTable[] = [];
+  names.forEach(name => {
+    if (taken.has(name.toLowerCase())) return;
+    taken.add(name.toLowerCase());
+    added.push({ id: createShortId(), name });
+  });
+  return [...tables, ...added];
+};
+
+export const findTable = (menu: RestaurantMenu | null, tableId: string | null) =>
+  tableId ? menu?.tables?.find(table => table.id === tableId) : undefined;
+
+// Table codes always open this app's menu, even when the main QR points at a custom URL
+export const getTableUrl = (menuUrl: string, table: MenuTable) =>
+  `${menuUrl}?src=qr&table=${encodeURIComponent(table.id)}`;
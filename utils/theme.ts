@@ -0,0 +1,153 @@
+import { FontPairing, MenuTheme, ThemeRadius } from '../types';
+import { TranslationKey } from './translations';
+import { ensureContrast, hexToHsl, hslToHex, isHexColor, mixColors, readableTextOn } from './color';
+
+// The five colors menus could pick before custom themes; also offered as quick picks
+export const THEME_PRESETS: Record<string, string> = {
+  orange: '#f97316',
+  red: '#dc2626',
+  slate: '#1e293b',
+  emerald: '#10b981',
+  blue: '#2563eb',
+};
+
+const DEFAULT_ACCENT = '#f59e0b';
+
+export const FONT_PAIRINGS: Record<FontPairing, { labelKey: TranslationKey; heading: string; body: string; googleFonts?: string }> = {
+  modern: { labelKey: 'fontsModern', heading: "'Inter', sans-serif", body: "'Inter', sans-serif" },
+  classic: { labelKey: 'fontsClassic', heading: "'Playfair Display', serif", body: "'Lora', serif", googleFonts: 'family=Playfair+Display:wght@700&family=Lora:wght@400;600' },
+  friendly: { labelKey: 'fontsFriendly', heading: "'Nunito', sans-serif", body: "'Nunito', sans-serif", googleFonts: 'family=Nunito:wght@400;600;800' },
+  elegant: { labelKey: 'fontsElegant', heading: "'Cormorant Garamond', serif", body: "'Inter', sans-serif", googleFonts: 'family=Cormorant+Garamond:wght@600;700' },
+};
+
+export const THEME_RADII: Record<ThemeRadius, { labelKey: TranslationKey; size: string }> = {
+  sharp: { labelKey: 'radiusSharp', size: '4px' },
+  rounded: { labelKey: 'radiusRounded', size: '16px' },
+  round: { labelKey: 'radiusRound', size: '28px' },
+};
+
+export const isFontPairing = (value: unknown): value is FontPairing => typeof value === 'string' && value in FONT_PAIRINGS;
+export const isThemeRadius = (value: unknown): value is ThemeRadius => typeof value === 'string' && value in THEME_RADII;
+
+export const createTheme = (primary?: string, accent?: string): MenuTheme => ({
+  primary: isHexColor(primary) ? primary.toLowerCase() : THEME_PRESETS.orange,
+  accent: isHexColor(accent) ? accent.toLowerCase() : DEFAULT_ACCENT,
+  fonts: 'modern',
+  radius: 'rounded',
+});
+
+// Menus saved before custom themes only had a `themeColor` name
+export const migrateTheme = (raw: any): MenuTheme => {
+  const theme = raw.theme || {};
+  const migrated = createTheme(theme.primary || THEME_PRESETS[raw.themeColor], theme.accent);
+  return {
+    ...migrated,
+    ...(isFontPairing(theme.fonts) && { fonts: theme.fonts }),
+    ...(isThemeRadius(theme.radius) && { radius: theme.radius }),
+    ...(typeof theme.coverImage === 'string' && theme.coverImage && { coverImage: theme.coverImage }),
+  };
+};
+
+// --- Palettes ---
+
+export interface ThemePalette {
+  background: string;
+  surface: string;
+  border: string;
+  chip: string; // Inactive buttons
+  text: string;
+  muted: string;
+  primary: string; // Filled buttons
+  onPrimary: string;
+  accent: string; // Icons on highlighted categories
+  accentSoft: string; // Highlighted categories
+  headerFrom: string; // Header gradient, always dark enough for white text
+  headerTo: string;
+}
+
+// Every pairing that carries text is held to WCAG AA (4.5:1), buttons to 3:1
+export const getThemePalette = (theme: MenuTheme, dark: boolean): ThemePalette => {
+  const [hue, saturation] = hexToHsl(theme.primary);
+  const headerFrom = ensureContrast(theme.primary, '#ffffff', 4.5);
+  const [, , headerLight] = hexToHsl(headerFrom);
+  const headerTo = hslToHex(hue, saturation, Math.max(0, headerLight - 8));
+
+  if (!dark) {
+    const background = hslToHex(hue, Math.min(saturation, 30), 97);
+    const surface = '#ffffff';
+    const primary = ensureContrast(theme.primary, background, 3);
+    return {
+      background,
+      surface,
+      border: hslToHex(hue, Math.min(saturation, 20), 91),
+      chip: hslToHex(hue, Math.min(saturation, 20), 94),
+      text: ensureContrast('#0f172a', background, 7),
+      muted: ensureContrast(hslToHex(hue, 12, 42), background, 4.5),
+      primary,
+      onPrimary: readableTextOn(primary),
+      accent: ensureContrast(theme.accent, background, 3),
+      accentSoft: mixColors(background, theme.accent, 0.14),
+      headerFrom,
+      headerTo,
+    };
+  }
+
+  // The dark variant keeps the brand hue in its backgrounds
+  const background = hslToHex(hue, Math.min(saturation, 35), 7);
+  const surface = hslToHex(hue, Math.min(saturation, 30), 12);
+  const primary = ensureContrast(theme.primary, surface, 3);
+  return {
+    background,
+    surface,
+    border: hslToHex(hue, Math.min(saturation, 25), 19),
+    chip: hslToHex(hue, Math.min(saturation, 25), 17),
+    text: ensureContrast(hslToHex(hue, 30, 94), surface, 7),
+    muted: ensureContrast(hslToHex(hue, 15, 68), surface, 4.5),
+    primary,
+    onPrimary: readableTextOn(primary),
+    accent: ensureContrast(theme.accent, background, 3),
+    accentSoft: mixColors(background, theme.accent, 0.16),
+    headerFrom,
+    headerTo,
+  };
+};
+
+// CSS variables read by the viewer's classes
+export const getThemeVariables = (theme: MenuTheme, dark: boolean) => {
+  const palette = getThemePalette(theme, dark);
+  const fonts = FONT_PAIRINGS[theme.fonts] || FONT_PAIRINGS.modern;
+  return {
+    '--menu-bg': palette.background,
+    '--menu-surface': palette.surface,
+    '--menu-border': palette.border,
+    '--menu-chip': palette.chip,
+    '--menu-text': palette.text,
+    '--menu-muted': palette.muted,
+    '--menu-primary': palette.primary,
+    '--menu-on-primary': palette.onPrimary,
+    '--menu-accent': palette.accent,
+    '--menu-accent-soft': palette.accentSoft,
+    '--menu-radius': (THEME_RADII[theme.radius] || THEME_RADII.rounded).size,
+    '--menu-heading-font': fonts.heading,
+    '--menu-body-font': fonts.body,
+  };
+};
+
+// The cover sits under a translucent gradient so white header text stays readable on any photo
+export const getHeaderBackground = (theme: MenuTheme) => {
+  const { headerFrom, headerTo } = getThemePalette(theme, false);
+  const gradient = `linear-gradient(to right, ${headerFrom}${theme.coverImage ? 'd9' : ''}, ${headerTo}${theme.coverImage ? 'eb' : ''})`;
+  return theme.coverImage ? `${gradient}, url("${theme.coverImage}") center / cover` : gradient;
+};
+
+const loadedFonts = new Set<string>();
+
+export const loadThemeFonts = (fonts: FontPairing) => {
+  const query = FONT_PAIRINGS[fonts]?.googleFonts;
+  if (!query || loadedFonts.has(query)) return;
+  loadedFonts.add(query);
+  const link = document.createElement('link');
+  link.rel = 'stylesheet';
+  link.href = `https://fonts.googleapis.com/css2?${query}&display=swap`;
+  document.head.appendChild(link);
+};
@@ -1,112 +1,700 @@
-export const translations = {
-  en: {
-    createTitle: "Create your digital menu in minutes.",
-    createSubtitle: "Link + QR Code, no app required. Just enter your name and let AI start the work for you.",
-    estName: "Establishment Name",
-    estPlaceholder: "e.g. Joe's Burger Shack",
-    extraInfo: "Sections & Cuisine (Optional)",
-    extraPlaceholder: "e.g. Vegan Burgers, Craft Beers, Desserts",
-    createBtn: "Create My Menu",
-    building: "Building Menu...",
-    footer: "FlashMenu. No Code Required.",
-    editTitle: "Edit Menu",
-    save: "Save & Preview",
-    details: "Details",
-    theme: "Theme Color",
-    whatsapp: "WhatsApp (Optional)",
-    waHint: "Add number with country code for clickable link on menu.",
-    qrUrlLabel: "Custom QR Destination (Optional)",
-    qrUrlHint: "If set, the QR code will point here instead of the default menu link.",
-    addItem: "Add Item to",
-    addSection: "Add a new section to your menu",
-    sectionPlaceholder: "Section Name (e.g. Sides)",
-    itemPlaceholder: "Name",
-    pricePlaceholder: "Price",
-    descPlaceholder: "Description (optional)",
-    photo: "Photo",
-    change: "Change",
-    genImage: "Generate AI Image",
-    aiBtn: "AI Auto",
-    aiDesc: "AI Desc",
-    addProduct: "Add Product",
-    itemsTotal: "items total",
-    finish: "Finish & Get QR",
-    menuReady: "Menu Ready!",
-    printHint: "Print the QR code for your tables.",
-    viewPublic: "View Public Menu",
-    editMenu: "Edit Menu",
-    printQR: "Print QR Code",
-    downloadQR: "Download Image",
-    createAnother: "Create another menu",
-    menuNotFound: "Menu Not Found",
-    menuDeleted: "This menu might have been deleted or the link is incorrect.",
-    poweredBy: "Powered by FlashMenu",
-    askAi: "Ask the Waiter (AI)",
-    chatPlaceholder: "Ask about ingredients, suggestions...",
-    send: "Send",
-    generating: "Generating...",
-    aiCuisine: "Infer the type of cuisine from the name.",
-    aiPromptExtra: "IMPORTANT - The menu MUST include specific sections/categories and items based on this description:",
-    aiPromptBase: "Create a restaurant menu for a place called",
-    aiPromptLang: "IMPORTANT: Return all titles, names, and descriptions in",
-    scanMenu: "Scan Menu Photo",
-    scanHint: "Upload a photo of an existing menu to extract items automatically (Beta).",
-    removePhoto: "Remove Photo",
-    qrLabel: "QR Label",
-  },
-  pt: {
-    createTitle: "Crie seu cardápio digital em minutos.",
-    createSubtitle: "Link + QR Code, sem aplicativos. Digite o nome e deixe a IA trabalhar.",
-    estName: "Nome do Estabelecimento",
-    estPlaceholder: "ex: Hamburgueria do Zé",
-    extraInfo: "Seções e Culinária (Opcional)",
-    extraPlaceholder: "ex: Hambúrguer Artesanal, Cervejas, Sobremesas",
-    createBtn: "Criar Cardápio",
-    building: "Criando Cardápio...",
-    footer: "FlashMenu. Sem código.",
-    editTitle: "Editar Cardápio",
-    save: "Salvar & Visualizar",
-    details: "Detalhes",
-    theme: "Cor do Tema",
-    whatsapp: "WhatsApp (Opcional)",
-    waHint: "Adicione número com DDD e código do país (ex: 5511...)",
-    qrUrlLabel: "Destino do QR Code (Opcional)",
-    qrUrlHint: "Se preenchido, o QR Code apontará para este link ao invés do menu padrão.",
-    addItem: "Adicionar item em",
-    addSection: "Adicionar nova seção",
-    sectionPlaceholder: "Nome da Seção (ex: Bebidas)",
-    itemPlaceholder: "Nome",
-    pricePlaceholder: "Preço",
-    descPlaceholder: "Descrição (opcional)",
-    photo: "Foto",
-    change: "Alterar",
-    genImage: "Gerar Imagem IA",
-    aiBtn: "IA Auto",
-    aiDesc: "IA Desc",
-    addProduct: "Adicionar Produto",
-    itemsTotal: "itens no total",
-    finish: "Finalizar & QR Code",
-    menuReady: "Cardápio Pronto!",
-    printHint: "Imprima o QR Code para suas mesas.",
-    viewPublic: "Ver Cardápio Público",
-    editMenu: "Editar Cardápio",
-    printQR: "Imprimir QR Code",
-    downloadQR: "Baixar Imagem",
-    createAnother: "Criar outro cardápio",
-    menuNotFound: "Cardápio não encontrado",
-    menuDeleted: "Este cardápio pode ter sido excluído ou o link está incorreto.",
-    poweredBy: "Desenvolvido por FlashMenu",
-    askAi: "Pergunte ao Garçom (IA)",
-    chatPlaceholder: "Pergunte sobre ingredientes, sugestões...",
-    send: "Enviar",
-    generating: "Gerando...",
-    aiCuisine: "Infira o tipo de culinária pelo nome.",
-    aiPromptExtra: "IMPORTANTE - O menu DEVE incluir seções e itens baseados nesta descrição:",
-    aiPromptBase: "Crie um cardápio de restaurante para um lugar chamado",
-    aiPromptLang: "IMPORTANTE: Retorne todos os títulos, nomes e descrições em",
-    scanMenu: "Escanear Foto do Menu",
-    scanHint: "Envie uma foto de um cardápio existente para extrair itens automaticamente (Beta).",
-    removePhoto: "Remover Foto",
-    qrLabel: "Etiqueta do QR",
-  }
-};
\ No newline at end of file
+const en = {
+  createTitle: "Create your digital menu in minutes.",
+  createSubtitle: "Link + QR Code, no app required. Just enter your name and let AI start the work for you.",
+  estName: "Establishment Name",
+  estPlaceholder: "e.g. Joe's Burger Shack",
+  extraInfo: "Sections & Cuisine (Optional)",
+  extraPlaceholder: "e.g. Vegan Burgers, Craft Beers, Desserts",
+  createBtn: "Create My Menu",
+  building: "Building Menu...",
+  footer: "FlashMenu. No Code Required.",
+  editTitle: "Edit Menu",
+  save: "Save & Preview",
+  details: "Details",
+  theme: "Theme Color",
+  whatsapp: "WhatsApp (Optional)",
+  waHint: "Add number with country code for clickable link on menu.",
+  qrUrlLabel: "Custom QR Destination (Optional)",
+  qrUrlHint: "If set, the QR code will point here instead of the default menu link.",
+  addItem: "Add Item to",
+  addSection: "Add a new section to your menu",
+  sectionPlaceholder: "Section Name (e.g. Sides)",
+  itemPlaceholder: "Name",
+  pricePlaceholder: "Price",
+  descPlaceholder: "Description (optional)",
+  photo: "Photo",
+  change: "Change",
+  genImage: "Generate AI Image",
+  aiBtn: "AI Auto",
+  aiDesc: "AI Desc",
+  addProduct: "Add Product",
+  itemsTotal: "items total",
+  finish: "Finish & Get QR",
+  menuReady: "Menu Ready!",
+  printHint: "Print the QR code for your tables.",
+  viewPublic: "View Public Menu",
+  editMenu: "Edit Menu",
+  createAnother: "Create another menu",
+  menuNotFound: "Menu Not Found",
+  menuDeleted: "This menu might have been deleted or the link is incorrect.",
+  poweredBy: "Powered by FlashMenu",
+  askAi: "Ask the Waiter (AI)",
+  chatPlaceholder: "Ask about ingredients, suggestions...",
+  send: "Send",
+  generating: "Generating...",
+  aiCuisine: "Infer the type of cuisine from the name.",
+  aiPromptExtra: "IMPORTANT - The menu MUST include specific sections/categories and items based on this description:",
+  aiPromptBase: "Create a restaurant menu for a place called",
+  aiPromptLang: "IMPORTANT: Return all titles, names, and descriptions in",
+  scanMenu: "Scan Existing Menu",
+  scanHint: "Upload photos or a PDF of an existing menu to extract items automatically (Beta).",
+  removePhoto: "Remove Photo",
+  qrLabel: "QR Label",
+  orderName: "Name",
+  orderNamePlaceholder: "Your name",
+  orderTable: "Table",
+  orderTablePlaceholder: "Table number",
+  orderDelivery: "Delivery",
+  orderAddressPlaceholder: "Delivery address",
+  orderNotes: "Notes",
+  orderNotesPlaceholder: "e.g. no onions, extra napkins",
+  orderTotal: "Total",
+  orderMessageTitle: "New order",
+  orderIncomplete: "Fill in your name and table or address to send the order.",
+  sendWhatsApp: "Send Order via WhatsApp",
+  whatsappUnavailable: "This restaurant doesn't accept WhatsApp orders yet. Show this screen to service staff.",
+  currency: "Currency",
+  currencyHint: "Prices keep their amounts; only the currency symbol and formatting change.",
+  options: "Options",
+  addOptionGroup: "Add option group",
+  optionGroupPlaceholder: "Group name (e.g. Size, Extras)",
+  optionRequired: "Required",
+  optionMin: "Min",
+  optionMax: "Max",
+  addOption: "Add option",
+  optionPlaceholder: "Option (e.g. Extra bacon)",
+  chooseOptions: "Choose your options",
+  chooseUpTo: "Choose up to",
+  chooseAtLeast: "Choose at least",
+  addToCart: "Add to order",
+  guestAccount: "Guest",
+  guestHint: "Your menus are tied to this browser. Add your email to access them anywhere.",
+  signedInHint: "Your menus are saved to this account.",
+  sendSignInLink: "Send link",
+  signInLinkSent: "Check your inbox and open the sign-in link on this device.",
+  signInFailed: "Could not send the sign-in link. Please try again.",
+  signOut: "Sign out",
+  noEditAccess: "You can't edit this menu",
+  noEditAccessHint: "Only the owner of this menu can make changes. Sign in with the account that created it.",
+  myMenus: "My Menus",
+  newMenu: "New Menu",
+  noMenusYet: "You haven't created any menus yet.",
+  categoriesCount: "categories",
+  itemsCount: "items",
+  lastUpdated: "Updated",
+  qrCode: "QR Code",
+  openPublicMenu: "Public menu",
+  duplicateMenu: "Duplicate",
+  deleteMenu: "Delete",
+  confirmDeleteMenu: "Delete the menu",
+  duplicateFailed: "Could not duplicate this menu. Please try again.",
+  deleteFailed: "Could not delete this menu. Please try again.",
+  imageUploadFailed: "Could not upload the image. Please try again.",
+  versionHistory: "History",
+  noVersionsYet: "No saved versions yet. Every save is recorded here.",
+  latestVersion: "latest",
+  currentDraft: "Current draft (unsaved)",
+  restoreVersion: "Restore this version",
+  confirmRestoreVersion: "Restore the version saved on",
+  restoreFailed: "Could not restore this version. Please try again.",
+  noItemChanges: "No items were added, removed or repriced.",
+  itemsAdded: "Added",
+  itemsRemoved: "Removed",
+  itemsRepriced: "Price changed",
+  publish: "Publish",
+  published: "Published",
+  publishedUpToDate: "The public menu matches this draft.",
+  unpublishedChanges: "Unpublished changes",
+  notPublishedYet: "Not published",
+  publishFailed: "Could not publish your menu. Please try again.",
+  publishFromEditorHint: "diners still see the last published version. Publish from the editor to go live.",
+  soldOut: "Sold out",
+  inStock: "Available",
+  soldOutCount: "sold out",
+  restockAll: "Mark all available",
+  searchItems: "Search items...",
+  eightySixList: "86 List",
+  availabilityLiveHint: "Changes here go live immediately, without publishing.",
+  schedule: "Schedule",
+  categorySchedule: "Served only during",
+  addTimeWindow: "Add time window",
+  alwaysAvailable: "Always available.",
+  overnightWindow: "ends the next day",
+  timezone: "Timezone",
+  timezoneHint: "Schedules follow this timezone, wherever your customers are.",
+  availableDuring: "Available",
+  notAvailableNow: "Not available now",
+  noLongerAvailable: "No longer available",
+  removeUnavailableItems: "Remove unavailable items to send your order.",
+  tags: "Tags",
+  dietaryLabel: "Dietary",
+  spiceLevelLabel: "Spice level",
+  notSpicy: "Not spicy",
+  containsAllergens: "Contains",
+  tagVegan: "Vegan",
+  tagVegetarian: "Vegetarian",
+  tagGlutenFree: "Gluten-free",
+  tagLactoseFree: "Lactose-free",
+  allergenGluten: "Gluten",
+  allergenCrustaceans: "Crustaceans",
+  allergenEggs: "Eggs",
+  allergenFish: "Fish",
+  allergenPeanuts: "Peanuts",
+  allergenSoybeans: "Soy",
+  allergenMilk: "Milk",
+  allergenNuts: "Tree nuts",
+  allergenCelery: "Celery",
+  allergenMustard: "Mustard",
+  allergenSesame: "Sesame",
+  allergenSulphites: "Sulphites",
+  allergenLupin: "Lupin",
+  allergenMolluscs: "Molluscs",
+  filterItems: "Filters",
+  avoidAllergens: "Without",
+  mildOnly: "Not spicy",
+  clearFilters: "Clear",
+  noItemsMatchFilter: "No items match your filters.",
+  allergenDisclaimer: "Allergen information is provided by the restaurant. Please confirm with staff if you have a severe allergy.",
+  businessTypeLabel: "Type",
+  businessTypePlaceholder: "e.g. Burger Joint",
+  popularItems: "Popular Items",
+  houseSpecial: "Our house special.",
+  chatUnavailable: "Sorry, I'm having trouble responding right now.",
+  languages: "Languages",
+  menuLanguage: "Menu language",
+  languagesHint: "Diners see the menu in their browser's language when a translation exists, and can switch languages from the header.",
+  addLanguage: "Add language...",
+  autoTranslate: "Translate with AI",
+  translating: "Translating...",
+  itemsTranslated: "items translated",
+  removeLanguage: "Remove language",
+  confirmRemoveLanguage: "Remove this language and all of its translations?",
+  translateFailed: "Could not translate the menu. Please try again.",
+  translationsLabel: "Translations",
+  loadingPages: "Preparing pages...",
+  menuPagesSelected: "pages ready to scan",
+  addMorePages: "Add more pages",
+  pagesLoadFailed: "Could not open one of the files. Please try another photo or PDF.",
+  readingPages: "Reading page",
+  reviewImport: "Review extracted items",
+  reviewImportHint: "Compare each item with its spot on the original menu before creating it.",
+  itemsFound: "items found",
+  pagesLabel: "pages",
+  pricesToCheck: "prices to check",
+  checkPrice: "Check price",
+  pageReadFailed: "Could not read",
+  noItemsExtracted: "No items could be read from these pages. Try sharper photos.",
+  backToForm: "Back",
+  confirmImport: "Create menu",
+  importExport: "Import / Export",
+  importFromFile: "Import from file",
+  exportLabel: "Export",
+  exportHint: "JSON is a full backup including images. CSV and XLSX have one row per item for editing in a spreadsheet.",
+  exportFailed: "Could not export the menu. Please try again.",
+  importLabel: "Import",
+  chooseImportFile: "Choose a .json, .csv or .xlsx file",
+  importHint: "Spreadsheets need category, name and price columns; description, dietary, allergens, spice_level and item_id are optional.",
+  itemsReadyToImport: "items ready to import",
+  rowsSkipped: "rows skipped",
+  lineLabel: "Line",
+  importMerge: "Merge into existing categories (update matching items, add new ones)",
+  importReplace: "Replace all categories",
+  applyImport: "Import items",
+  importFailed: "Could not import this file. Please try again.",
+  importErrorInvalidFile: "This is not a menu backup, CSV or spreadsheet file.",
+  importErrorUnsupportedVersion: "This backup was made by a newer version of the app.",
+  importErrorMissingColumns: "The header row needs category, name and price columns.",
+  importErrorMissingCategory: "Missing category",
+  importErrorMissingName: "Missing name",
+  importErrorInvalidPrice: "Invalid price",
+  importErrorUnknownDietary: "Unknown dietary tag",
+  importErrorUnknownAllergen: "Unknown allergen",
+  importErrorInvalidSpiceLevel: "Spice level must be between 0 and 3",
+  importErrorCurrencyMismatch: "This backup uses a different currency than this menu",
+  untitledMenu: "My Menu",
+  bulkPriceChange: "Adjust prices",
+  bulkPriceHint: "Use a negative value to lower prices. Rounding moves each price to the closest ending.",
+  bulkPriceEmpty: "Pick items and enter a change to preview new prices",
+  percentPlaceholder: "e.g. 10",
+  amountPlaceholder: "e.g. 2.00",
+  noRounding: "No rounding",
+  roundTo: "Round to",
+  updatePrices: "Update prices",
+  pricesUpdated: "prices updated",
+  undo: "Undo",
+  redo: "Redo",
+  categoryDeleted: "deleted",
+  allChangesSaved: "All changes saved",
+  unsavedChanges: "Unsaved changes",
+  savingChanges: "Saving...",
+  autosaveFailed: "Couldn't save; retrying",
+  saveConflict: "Someone else changed this menu",
+  saveConflictHint: "Another editor saved this menu while you were editing it. Your changes have not been saved yet.",
+  savedElsewhereAt: "Saved at:",
+  mergeChanges: "Merge both versions",
+  mergeChangesHint: "Keeps their edits and yours; where you both changed the same thing, yours wins.",
+  overwriteChanges: "Overwrite with my version",
+  menuUpdated: "The menu was just updated",
+  nowCosts: "now costs",
+  wasPrice: "was",
+  itemNowSoldOut: "is now sold out",
+  itemRemovedFromOrder: "is no longer available and was removed from your order",
+  analytics: "Analytics",
+  noAnalyticsAccess: "Only the menu's owner can see its analytics",
+  daysShort: "days",
+  scansLabel: "Menu opens",
+  fromQrCode: "from the QR code",
+  visitorsLabel: "Visitors",
+  visitorsHint: "Anonymous browsing sessions",
+  cartConversion: "Added to order",
+  visitorsAddedToCart: "visitors added an item",
+  chatQuestionsLabel: "Chat questions",
+  peakHour: "Busiest hour",
+  dailyScans: "Menu opens per day",
+  topItems: "Top items",
+  noAnalyticsYet: "No visits recorded in this period yet",
+  itemLabel: "Item",
+  photoViews: "Photo views",
+  cartAdds: "Adds",
+  peakHours: "Opens by hour",
+  tablesLabel: "Tables",
+  tablesPlaceholder: "e.g. 1-12, Patio 1-4, Bar",
+  addTables: "Add",
+  tablesHint: "Separate tables with commas. Each table gets its own QR code, and orders placed from it include the table.",
+  removeTable: "Remove table",
+  removeAllTables: "Remove all",
+  tableQrCodes: "Table QR codes",
+  tableQrHint: "Each code opens the menu with its table already set for orders.",
+  printTableQrs: "Print table codes",
+  scanToOrder: "Scan to see the menu and order",
+  opensByTable: "Opens by table",
+  printFiles: "Print files",
+  printFilesHint: "Vector SVG and PDF files that stay sharp at any size.",
+  printSize: "Size",
+  tableTent: "Table tent",
+  posterA4: "A4 poster",
+  sticker: "Sticker",
+  qrForeground: "Code",
+  qrBackground: "Background",
+  errorCorrection: "Error correction",
+  logoInCenter: "Logo in the center",
+  qrScanable: "Ready to print",
+  contrastLabel: "contrast",
+  qrTooLong: "The link is too long to fit in a QR code.",
+  qrInverted: "The code must be darker than its background. Many phones can't read light codes on dark backgrounds.",
+  qrLowContrast: "The colors are too close. Pick a darker code or a lighter background.",
+  qrTooDense: "The code's dots would be too small at this size. Choose a bigger size or lower error correction.",
+  qrLogoTooLarge: "The logo hides more of the code than this error correction level can recover. Use level H or remove the logo.",
+  qrScanHint: "Scan to see our menu",
+  qrExportFailed: "Could not create the file. If the logo is hosted elsewhere, try uploading it again.",
+  printLayout: "Printed menu",
+  templateSingle: "Single column",
+  templateTwoColumn: "Two columns",
+  templateChalkboard: "Bistro chalkboard",
+  printMenuPdf: "Print or save as PDF",
+  primaryColor: "Brand color",
+  accentColor: "Accent",
+  suggestFromLogo: "Suggest from logo",
+  paletteSuggestionFailed: "Could not suggest colors from the logo. Please try again.",
+  fontPairing: "Fonts",
+  fontsModern: "Modern",
+  fontsClassic: "Classic",
+  fontsFriendly: "Friendly",
+  fontsElegant: "Elegant",
+  cornerRadius: "Corners",
+  radiusSharp: "Square",
+  radiusRounded: "Rounded",
+  radiusRound: "Extra round",
+  coverImage: "Cover image",
+  addCoverImage: "Add a photo behind the header",
+  removeCoverImage: "Remove cover image",
+  themeLight: "Light",
+  themeDark: "Dark",
+  themePreviewItem: "House burger",
+  themePreviewDescription: "Brioche bun, cheddar and pickles",
+  darkVariantHint: "The dark variant is derived from your brand color. Colors are adjusted where needed so text stays readable.",
+  menuLayout: "Layout",
+  layoutList: "List",
+  layoutListHint: "Descriptions with a photo beside each item",
+  layoutGrid: "Photo grid",
+  layoutGridHint: "Large photos first, great for cafés and bakeries",
+  layoutCompact: "Compact",
+  layoutCompactHint: "Dense text-only rows, great for drinks lists",
+  layoutCentered: "Centered",
+  layoutCenteredHint: "Centered names and descriptions, without prices or ordering, for fine dining",
+  printsPublishedMenu: "Prints the published menu, the one diners see when they scan the QR code.",
+  publishBeforePrinting: "Publish the menu before printing it.",
+};
+
+export type TranslationKey = keyof typeof en;
+export type Dictionary = Record<TranslationKey, string>;
+
+const pt: Dictionary = {
+  createTitle: "Crie seu cardápio digital em minutos.",
+  createSubtitle: "Link + QR Code, sem aplicativos. Digite o nome e deixe a IA trabalhar.",
+  estName: "Nome do Estabelecimento",
+  estPlaceholder: "ex: Hamburgueria do Zé",
+  extraInfo: "Seções e Culinária (Opcional)",
+  extraPlaceholder: "ex: Hambúrguer Artesanal, Cervejas, Sobremesas",
+  createBtn: "Criar Cardápio",
+  building: "Criando Cardápio...",
+  footer: "FlashMenu. Sem código.",
+  editTitle: "Editar Cardápio",
+  save: "Salvar & Visualizar",
+  details: "Detalhes",
+  theme: "Cor do Tema",
+  whatsapp: "WhatsApp (Opcional)",
+  waHint: "Adicione número com DDD e código do país (ex: 5511...)",
+  qrUrlLabel: "Destino do QR Code (Opcional)",
+  qrUrlHint: "Se preenchido, o QR Code apontará para este link ao invés do menu padrão.",
+  addItem: "Adicionar item em",
+  addSection: "Adicionar nova seção",
+  sectionPlaceholder: "Nome da Seção (ex: Bebidas)",
+  itemPlaceholder: "Nome",
+  pricePlaceholder: "Preço",
+  descPlaceholder: "Descrição (opcional)",
+  photo: "Foto",
+  change: "Alterar",
+  genImage: "Gerar Imagem IA",
+  aiBtn: "IA Auto",
+  aiDesc: "IA Desc",
+  addProduct: "Adicionar Produto",
+  itemsTotal: "itens no total",
+  finish: "Finalizar & QR Code",
+  menuReady: "Cardápio Pronto!",
+  printHint: "Imprima o QR Code para suas mesas.",
+  viewPublic: "Ver Cardápio Público",
+  editMenu: "Editar Cardápio",
+  createAnother: "Criar outro cardápio",
+  menuNotFound: "Cardápio não encontrado",
+  menuDeleted: "Este cardápio pode ter sido excluído ou o link está incorreto.",
+  poweredBy: "Desenvolvido por FlashMenu",
+  askAi: "Pergunte ao Garçom (IA)",
+  chatPlaceholder: "Pergunte sobre ingredientes, sugestões...",
+  send: "Enviar",
+  generating: "Gerando...",
+  aiCuisine: "Infira o tipo de culinária pelo nome.",
+  aiPromptExtra: "IMPORTANTE - O menu DEVE incluir seções e itens baseados nesta descrição:",
+  aiPromptBase: "Crie um cardápio de restaurante para um lugar chamado",
+  aiPromptLang: "IMPORTANTE: Retorne todos os títulos, nomes e descrições em",
+  scanMenu: "Escanear Cardápio Existente",
+  scanHint: "Envie fotos ou um PDF de um cardápio existente para extrair itens automaticamente (Beta).",
+  removePhoto: "Remover Foto",
+  qrLabel: "Etiqueta do QR",
+  orderName: "Nome",
+  orderNamePlaceholder: "Seu nome",
+  orderTable: "Mesa",
+  orderTablePlaceholder: "Número da mesa",
+  orderDelivery: "Entrega",
+  orderAddressPlaceholder: "Endereço de entrega",
+  orderNotes: "Observações",
+  orderNotesPlaceholder: "ex: sem cebola, mais guardanapos",
+  orderTotal: "Total",
+  orderMessageTitle: "Novo pedido",
+  orderIncomplete: "Preencha seu nome e a mesa ou endereço para enviar o pedido.",
+  sendWhatsApp: "Enviar Pedido pelo WhatsApp",
+  whatsappUnavailable: "Este restaurante ainda não aceita pedidos pelo WhatsApp. Mostre esta tela ao atendente.",
+  currency: "Moeda",
+  currencyHint: "Os valores dos preços são mantidos; apenas o símbolo e a formatação mudam.",
+  options: "Opções",
+  addOptionGroup: "Adicionar grupo de opções",
+  optionGroupPlaceholder: "Nome do grupo (ex: Tamanho, Adicionais)",
+  optionRequired: "Obrigatório",
+  optionMin: "Mín",
+  optionMax: "Máx",
+  addOption: "Adicionar opção",
+  optionPlaceholder: "Opção (ex: Bacon extra)",
+  chooseOptions: "Escolha suas opções",
+  chooseUpTo: "Escolha até",
+  chooseAtLeast: "Escolha pelo menos",
+  addToCart: "Adicionar ao pedido",
+  guestAccount: "Convidado",
+  guestHint: "Seus cardápios estão vinculados a este navegador. Adicione seu e-mail para acessá-los de qualquer lugar.",
+  signedInHint: "Seus cardápios estão salvos nesta conta.",
+  sendSignInLink: "Enviar link",
+  signInLinkSent: "Verifique sua caixa de entrada e abra o link de acesso neste dispositivo.",
+  signInFailed: "Não foi possível enviar o link de acesso. Tente novamente.",
+  signOut: "Sair",
+  noEditAccess: "Você não pode editar este cardápio",
+  noEditAccessHint: "Apenas o dono deste cardápio pode fazer alterações. Entre com a conta que o criou.",
+  myMenus: "Meus Cardápios",
+  newMenu: "Novo Cardápio",
+  noMenusYet: "Você ainda não criou nenhum cardápio.",
+  categoriesCount: "categorias",
+  itemsCount: "itens",
+  lastUpdated: "Atualizado",
+  qrCode: "QR Code",
+  openPublicMenu: "Cardápio público",
+  duplicateMenu: "Duplicar",
+  deleteMenu: "Excluir",
+  confirmDeleteMenu: "Excluir o cardápio",
+  duplicateFailed: "Não foi possível duplicar este cardápio. Tente novamente.",
+  deleteFailed: "Não foi possível excluir este cardápio. Tente novamente.",
+  imageUploadFailed: "Não foi possível enviar a imagem. Tente novamente.",
+  versionHistory: "Histórico",
+  noVersionsYet: "Nenhuma versão salva ainda. Cada salvamento fica registrado aqui.",
+  latestVersion: "mais recente",
+  currentDraft: "Rascunho atual (não salvo)",
+  restoreVersion: "Restaurar esta versão",
+  confirmRestoreVersion: "Restaurar a versão salva em",
+  restoreFailed: "Não foi possível restaurar esta versão. Tente novamente.",
+  noItemChanges: "Nenhum item foi adicionado, removido ou teve o preço alterado.",
+  itemsAdded: "Adicionados",
+  itemsRemoved: "Removidos",
+  itemsRepriced: "Preço alterado",
+  publish: "Publicar",
+  published: "Publicado",
+  publishedUpToDate: "O cardápio público está igual a este rascunho.",
+  unpublishedChanges: "Alterações não publicadas",
+  notPublishedYet: "Não publicado",
+  publishFailed: "Não foi possível publicar seu cardápio. Tente novamente.",
+  publishFromEditorHint: "os clientes ainda veem a última versão publicada. Publique pelo editor para atualizar.",
+  soldOut: "Esgotado",
+  inStock: "Disponível",
+  soldOutCount: "esgotados",
+  restockAll: "Marcar todos disponíveis",
+  searchItems: "Buscar itens...",
+  eightySixList: "Lista 86",
+  availabilityLiveHint: "As alterações aqui entram no ar na hora, sem precisar publicar.",
+  schedule: "Horário",
+  categorySchedule: "Servido apenas em",
+  addTimeWindow: "Adicionar horário",
+  alwaysAvailable: "Sempre disponível.",
+  overnightWindow: "termina no dia seguinte",
+  timezone: "Fuso horário",
+  timezoneHint: "Os horários seguem este fuso, onde quer que seus clientes estejam.",
+  availableDuring: "Disponível",
+  notAvailableNow: "Indisponível agora",
+  noLongerAvailable: "Não está mais disponível",
+  removeUnavailableItems: "Remova os itens indisponíveis para enviar seu pedido.",
+  tags: "Tags",
+  dietaryLabel: "Dieta",
+  spiceLevelLabel: "Nível de pimenta",
+  notSpicy: "Sem pimenta",
+  containsAllergens: "Contém",
+  tagVegan: "Vegano",
+  tagVegetarian: "Vegetariano",
+  tagGlutenFree: "Sem glúten",
+  tagLactoseFree: "Sem lactose",
+  allergenGluten: "Glúten",
+  allergenCrustaceans: "Crustáceos",
+  allergenEggs: "Ovos",
+  allergenFish: "Peixe",
+  allergenPeanuts: "Amendoim",
+  allergenSoybeans: "Soja",
+  allergenMilk: "Leite",
+  allergenNuts: "Castanhas",
+  allergenCelery: "Aipo",
+  allergenMustard: "Mostarda",
+  allergenSesame: "Gergelim",
+  allergenSulphites: "Sulfitos",
+  allergenLupin: "Tremoço",
+  allergenMolluscs: "Moluscos",
+  filterItems: "Filtros",
+  avoidAllergens: "Sem",
+  mildOnly: "Sem pimenta",
+  clearFilters: "Limpar",
+  noItemsMatchFilter: "Nenhum item corresponde aos filtros.",
+  allergenDisclaimer: "As informações de alérgenos são fornecidas pelo restaurante. Em caso de alergia grave, confirme com a equipe.",
+  businessTypeLabel: "Tipo",
+  businessTypePlaceholder: "ex: Hamburgueria, Sushi Bar",
+  popularItems: "Populares",
+  houseSpecial: "Especial da casa.",
+  chatUnavailable: "Desculpe, estou tendo problemas para responder agora.",
+  languages: "Idiomas",
+  menuLanguage: "Idioma do cardápio",
+  languagesHint: "Os clientes veem o cardápio no idioma do navegador quando há tradução, e podem trocar o idioma no cabeçalho.",
+  addLanguage: "Adicionar idioma...",
+  autoTranslate: "Traduzir com IA",
+  translating: "Traduzindo...",
+  itemsTranslated: "itens traduzidos",
+  removeLanguage: "Remover idioma",
+  confirmRemoveLanguage: "Remover este idioma e todas as suas traduções?",
+  translateFailed: "Não foi possível traduzir o cardápio. Tente novamente.",
+  translationsLabel: "Traduções",
+  loadingPages: "Preparando páginas...",
+  menuPagesSelected: "páginas prontas para escanear",
+  addMorePages: "Adicionar páginas",
+  pagesLoadFailed: "Não foi possível abrir um dos arquivos. Tente outra foto ou PDF.",
+  readingPages: "Lendo página",
+  reviewImport: "Revise os itens extraídos",
+  reviewImportHint: "Compare cada item com o trecho do cardápio original antes de criar.",
+  itemsFound: "itens encontrados",
+  pagesLabel: "páginas",
+  pricesToCheck: "preços para conferir",
+  checkPrice: "Confira o preço",
+  pageReadFailed: "Não foi possível ler",
+  noItemsExtracted: "Nenhum item foi lido nestas páginas. Tente fotos mais nítidas.",
+  backToForm: "Voltar",
+  confirmImport: "Criar cardápio",
+  importExport: "Importar / Exportar",
+  importFromFile: "Importar de arquivo",
+  exportLabel: "Exportar",
+  exportHint: "JSON é um backup completo, incluindo imagens. CSV e XLSX têm uma linha por item para editar em planilhas.",
+  exportFailed: "Não foi possível exportar o cardápio. Tente novamente.",
+  importLabel: "Importar",
+  chooseImportFile: "Escolha um arquivo .json, .csv ou .xlsx",
+  importHint: "Planilhas precisam das colunas category, name e price; description, dietary, allergens, spice_level e item_id são opcionais.",
+  itemsReadyToImport: "itens prontos para importar",
+  rowsSkipped: "linhas ignoradas",
+  lineLabel: "Linha",
+  importMerge: "Mesclar com as categorias atuais (atualiza itens iguais, adiciona os novos)",
+  importReplace: "Substituir todas as categorias",
+  applyImport: "Importar itens",
+  importFailed: "Não foi possível importar este arquivo. Tente novamente.",
+  importErrorInvalidFile: "Este arquivo não é um backup de cardápio, CSV ou planilha.",
+  importErrorUnsupportedVersion: "Este backup foi feito por uma versão mais nova do app.",
+  importErrorMissingColumns: "O cabeçalho precisa das colunas category, name e price.",
+  importErrorMissingCategory: "Categoria ausente",
+  importErrorMissingName: "Nome ausente",
+  importErrorInvalidPrice: "Preço inválido",
+  importErrorUnknownDietary: "Tag alimentar desconhecida",
+  importErrorUnknownAllergen: "Alérgeno desconhecido",
+  importErrorInvalidSpiceLevel: "O nível de picância deve ser entre 0 e 3",
+  importErrorCurrencyMismatch: "Este backup usa uma moeda diferente deste cardápio",
+  untitledMenu: "Meu Cardápio",
+  bulkPriceChange: "Reajustar preços",
+  bulkPriceHint: "Use um valor negativo para baixar preços. O arredondamento leva cada preço ao final mais próximo.",
+  bulkPriceEmpty: "Escolha itens e informe o reajuste para ver os novos preços",
+  percentPlaceholder: "ex: 10",
+  amountPlaceholder: "ex: 2,00",
+  noRounding: "Sem arredondamento",
+  roundTo: "Arredondar para",
+  updatePrices: "Atualizar preços",
+  pricesUpdated: "preços atualizados",
+  undo: "Desfazer",
+  redo: "Refazer",
+  categoryDeleted: "excluída",
+  allChangesSaved: "Tudo salvo",
+  unsavedChanges: "Alterações não salvas",
+  savingChanges: "Salvando...",
+  autosaveFailed: "Não foi possível salvar; tentando de novo",
+  saveConflict: "Outra pessoa alterou este cardápio",
+  saveConflictHint: "Outro editor salvou este cardápio enquanto você editava. Suas alterações ainda não foram salvas.",
+  savedElsewhereAt: "Salvo em:",
+  mergeChanges: "Juntar as duas versões",
+  mergeChangesHint: "Mantém as edições da outra pessoa e as suas; onde os dois mudaram a mesma coisa, vale a sua.",
+  overwriteChanges: "Sobrescrever com a minha versão",
+  menuUpdated: "O cardápio acabou de ser atualizado",
+  nowCosts: "agora custa",
+  wasPrice: "antes",
+  itemNowSoldOut: "esgotou",
+  itemRemovedFromOrder: "não está mais disponível e saiu do seu pedido",
+  analytics: "Estatísticas",
+  noAnalyticsAccess: "Só o dono do cardápio pode ver as estatísticas",
+  daysShort: "dias",
+  scansLabel: "Aberturas do cardápio",
+  fromQrCode: "pelo QR Code",
+  visitorsLabel: "Visitantes",
+  visitorsHint: "Sessões anônimas de navegação",
+  cartConversion: "Adicionaram ao pedido",
+  visitorsAddedToCart: "visitantes adicionaram um item",
+  chatQuestionsLabel: "Perguntas no chat",
+  peakHour: "Horário de pico",
+  dailyScans: "Aberturas por dia",
+  topItems: "Itens mais populares",
+  noAnalyticsYet: "Nenhuma visita registrada neste período ainda",
+  itemLabel: "Item",
+  photoViews: "Fotos abertas",
+  cartAdds: "Adições",
+  peakHours: "Aberturas por horário",
+  tablesLabel: "Mesas",
+  tablesPlaceholder: "ex.: 1-12, Varanda 1-4, Bar",
+  addTables: "Adicionar",
+  tablesHint: "Separe as mesas por vírgulas. Cada mesa recebe seu próprio QR code, e os pedidos feitos por ele incluem a mesa.",
+  removeTable: "Remover mesa",
+  removeAllTables: "Remover todas",
+  tableQrCodes: "QR codes das mesas",
+  tableQrHint: "Cada código abre o cardápio com a mesa já definida nos pedidos.",
+  printTableQrs: "Imprimir códigos das mesas",
+  scanToOrder: "Escaneie para ver o cardápio e pedir",
+  opensByTable: "Aberturas por mesa",
+  printFiles: "Arquivos para impressão",
+  printFilesHint: "Arquivos vetoriais SVG e PDF que ficam nítidos em qualquer tamanho.",
+  printSize: "Tamanho",
+  tableTent: "Display de mesa",
+  posterA4: "Cartaz A4",
+  sticker: "Adesivo",
+  qrForeground: "Código",
+  qrBackground: "Fundo",
+  errorCorrection: "Correção de erros",
+  logoInCenter: "Logo no centro",
+  qrScanable: "Pronto para imprimir",
+  contrastLabel: "contraste",
+  qrTooLong: "O link é longo demais para caber em um QR code.",
+  qrInverted: "O código precisa ser mais escuro que o fundo. Muitos celulares não leem códigos claros em fundo escuro.",
+  qrLowContrast: "As cores estão muito próximas. Escolha um código mais escuro ou um fundo mais claro.",
+  qrTooDense: "Os pontos do código ficariam pequenos demais neste tamanho. Escolha um tamanho maior ou menos correção de erros.",
+  qrLogoTooLarge: "O logo cobre mais do código do que este nível de correção consegue recuperar. Use o nível H ou remova o logo.",
+  qrScanHint: "Escaneie para ver nosso cardápio",
+  qrExportFailed: "Não foi possível criar o arquivo. Se o logo estiver hospedado em outro lugar, tente enviá-lo novamente.",
+  printLayout: "Cardápio impresso",
+  templateSingle: "Uma coluna",
+  templateTwoColumn: "Duas colunas",
+  templateChalkboard: "Lousa de bistrô",
+  printMenuPdf: "Imprimir ou salvar em PDF",
+  primaryColor: "Cor da marca",
+  accentColor: "Destaque",
+  suggestFromLogo: "Sugerir pelo logo",
+  paletteSuggestionFailed: "Não foi possível sugerir cores pelo logo. Tente novamente.",
+  fontPairing: "Fontes",
+  fontsModern: "Moderna",
+  fontsClassic: "Clássica",
+  fontsFriendly: "Descontraída",
+  fontsElegant: "Elegante",
+  cornerRadius: "Cantos",
+  radiusSharp: "Retos",
+  radiusRounded: "Arredondados",
+  radiusRound: "Bem redondos",
+  coverImage: "Imagem de capa",
+  addCoverImage: "Adicione uma foto atrás do cabeçalho",
+  removeCoverImage: "Remover imagem de capa",
+  themeLight: "Claro",
+  themeDark: "Escuro",
+  themePreviewItem: "Hambúrguer da casa",
+  themePreviewDescription: "Pão brioche, cheddar e picles",
+  darkVariantHint: "A versão escura é gerada a partir da cor da marca. As cores são ajustadas quando preciso para manter o texto legível.",
+  menuLayout: "Layout",
+  layoutList: "Lista",
+  layoutListHint: "Descrições com uma foto ao lado de cada item",
+  layoutGrid: "Grade de fotos",
+  layoutGridHint: "Fotos grandes em destaque, ideal para cafés e padarias",
+  layoutCompact: "Compacto",
+  layoutCompactHint: "Linhas densas só com texto, ideal para cartas de bebidas",
+  layoutCentered: "Centralizado",
+  layoutCenteredHint: "Nomes e descrições centralizados, sem preços nem pedidos, para alta gastronomia",
+  printsPublishedMenu: "Imprime o cardápio publicado, o mesmo que os clientes veem ao ler o QR code.",
+  publishBeforePrinting: "Publique o cardápio antes de imprimi-lo.",
+};
+
+// UI dictionaries. Adding a language only needs a new Dictionary here; missing or unknown keys fail type-checking.
+export const translations = { en, pt } satisfies Record<string, Dictionary>;
+
+export type UILanguage = keyof typeof translations;
+
+export const UI_LANGUAGES = Object.keys(translations) as UILanguage[];
+
+const DEFAULT_UI_LANGUAGE: UILanguage = 'pt';
+
+// Picks the dictionary for a locale ("pt-BR" uses "pt"), falling back to English for languages without one
+export const getTranslations = (language?: string): Dictionary => {
+  if (!language) return translations[DEFAULT_UI_LANGUAGE];
+  const base = language.toLowerCase().split('-')[0];
+  return (translations as Record<string, Dictionary>)[base] || translations.en;
+};
+
+// Next language for the header toggles
+export const getNextUILanguage = (language?: string): UILanguage => {
+  const index = UI_LANGUAGES.indexOf((language || DEFAULT_UI_LANGUAGE) as UILanguage);
+  return UI_LANGUAGES[(index + 1) % UI_LANGUAGES.length];
+};
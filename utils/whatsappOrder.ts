@@ -0,0 +1,71 @@
+import { Dictionary } from './translations';
+
+export type OrderFulfillment = 'table' | 'delivery';
+
+export interface OrderLine {
+  name: string;
+  quantity: number;
+  unitPrice: number; // Minor units
+}
+
+export interface OrderDetails {
+  customerName: string;
+  fulfillment: OrderFulfillment;
+  tableNumber: string;
+  address: string;
+  notes: string;
+}
+
+export const emptyOrderDetails: OrderDetails = {
+  customerName: '',
+  fulfillment: 'table',
+  tableNumber: '',
+  address: '',
+  notes: ''
+};
+
+// WhatsApp only accepts digits (country code included) in wa.me links
+export const normalizeWhatsAppNumber = (phone?: string) => (phone || '').replace(/\D/g, '');
+
+export const isOrderDetailsComplete = (details: OrderDetails) => {
+  if (!details.customerName.trim()) return false;
+  return details.fulfillment === 'table' ? !!details.tableNumber.trim() : !!details.address.trim();
+};
+
+export const buildOrderMessage = (
+  restaurantName: string,
+  lines: OrderLine[],
+  details: OrderDetails,
+  t: Dictionary,
+  formatAmount: (amount: number) => string
+): string => {
+  const total = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const rows: string[] = [];
+
+  rows.push(`*${t.orderMessageTitle} - ${restaurantName}*`);
+  rows.push('');
+  rows.push(`*${t.orderName}:* ${details.customerName.trim()}`);
+  if (details.fulfillment === 'table') {
+    rows.push(`*${t.orderTable}:* ${details.tableNumber.trim()}`);
+  } else {
+    rows.push(`*${t.orderDelivery}:* ${details.address.trim()}`);
+  }
+  rows.push('');
+
+  lines.forEach(line => {
+    rows.push(`${line.quantity}x ${line.name} (${formatAmount(line.unitPrice)}) = ${formatAmount(line.unitPrice * line.quantity)}`);
+  });
+
+  rows.push('');
+  rows.push(`*${t.orderTotal}: ${formatAmount(total)}*`);
+
+  if (details.notes.trim()) {
+    rows.push('');
+    rows.push(`*${t.orderNotes}:* ${details.notes.trim()}`);
+  }
+
+  return rows.join('\n');
+};
+
+export const getWhatsAppOrderUrl = (phone: string, message: string) =>
+  `https://wa.me/${normalizeWhatsAppNumber(phone)}?text=${encodeURIComponent(message)}`;